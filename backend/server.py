@@ -1,10 +1,15 @@
 import os
 import re
+import json
 import time
+import socket
+import hmac
+import base64
 import threading
 import subprocess
 from collections import defaultdict
-from flask import Flask, jsonify
+from functools import lru_cache
+from flask import Flask, Response, jsonify, request, stream_with_context
 from flask_cors import CORS
 
 app = Flask(__name__)
@@ -12,19 +17,62 @@ CORS(app)
 
 topology = {
     'nodes': {},
-    'edges': defaultdict(lambda: {'count': 0, 'last_active': 0})
+    'edges': defaultdict(lambda: {'count': 0, 'last_active': 0, 'flows': defaultdict(int)})
 }
 topology_lock = threading.Lock()
 
 INTERFACE = os.environ.get('CAPTURE_INTERFACE', 'tun0')
 STALE_THRESHOLD = 30
+STREAM_INTERVAL = 0.5
+STREAM_KEEPALIVE = 15
+# Destination ports from here up are the ephemeral range clients connect from, so they are not recorded
+EPHEMERAL_PORT_START = 32768
+# Busiest protocol/port flows reported per edge
+MAX_EDGE_FLOWS = 8
+# Bumped on breaking changes to the topology payloads; the frontend refuses versions it doesn't know
+SCHEMA_VERSION = 1
+# Optional credentials; when either is set every API request must present one of them
+API_TOKEN = os.environ.get('API_TOKEN')
+API_BASIC_AUTH = os.environ.get('API_BASIC_AUTH')  # "user:password"
+
+
+# IPv4 or IPv6 address; tcpdump separates the port with a dot in both families
+TCPDUMP_ADDRESS = r'(\d+\.\d+\.\d+\.\d+|[0-9a-f]*:[0-9a-f:]*)'
+TCPDUMP_LINE = re.compile(
+    r'IP6? ' + TCPDUMP_ADDRESS + r'(?:\.\d+)? > ' + TCPDUMP_ADDRESS + r'(?:\.(\d+))?: (\S+)'
+)
 
 
 def parse_tcpdump_line(line):
-    match = re.search(r'IP (\d+\.\d+\.\d+\.\d+)\.\d+ > (\d+\.\d+\.\d+\.\d+)\.\d+:', line)
-    if match:
-        return {'src_ip': match.group(1), 'dst_ip': match.group(2), 'timestamp': time.time()}
-    return None
+    # `tcpdump -q` ends the addresses with "tcp 0", "UDP, length 64", "ICMP echo request, ..." or "ICMP6, ..."
+    match = TCPDUMP_LINE.search(line)
+    if not match:
+        return None
+    protocol = match.group(4).rstrip(',').lower()
+    if protocol == 'icmp6':
+        protocol = 'icmp'
+    if protocol not in ('tcp', 'udp', 'icmp'):
+        protocol = 'other'
+    port = int(match.group(3)) if match.group(3) and protocol in ('tcp', 'udp') else None
+    if port is not None and port >= EPHEMERAL_PORT_START:
+        port = None
+    return {
+        'src_ip': match.group(1),
+        'dst_ip': match.group(2),
+        'protocol': protocol,
+        'port': port,
+        'timestamp': time.time(),
+    }
+
+
+@lru_cache(maxsize=1024)
+def service_name(protocol, port):
+    if port is None:
+        return None
+    try:
+        return socket.getservbyport(port, protocol)
+    except OSError:
+        return None
 
 
 def aggregate_packet(packet):
@@ -41,11 +89,12 @@ def aggregate_packet(packet):
         edge_key = (src, dst)
         topology['edges'][edge_key]['count'] += 1
         topology['edges'][edge_key]['last_active'] = now
+        topology['edges'][edge_key]['flows'][(packet['protocol'], packet['port'])] += 1
 
 
 def capture_packets():
     process = subprocess.Popen(
-        ['sudo', 'tcpdump', '-i', INTERFACE, '-n', '-l', 'ip'],
+        ['sudo', 'tcpdump', '-i', INTERFACE, '-n', '-l', '-q', 'ip or ip6'],
         stdout=subprocess.PIPE,
         stderr=subprocess.PIPE
     )
@@ -56,21 +105,98 @@ def capture_packets():
             aggregate_packet(packet)
 
 
-@app.route('/api/topology')
-def get_topology():
-    now = time.time()
+def edge_flows(flows):
+    busiest = sorted(flows.items(), key=lambda item: item[1], reverse=True)[:MAX_EDGE_FLOWS]
+    return [
+        {'protocol': protocol, 'port': port, 'service': service_name(protocol, port), 'weight': count}
+        for (protocol, port), count in busiest
+    ]
+
+
+def snapshot_topology(now):
     with topology_lock:
         active_nodes = [
-            {'ip': ip, 'packets': data['packet_count']}
+            {'ip': ip, 'packets': data['packet_count'], 'first_seen': data['first_seen'], 'last_seen': data['last_seen']}
             for ip, data in topology['nodes'].items()
             if now - data['last_seen'] < STALE_THRESHOLD
         ]
         active_edges = [
-            {'source': src, 'target': dst, 'weight': data['count']}
+            {'source': src, 'target': dst, 'weight': data['count'], 'flows': edge_flows(data['flows'])}
             for (src, dst), data in topology['edges'].items()
             if now - data['last_active'] < STALE_THRESHOLD
         ]
-    return jsonify({'nodes': active_nodes, 'edges': active_edges, 'timestamp': now})
+    return {'schema_version': SCHEMA_VERSION, 'nodes': active_nodes, 'edges': active_edges, 'timestamp': now}
+
+
+def diff_topology(previous, current):
+    prev_nodes = {n['ip']: n for n in previous['nodes']}
+    curr_nodes = {n['ip']: n for n in current['nodes']}
+    prev_edges = {(e['source'], e['target']): e for e in previous['edges']}
+    curr_edges = {(e['source'], e['target']): e for e in current['edges']}
+    return {
+        'schema_version': SCHEMA_VERSION,
+        'upserted_nodes': [n for ip, n in curr_nodes.items() if prev_nodes.get(ip) != n],
+        'removed_nodes': [ip for ip in prev_nodes if ip not in curr_nodes],
+        'upserted_edges': [e for key, e in curr_edges.items() if prev_edges.get(key) != e],
+        'removed_edges': [{'source': src, 'target': dst} for (src, dst) in prev_edges if (src, dst) not in curr_edges],
+        'timestamp': current['timestamp'],
+    }
+
+
+def sse_event(event, data):
+    return f'event: {event}\ndata: {json.dumps(data)}\n\n'
+
+
+def is_authorized(header):
+    if header.startswith('Bearer ') and API_TOKEN:
+        return hmac.compare_digest(header[len('Bearer '):].encode(), API_TOKEN.encode())
+    if header.startswith('Basic ') and API_BASIC_AUTH:
+        try:
+            credentials = base64.b64decode(header[len('Basic '):]).decode('utf-8')
+        except ValueError:
+            return False
+        return hmac.compare_digest(credentials.encode(), API_BASIC_AUTH.encode())
+    return False
+
+
+@app.before_request
+def require_auth():
+    # CORS preflights carry no credentials
+    if not (API_TOKEN or API_BASIC_AUTH) or request.method == 'OPTIONS':
+        return None
+    if is_authorized(request.headers.get('Authorization', '')):
+        return None
+    return jsonify({'error': 'unauthorized'}), 401
+
+
+@app.route('/api/topology')
+def get_topology():
+    return jsonify(snapshot_topology(time.time()))
+
+
+@app.route('/api/stream')
+def stream_topology():
+    def generate():
+        previous = snapshot_topology(time.time())
+        yield sse_event('snapshot', previous)
+        last_sent = time.time()
+        while True:
+            time.sleep(STREAM_INTERVAL)
+            current = snapshot_topology(time.time())
+            delta = diff_topology(previous, current)
+            if any(delta[key] for key in ('upserted_nodes', 'removed_nodes', 'upserted_edges', 'removed_edges')):
+                yield sse_event('delta', delta)
+                previous = current
+                last_sent = current['timestamp']
+            elif current['timestamp'] - last_sent > STREAM_KEEPALIVE:
+                yield ': keepalive\n\n'
+                last_sent = current['timestamp']
+
+    return Response(
+        stream_with_context(generate()),
+        mimetype='text/event-stream',
+        headers={'Cache-Control': 'no-cache', 'X-Accel-Buffering': 'no'},
+    )
 
 
 @app.route('/api/stats')
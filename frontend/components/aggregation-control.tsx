@@ -0,0 +1,50 @@
+"use client"
+
+import type { AggregationSettings } from "@/lib/aggregation"
+
+interface AggregationControlProps {
+  settings: AggregationSettings
+  expandedCount: number
+  onChange: (settings: AggregationSettings) => void
+  onCollapseAll: () => void
+}
+
+// IPv6 is grouped at the prefixes usually handed out to a provider, a site and a LAN
+const OPTIONS: { label: string; settings: AggregationSettings }[] = [
+  { label: "No grouping", settings: { mode: "none", prefix: 24, prefix6: 64 } },
+  { label: "Group /8 · /32", settings: { mode: "prefix", prefix: 8, prefix6: 32 } },
+  { label: "Group /16 · /48", settings: { mode: "prefix", prefix: 16, prefix6: 48 } },
+  { label: "Group /24 · /64", settings: { mode: "prefix", prefix: 24, prefix6: 64 } },
+  { label: "Group by ASN", settings: { mode: "asn", prefix: 24, prefix6: 64 } },
+]
+
+function optionValue(settings: AggregationSettings): string {
+  return settings.mode === "prefix" ? `prefix-${settings.prefix}` : settings.mode
+}
+
+export function AggregationControl({ settings, expandedCount, onChange, onCollapseAll }: AggregationControlProps) {
+  return (
+    <div className="flex items-center gap-2 font-mono text-xs text-neutral-400">
+      <select
+        aria-label="Aggregation"
+        className="bg-neutral-950 border border-neutral-800 rounded px-2 py-1 text-neutral-200 outline-none cursor-pointer"
+        value={optionValue(settings)}
+        onChange={(event) => {
+          const option = OPTIONS.find((o) => optionValue(o.settings) === event.target.value)
+          if (option) onChange(option.settings)
+        }}
+      >
+        {OPTIONS.map((option) => (
+          <option key={optionValue(option.settings)} value={optionValue(option.settings)}>
+            {option.label}
+          </option>
+        ))}
+      </select>
+      {settings.mode !== "none" && expandedCount > 0 && (
+        <button onClick={onCollapseAll} className="cursor-pointer text-neutral-500 hover:text-white">
+          Collapse {expandedCount}
+        </button>
+      )}
+    </div>
+  )
+}
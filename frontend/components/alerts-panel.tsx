@@ -0,0 +1,131 @@
+"use client"
+
+import { useState } from "react"
+import type { AnomalyAlert, AnomalyRule } from "@/lib/anomaly-rules"
+import { abbreviateIP } from "@/lib/ip"
+
+interface AlertsPanelProps {
+  alerts: AnomalyAlert[]
+  rules: AnomalyRule[]
+  onRulesChange: (rules: AnomalyRule[]) => void
+  onSelectAlert: (alert: AnomalyAlert) => void
+  onClear: () => void
+}
+
+interface RuleField {
+  key: string
+  label: string
+  value: number
+  update: (value: number) => AnomalyRule
+}
+
+// Numeric settings exposed for each rule
+function ruleFields(rule: AnomalyRule): RuleField[] {
+  switch (rule.id) {
+    case "fan-out":
+      return [
+        { key: "maxPeers", label: "peers >", value: rule.maxPeers, update: (maxPeers) => ({ ...rule, maxPeers }) },
+      ]
+    case "traffic-spike":
+      return [
+        { key: "factor", label: "× baseline", value: rule.factor, update: (factor) => ({ ...rule, factor }) },
+        { key: "minRate", label: "min p/s", value: rule.minRate, update: (minRate) => ({ ...rule, minRate }) },
+      ]
+    case "new-ip-to-router":
+      return [
+        {
+          key: "flagSeconds",
+          label: "flag s",
+          value: rule.flagSeconds,
+          update: (flagSeconds) => ({ ...rule, flagSeconds }),
+        },
+      ]
+  }
+}
+
+export function AlertsPanel({ alerts, rules, onRulesChange, onSelectAlert, onClear }: AlertsPanelProps) {
+  const [open, setOpen] = useState(false)
+  const [showRules, setShowRules] = useState(false)
+  const ruleLabel = (id: AnomalyRule["id"]) => rules.find((r) => r.id === id)?.label ?? id
+
+  const replaceRule = (next: AnomalyRule) => onRulesChange(rules.map((rule) => (rule.id === next.id ? next : rule)))
+
+  return (
+    <div className="absolute bottom-4 left-4 z-10 w-72 font-mono text-xs text-neutral-400">
+      {open && (
+        <div className="mb-2 max-h-64 flex flex-col bg-black/90 border border-neutral-700 rounded-md shadow-lg">
+          <div className="flex justify-between px-3 py-1.5 border-b border-neutral-800">
+            <button onClick={() => setShowRules(!showRules)} className="cursor-pointer hover:text-white">
+              {showRules ? "Alerts" : "Rules"}
+            </button>
+            {!showRules && alerts.length > 0 && (
+              <button onClick={onClear} className="cursor-pointer hover:text-white">
+                Clear
+              </button>
+            )}
+          </div>
+          {showRules ? (
+            <ul className="overflow-y-auto px-3 py-2 space-y-1.5">
+              {rules.map((rule) => (
+                <li key={rule.id} className="flex flex-wrap items-center gap-x-2 gap-y-1">
+                  <label className="flex items-center gap-1.5 min-w-[120px] text-neutral-300">
+                    <input
+                      type="checkbox"
+                      checked={rule.enabled}
+                      onChange={(event) => replaceRule({ ...rule, enabled: event.target.checked })}
+                    />
+                    {rule.label}
+                  </label>
+                  {ruleFields(rule).map((field) => (
+                    <label key={field.key} className="flex items-center gap-1">
+                      <input
+                        type="number"
+                        min={0}
+                        className="w-12 bg-transparent border border-neutral-800 rounded px-1 text-neutral-200"
+                        value={field.value}
+                        onChange={(event) => replaceRule(field.update(parseFloat(event.target.value) || 0))}
+                      />
+                      {field.label}
+                    </label>
+                  ))}
+                </li>
+              ))}
+            </ul>
+          ) : alerts.length === 0 ? (
+            <div className="px-3 py-2 text-neutral-500">No alerts</div>
+          ) : (
+            <ul className="overflow-y-auto py-1">
+              {alerts.map((alert) => (
+                <li key={alert.id}>
+                  <button
+                    onClick={() => onSelectAlert(alert)}
+                    className="cursor-pointer w-full text-left px-3 py-1 hover:bg-white/10"
+                  >
+                    <div className="flex justify-between gap-2">
+                      <span className="text-yellow-400">{ruleLabel(alert.ruleId)}</span>
+                      <span className="text-neutral-500">
+                        {new Date(alert.firedAt * 1000).toLocaleTimeString([], { hour12: false })}
+                      </span>
+                    </div>
+                    <div className="text-neutral-300" title={alert.ip}>
+                      {abbreviateIP(alert.ip)}
+                    </div>
+                    <div className="text-neutral-500">{alert.message}</div>
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+      <button
+        onClick={() => setOpen(!open)}
+        className={`cursor-pointer px-2 py-1 rounded border bg-black/60 ${
+          alerts.length > 0 ? "border-yellow-500/50 text-yellow-400" : "border-neutral-800"
+        }`}
+      >
+        Alerts ({alerts.length})
+      </button>
+    </div>
+  )
+}
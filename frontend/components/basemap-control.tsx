@@ -0,0 +1,33 @@
+"use client"
+
+import { BASEMAP_DETAILS, type BasemapDetail } from "@/lib/basemap"
+
+interface BasemapControlProps {
+  detail: BasemapDetail
+  choropleth: boolean
+  onDetailChange: (detail: BasemapDetail) => void
+  onChoroplethChange: (choropleth: boolean) => void
+}
+
+export function BasemapControl({ detail, choropleth, onDetailChange, onChoroplethChange }: BasemapControlProps) {
+  return (
+    <div className="flex items-center gap-2 font-mono text-xs text-neutral-400 whitespace-nowrap">
+      <select
+        aria-label="Map detail"
+        className="bg-neutral-950 border border-neutral-800 rounded px-2 py-1 text-neutral-200 outline-none cursor-pointer"
+        value={detail}
+        onChange={(event) => onDetailChange(event.target.value as BasemapDetail)}
+      >
+        {BASEMAP_DETAILS.map((option) => (
+          <option key={option.value} value={option.value}>
+            {option.label}
+          </option>
+        ))}
+      </select>
+      <label className="flex items-center gap-1 cursor-pointer">
+        <input type="checkbox" checked={choropleth} onChange={(event) => onChoroplethChange(event.target.checked)} />
+        Traffic by country
+      </label>
+    </div>
+  )
+}
@@ -0,0 +1,61 @@
+"use client"
+
+import { useRef } from "react"
+import type { CaptureFile } from "@/lib/capture"
+
+export interface CaptureSummary {
+  name: string
+  format: CaptureFile["format"]
+  packetCount: number
+}
+
+interface CaptureLoaderProps {
+  capture: CaptureSummary | null
+  loading: boolean
+  error: string | null
+  onOpen: (file: File) => void
+  onClose: () => void
+}
+
+export const CAPTURE_FILE_TYPES = ".pcap,.pcapng,.cap,.txt,.log"
+
+export function CaptureLoader({ capture, loading, error, onOpen, onClose }: CaptureLoaderProps) {
+  const fileInputRef = useRef<HTMLInputElement>(null)
+
+  return (
+    <div className="flex items-center gap-2 font-mono text-xs text-neutral-400 whitespace-nowrap">
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept={CAPTURE_FILE_TYPES}
+        className="hidden"
+        onChange={(event) => {
+          const file = event.target.files?.[0]
+          if (file) onOpen(file)
+          event.target.value = ""
+        }}
+      />
+      {capture ? (
+        <span className="flex items-center gap-1 border border-yellow-500/40 rounded px-2 py-1 text-yellow-400">
+          {capture.name} · {capture.packetCount.toLocaleString()} pkts
+          <button
+            onClick={onClose}
+            aria-label="Close capture and return to live data"
+            className="cursor-pointer text-neutral-500 hover:text-white"
+          >
+            ✕
+          </button>
+        </span>
+      ) : (
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          disabled={loading}
+          className="cursor-pointer border border-neutral-800 rounded px-2 py-1 text-neutral-200 hover:border-neutral-500"
+        >
+          {loading ? "Parsing…" : "Open capture"}
+        </button>
+      )}
+      {error && <span className="text-red-400">{error}</span>}
+    </div>
+  )
+}
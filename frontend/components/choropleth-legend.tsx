@@ -0,0 +1,26 @@
+"use client"
+
+import { formatRate } from "@/lib/traffic-rates"
+
+interface ChoroplethLegendProps {
+  max: number
+  color: (traffic: number) => string
+}
+
+const STOPS = 8
+
+/** Gradient key for the country fill, from no traffic to the busiest country. */
+export function ChoroplethLegend({ max, color }: ChoroplethLegendProps) {
+  const gradient = Array.from({ length: STOPS + 1 }, (_, i) => color((max * i) / STOPS)).join(", ")
+
+  return (
+    <div className="w-40 pt-1">
+      <div className="text-neutral-400">Traffic by country</div>
+      <div className="h-2 mt-1 rounded-sm" style={{ background: `linear-gradient(to right, ${gradient})` }} />
+      <div className="flex justify-between text-neutral-500">
+        <span>0</span>
+        <span>{formatRate(max)}</span>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,112 @@
+"use client"
+
+import { SUPPORTED_SCHEMA_VERSIONS } from "@/lib/api-schema"
+import {
+  EMPTY_DIAGNOSTICS,
+  FAILURE_LABELS,
+  formatBytes,
+  type ConnectionDiagnostics,
+  type DiagnosticLogEntry,
+} from "@/lib/diagnostics"
+import type { Sensor } from "@/lib/sensors"
+import type { StreamStatus } from "@/lib/topology-stream"
+
+interface DiagnosticsDrawerProps {
+  sensors: Sensor[]
+  statuses: Record<string, StreamStatus>
+  diagnostics: Record<string, ConnectionDiagnostics>
+  now: number
+  onClose: () => void
+}
+
+// What to check first for each kind of failure
+const FAILURE_HINTS: Record<DiagnosticLogEntry["reason"], string> = {
+  network: "The backend didn't answer. Check that it is running and the URL is right.",
+  cors: "The backend answered but didn't allow this origin. Check its CORS configuration.",
+  http: "The backend answered with an error status. 401 or 403 means the credentials in Settings were rejected.",
+  schema: "The backend answered with a payload this version of the app can't read.",
+}
+
+function formatAge(ms: number): string {
+  const seconds = Math.max(0, Math.round(ms / 1000))
+  if (seconds < 60) return `${seconds}s ago`
+  if (seconds < 3600) return `${Math.round(seconds / 60)}m ago`
+  return `${Math.round(seconds / 3600)}h ago`
+}
+
+/** Per-backend request details and recent errors, for working out why a backend shows as disconnected. */
+export function DiagnosticsDrawer({ sensors, statuses, diagnostics, now, onClose }: DiagnosticsDrawerProps) {
+  return (
+    <div className="absolute top-2 right-2 bottom-2 z-30 w-96 max-w-[calc(100%-1rem)] flex flex-col bg-black/95 border border-neutral-700 rounded-md font-mono text-xs text-neutral-400 shadow-lg">
+      <div className="flex items-center justify-between px-3 py-2 border-b border-neutral-800">
+        <span className="text-white font-medium">Diagnostics</span>
+        <button onClick={onClose} aria-label="Close diagnostics" className="cursor-pointer hover:text-white">
+          ✕
+        </button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto px-3 py-2 space-y-4">
+        {sensors.map((sensor) => {
+          const entry = diagnostics[sensor.id] ?? EMPTY_DIAGNOSTICS
+          const status = statuses[sensor.id] ?? "connecting"
+          return (
+            <section key={sensor.id} className="space-y-1">
+              <div className="flex items-center gap-2">
+                <span className="w-1.5 h-1.5 rounded-full" style={{ background: sensor.color }} />
+                <span className="text-white">{sensor.name}</span>
+                <span className="text-neutral-500 truncate">{sensor.url}</span>
+              </div>
+
+              <dl className="grid grid-cols-[8rem_1fr] gap-x-2">
+                <dt className="text-neutral-500">Status</dt>
+                <dd className={status === "disconnected" ? "text-red-400" : undefined}>
+                  {status}
+                  {entry.failure && ` (${FAILURE_LABELS[entry.failure.reason]})`}
+                </dd>
+                <dt className="text-neutral-500">HTTP status</dt>
+                <dd>{entry.status ?? "—"}</dd>
+                <dt className="text-neutral-500">Latency</dt>
+                <dd>{entry.latency === undefined ? "—" : `${entry.latency} ms`}</dd>
+                <dt className="text-neutral-500">Payload size</dt>
+                <dd>{entry.bytes === undefined ? "—" : formatBytes(entry.bytes)}</dd>
+                <dt className="text-neutral-500">Schema version</dt>
+                <dd>
+                  {entry.schemaVersion ?? "—"}{" "}
+                  <span className="text-neutral-600">(supports {SUPPORTED_SCHEMA_VERSIONS.join(", ")})</span>
+                </dd>
+                <dt className="text-neutral-500">Last good data</dt>
+                <dd>{entry.lastSuccessAt === undefined ? "never" : formatAge(now - entry.lastSuccessAt)}</dd>
+              </dl>
+
+              {entry.failure && (
+                <div className="text-red-400">
+                  {entry.failure.message}
+                  <div className="text-neutral-500">{FAILURE_HINTS[entry.failure.reason]}</div>
+                </div>
+              )}
+
+              <div className="text-neutral-500 pt-1">Recent errors</div>
+              {entry.log.length === 0 ? (
+                <div className="text-neutral-600">None</div>
+              ) : (
+                <ul className="space-y-0.5">
+                  {entry.log.map((item, index) => (
+                    <li key={`${item.at}-${index}`} className="flex gap-2">
+                      <span className="text-neutral-600 shrink-0">{new Date(item.at).toLocaleTimeString()}</span>
+                      <span className={`shrink-0 ${item.level === "error" ? "text-red-400" : "text-yellow-400"}`}>
+                        {FAILURE_LABELS[item.reason]}
+                      </span>
+                      <span className="break-all" title={item.url}>
+                        {item.message}
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </section>
+          )
+        })}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,86 @@
+"use client"
+
+import { useState } from "react"
+import type { ExportFormat } from "@/lib/topology-export"
+
+export interface ExportOptions {
+  includeHud: boolean
+  filteredOnly: boolean
+}
+
+interface ExportMenuProps {
+  filterActive: boolean
+  error: string | null // why the last export failed
+  onExport: (format: ExportFormat, options: ExportOptions) => void
+}
+
+const IMAGE_FORMATS: { format: ExportFormat; label: string }[] = [
+  { format: "png", label: "PNG" },
+  { format: "svg", label: "SVG" },
+]
+const DATA_FORMATS: { format: ExportFormat; label: string }[] = [
+  { format: "json", label: "JSON" },
+  { format: "csv", label: "CSV" },
+  { format: "graphml", label: "GraphML" },
+  { format: "dot", label: "DOT" },
+]
+
+export function ExportMenu({ filterActive, error, onExport }: ExportMenuProps) {
+  const [open, setOpen] = useState(false)
+  const [options, setOptions] = useState<ExportOptions>({ includeHud: true, filteredOnly: true })
+
+  const formatButton = ({ format, label }: { format: ExportFormat; label: string }) => (
+    <button
+      key={format}
+      onClick={() => {
+        onExport(format, options)
+        setOpen(false)
+      }}
+      className="cursor-pointer px-2 py-0.5 rounded border border-neutral-800 hover:border-neutral-500 hover:text-white"
+    >
+      {label}
+    </button>
+  )
+
+  return (
+    <div className="relative flex items-center gap-2 font-mono text-xs text-neutral-400 whitespace-nowrap">
+      {error && <span className="text-red-400">{error}</span>}
+      <button
+        onClick={() => setOpen(!open)}
+        aria-expanded={open}
+        className="cursor-pointer border border-neutral-800 rounded px-2 py-1 text-neutral-200 hover:border-neutral-500"
+      >
+        Export
+      </button>
+      {open && (
+        <div className="absolute right-0 top-full mt-1 z-30 w-56 space-y-2 p-3 bg-black/95 border border-neutral-700 rounded-md shadow-lg">
+          <div>
+            <div className="mb-1 text-neutral-500">Current view</div>
+            <div className="flex gap-1">{IMAGE_FORMATS.map(formatButton)}</div>
+            <label className="flex items-center gap-1 mt-1 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={options.includeHud}
+                onChange={(event) => setOptions({ ...options, includeHud: event.target.checked })}
+              />
+              Include HUD and legend
+            </label>
+          </div>
+          <div>
+            <div className="mb-1 text-neutral-500">Topology data</div>
+            <div className="flex gap-1">{DATA_FORMATS.map(formatButton)}</div>
+            <label className={`flex items-center gap-1 mt-1 ${filterActive ? "cursor-pointer" : "text-neutral-600"}`}>
+              <input
+                type="checkbox"
+                disabled={!filterActive}
+                checked={filterActive && options.filteredOnly}
+                onChange={(event) => setOptions({ ...options, filteredOnly: event.target.checked })}
+              />
+              Only nodes matching the filter
+            </label>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
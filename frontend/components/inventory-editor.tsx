@@ -0,0 +1,259 @@
+"use client"
+
+import { useRef, useState } from "react"
+import { Button } from "@/components/ui/button"
+import { downloadText } from "@/lib/download"
+import {
+  fetchInventory,
+  parseInventory,
+  removeDevice,
+  removeStaticLink,
+  serializeInventory,
+  upsertDevice,
+  type Inventory,
+  type InventoryDevice,
+} from "@/lib/inventory"
+import { isIPAddress, normalizeIP, parseCidr } from "@/lib/ip"
+import type { NetworkNode } from "@/lib/topology"
+
+interface InventoryEditorProps {
+  inventory: Inventory
+  initialIP?: string
+  loadError?: string | null // why the configured inventory file couldn't be loaded
+  onChange: (inventory: Inventory) => void
+  onAddNode: (ip: string, options: { name?: string; role?: NetworkNode["role"]; connectTo?: string[] }) => void
+  onClose: () => void
+}
+
+const ROLES: NetworkNode["role"][] = ["Router", "Server", "Client"]
+
+const inputClassName =
+  "bg-transparent border border-neutral-800 rounded px-1.5 py-0.5 text-neutral-200 placeholder:text-neutral-600 outline-none focus:border-neutral-500"
+
+export function InventoryEditor({
+  inventory,
+  initialIP,
+  loadError,
+  onChange,
+  onAddNode,
+  onClose,
+}: InventoryEditorProps) {
+  const fileInputRef = useRef<HTMLInputElement>(null)
+  const [error, setError] = useState<string | null>(loadError ?? null)
+  const [url, setUrl] = useState("")
+  const [draft, setDraft] = useState({
+    ip: initialIP ?? "",
+    name: "",
+    role: "" as NetworkNode["role"] | "",
+    connectTo: "",
+  })
+
+  const load = async (loader: () => Promise<Inventory>) => {
+    try {
+      onChange(await loader())
+      setError(null)
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Could not load inventory")
+    }
+  }
+
+  const updateDevice = (device: InventoryDevice, patch: Partial<InventoryDevice>) =>
+    onChange(upsertDevice(inventory, { ...device, ...patch }))
+
+  const draftIsValid = parseCidr(draft.ip) !== null
+  const submitDraft = () => {
+    if (!draftIsValid) return
+    const connectTo = draft.connectTo
+      .split(/[\s,]+/)
+      .map(normalizeIP)
+      .filter((ip): ip is string => ip !== null)
+    onAddNode(normalizeIP(draft.ip) ?? draft.ip.trim(), {
+      name: draft.name || undefined,
+      role: draft.role || undefined,
+      connectTo,
+    })
+    setDraft({ ip: "", name: "", role: "", connectTo: "" })
+  }
+
+  return (
+    <div className="absolute inset-2 z-30 flex flex-col bg-black/95 border border-neutral-700 rounded-md font-mono text-xs text-neutral-400 shadow-lg">
+      <div className="flex items-center justify-between px-3 py-2 border-b border-neutral-800">
+        <span className="text-white font-medium">Device inventory</span>
+        <div className="flex items-center gap-2">
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".json,.yaml,.yml"
+            className="hidden"
+            onChange={(event) => {
+              const file = event.target.files?.[0]
+              if (file) load(async () => parseInventory(await file.text()))
+              event.target.value = ""
+            }}
+          />
+          <button onClick={() => fileInputRef.current?.click()} className="cursor-pointer hover:text-white">
+            Upload
+          </button>
+          <input
+            aria-label="Inventory URL"
+            placeholder="https://…/inventory.yaml"
+            className={`${inputClassName} w-48`}
+            value={url}
+            onChange={(event) => setUrl(event.target.value)}
+          />
+          <button onClick={() => url && load(() => fetchInventory(url))} className="cursor-pointer hover:text-white">
+            Load
+          </button>
+          <button
+            onClick={() => downloadText("inventory.json", serializeInventory(inventory), "application/json")}
+            className="cursor-pointer hover:text-white"
+          >
+            Export
+          </button>
+          <button onClick={onClose} aria-label="Close inventory" className="cursor-pointer hover:text-white">
+            ✕
+          </button>
+        </div>
+      </div>
+      {error && <div className="px-3 py-1 text-red-400 border-b border-neutral-800">{error}</div>}
+
+      <div className="flex items-center gap-2 px-3 py-2 border-b border-neutral-800">
+        <input
+          aria-label="IP or CIDR"
+          placeholder="IP or CIDR"
+          className={`${inputClassName} w-32`}
+          value={draft.ip}
+          onChange={(event) => setDraft({ ...draft, ip: event.target.value })}
+        />
+        <input
+          aria-label="Name"
+          placeholder="Name"
+          className={`${inputClassName} w-32`}
+          value={draft.name}
+          onChange={(event) => setDraft({ ...draft, name: event.target.value })}
+        />
+        <select
+          aria-label="Role"
+          className={`${inputClassName} bg-neutral-950`}
+          value={draft.role}
+          onChange={(event) => setDraft({ ...draft, role: event.target.value as NetworkNode["role"] | "" })}
+        >
+          <option value="">Auto role</option>
+          {ROLES.map((role) => (
+            <option key={role}>{role}</option>
+          ))}
+        </select>
+        <input
+          aria-label="Link to"
+          placeholder="Link to IPs"
+          className={`${inputClassName} flex-1`}
+          value={draft.connectTo}
+          onChange={(event) => setDraft({ ...draft, connectTo: event.target.value })}
+        />
+        <Button size="sm" onClick={submitDraft} disabled={!draftIsValid} className="cursor-pointer h-6 rounded">
+          Add
+        </Button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto px-3 py-2">
+        <table className="w-full">
+          <thead className="text-neutral-500 text-left">
+            <tr>
+              <th className="font-normal">Match</th>
+              <th className="font-normal">Name</th>
+              <th className="font-normal">Role</th>
+              <th className="font-normal">Tags</th>
+              <th className="font-normal">Pinned</th>
+              <th />
+            </tr>
+          </thead>
+          <tbody>
+            {inventory.devices.map((device) => (
+              <tr key={device.match}>
+                <td className="text-neutral-300 pr-2">{device.match}</td>
+                <td className="pr-2">
+                  <input
+                    aria-label={`Name for ${device.match}`}
+                    className={`${inputClassName} w-full`}
+                    value={device.name ?? ""}
+                    onChange={(event) => updateDevice(device, { name: event.target.value || undefined })}
+                  />
+                </td>
+                <td className="pr-2">
+                  <select
+                    aria-label={`Role for ${device.match}`}
+                    className={`${inputClassName} bg-neutral-950`}
+                    value={device.role ?? ""}
+                    onChange={(event) =>
+                      updateDevice(device, { role: (event.target.value || undefined) as NetworkNode["role"] })
+                    }
+                  >
+                    <option value="">Auto</option>
+                    {ROLES.map((role) => (
+                      <option key={role}>{role}</option>
+                    ))}
+                  </select>
+                </td>
+                <td className="pr-2">
+                  <input
+                    aria-label={`Tags for ${device.match}`}
+                    className={`${inputClassName} w-full`}
+                    defaultValue={(device.tags ?? []).join(", ")}
+                    onBlur={(event) =>
+                      updateDevice(device, {
+                        tags: event.target.value
+                          .split(",")
+                          .map((t) => t.trim())
+                          .filter(Boolean),
+                      })
+                    }
+                  />
+                </td>
+                <td className="pr-2">
+                  <input
+                    type="checkbox"
+                    aria-label={`Pin ${device.match}`}
+                    disabled={!isIPAddress(device.match)}
+                    checked={device.static ?? false}
+                    onChange={(event) => updateDevice(device, { static: event.target.checked || undefined })}
+                  />
+                </td>
+                <td>
+                  <button
+                    onClick={() => onChange(removeDevice(inventory, device.match))}
+                    aria-label={`Remove ${device.match}`}
+                    className="cursor-pointer hover:text-white"
+                  >
+                    ✕
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+
+        {inventory.links.length > 0 && (
+          <>
+            <div className="mt-3 mb-1 text-neutral-500">Static links</div>
+            <ul>
+              {inventory.links.map((link) => (
+                <li key={`${link.source}>${link.target}`} className="flex justify-between">
+                  <span className="text-neutral-300">
+                    {link.source} → {link.target}
+                  </span>
+                  <button
+                    onClick={() => onChange(removeStaticLink(inventory, link))}
+                    aria-label={`Remove link ${link.source} to ${link.target}`}
+                    className="cursor-pointer hover:text-white"
+                  >
+                    ✕
+                  </button>
+                </li>
+              ))}
+            </ul>
+          </>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -2,153 +2,333 @@
 
 import type React from "react"
 
-import { useEffect, useRef, useState, useCallback } from "react"
+import { useEffect, useMemo, useRef, useState, useCallback } from "react"
 import * as d3 from "d3"
-import { feature } from "topojson-client"
+import { AggregationControl } from "@/components/aggregation-control"
+import { AlertsPanel } from "@/components/alerts-panel"
+import { BasemapControl } from "@/components/basemap-control"
+import { CaptureLoader, type CaptureSummary } from "@/components/capture-loader"
+import { ChoroplethLegend } from "@/components/choropleth-legend"
+import { DiagnosticsDrawer } from "@/components/diagnostics-drawer"
+import { ExportMenu, type ExportOptions } from "@/components/export-menu"
+import { InventoryEditor } from "@/components/inventory-editor"
+import { NodeDetailPanel } from "@/components/node-detail-panel"
+import { PathPanel } from "@/components/path-panel"
+import { ProtocolLegend } from "@/components/protocol-legend"
+import { SensorBadges } from "@/components/sensor-badges"
+import { SettingsPanel } from "@/components/settings-panel"
+import { TopologyFilterBar } from "@/components/topology-filter-bar"
+import { TopologyTable } from "@/components/topology-table"
+import { TopologyTimeline, type PlaybackState } from "@/components/topology-timeline"
 import { Button } from "@/components/ui/button"
+import {
+  createDatabaseResolver,
+  createInventoryResolver,
+  createPrivateAddressResolver,
+  createResolverChain,
+  fetchGeoDatabase,
+  parseHomeSite,
+  type GeoCidrEntry,
+} from "@/lib/geo"
+import {
+  applyAnomalyFlags,
+  createAnomalyState,
+  DEFAULT_ANOMALY_RULES,
+  evaluateAnomalyRules,
+  type AnomalyAlert,
+  type AnomalyRule,
+} from "@/lib/anomaly-rules"
+import { parseCaptureFile, replayCapture } from "@/lib/capture"
+import { aggregateTopology, DEFAULT_AGGREGATION, type AggregationSettings } from "@/lib/aggregation"
+import { loadBasemap, type BasemapDetail, type CountryFeature } from "@/lib/basemap"
+import { countryTraffic, createCountryLocator, type CountryTraffic } from "@/lib/choropleth"
+import { NEON_COLORS, PROTOCOL_COLORS } from "@/lib/colors"
+import { openTopologySource, simulatorFromQuery, simulatorSensor, type SimulatorSettings } from "@/lib/data-source"
+import { EMPTY_DIAGNOSTICS, FAILURE_LABELS, recordDiagnostic, type ConnectionDiagnostics } from "@/lib/diagnostics"
+import { isPairActive, isPairAsymmetric, mergeLinkPairs, pairTraffic, type LinkPair } from "@/lib/link-pairs"
+import { computeLogicalLayout, curvedLinkPoint, type LayoutPositions } from "@/lib/logical-layout"
+import { nodeSightings, nodeTrafficSeries, summarizePeers } from "@/lib/node-stats"
+import { tracePath, type PathMetric } from "@/lib/path-trace"
+import { dominantProtocol, nodeServices, type Protocol } from "@/lib/protocols"
+import {
+  addStaticLink,
+  EMPTY_INVENTORY,
+  fetchInventory,
+  loadStoredInventory,
+  saveStoredInventory,
+  upsertDevice,
+  type Inventory,
+} from "@/lib/inventory"
+import { abbreviateIP, isIPAddress } from "@/lib/ip"
+import {
+  combineSensorStatuses,
+  configuredSensors,
+  loadStoredSensors,
+  mergeSensorRates,
+  mergeSensorSnapshots,
+  saveStoredSensors,
+  type Sensor,
+} from "@/lib/sensors"
+import {
+  authHeaders,
+  DEFAULT_SETTINGS,
+  loadStoredSettings,
+  saveStoredSettings,
+  type ConnectionSettings,
+} from "@/lib/settings"
+import { useElementSize } from "@/lib/use-element-size"
+import { usePrefersReducedMotion } from "@/lib/use-reduced-motion"
+import {
+  edgeKey,
+  transformApiResponse,
+  type ApiTopologyResponse,
+  type NetworkNode,
+  type TopologyData,
+} from "@/lib/topology"
+import { downloadBlob, downloadText } from "@/lib/download"
+import { applyTopologyFilter, DEFAULT_FILTER, isFilterActive, type TopologyFilter } from "@/lib/topology-filter"
+import {
+  exportTopologyData,
+  pickTopology,
+  rasterizeSvg,
+  serializeSvgSnapshot,
+  type ExportFormat,
+} from "@/lib/topology-export"
+import {
+  createSnapshotHistory,
+  openHistoryStore,
+  parseHistorySize,
+  type HistoryEntry,
+  type HistoryStore,
+  type SnapshotHistory,
+} from "@/lib/topology-history"
+import type { StreamStatus } from "@/lib/topology-stream"
+import {
+  formatRate,
+  isRateActive,
+  rateToPacketCount,
+  rateToPacketSpeed,
+  rateToStrokeWidth,
+  decayEdgeRates,
+  updateEdgeRates,
+  type RateTable,
+} from "@/lib/traffic-rates"
 
 const API_BASE_URL = process.env.NEXT_PUBLIC_API_URL || "http://localhost:5000"
-const POLL_INTERVAL = 2500
+// Used until sensors are edited in the app; without it there is one sensor at API_BASE_URL
+const CONFIGURED_SENSORS = configuredSensors(process.env.NEXT_PUBLIC_SENSORS, API_BASE_URL)
+const GEO_DB_URL = process.env.NEXT_PUBLIC_GEO_DB_URL
+const GEO_OVERRIDES_URL = process.env.NEXT_PUBLIC_GEO_OVERRIDES_URL
+const HOME_SITE = parseHomeSite(process.env.NEXT_PUBLIC_HOME_SITE)
+const HISTORY_SIZE = parseHistorySize(process.env.NEXT_PUBLIC_HISTORY_SIZE)
+const HISTORY_PERSIST = process.env.NEXT_PUBLIC_HISTORY_PERSIST === "true"
+const INVENTORY_URL = process.env.NEXT_PUBLIC_INVENTORY_URL
+// Minimum spacing between recorded snapshots, in seconds
+const HISTORY_SAMPLE_INTERVAL = 1
+const REPLAY_TICK = 100
+const FLY_DURATION = 750
+const MIN_ZOOM = 1
+const MAX_ZOOM = 16
+// Zoom a fly-to settles on, unless already closer
+const FLY_ZOOM = 3
+// Client labels only appear once zoomed in this far
+const CLIENT_LABEL_ZOOM = 2.5
+// Duration of the morph between geographic and logical layouts
+const LAYOUT_TRANSITION = 1000
+// Keyboard navigation: degrees of rotation on the globe, pixels of pan on the map, zoom factor per key press
+const KEYBOARD_ROTATE_STEP = 20
+const KEYBOARD_PAN_STEP = 40
+const KEYBOARD_ZOOM_STEP = 1.25
+const MAX_ALERTS = 100
+// The view is sized from its container; this is the size used until it is measured and the one scales are tuned for
+const DEFAULT_VIEW_SIZE = { width: 800, height: 500 }
+// Opacity of nodes and links that don't match the active filter
+const DIM_OPACITY = 0.12
+// Window over which the HUD message rate is averaged
+const MESSAGE_RATE_WINDOW = 10000
+// ms of silence after which a sensor's last rates no longer count, so a dropped sensor doesn't freeze its links
+const SENSOR_RATE_TTL = 10000
+// How often rates are decayed between snapshots, which only arrive while counts change
+const RATE_DECAY_INTERVAL = 1000
+
+// Drawn if the atlas cannot be loaded at all, so the projection still has an outline
+const FALLBACK_BASEMAP: CountryFeature[] = [
+  {
+    type: "Feature",
+    geometry: {
+      type: "Polygon",
+      coordinates: [
+        [
+          [-180, -90],
+          [180, -90],
+          [180, 90],
+          [-180, 90],
+          [-180, -90],
+        ],
+      ],
+    },
+    properties: {},
+  },
+]
 
-interface GeoFeature {
-  type: string
-  geometry: any
-  properties: any
+const initialTopologyData: TopologyData = {
+  nodes: [],
+  links: [],
 }
 
-interface NetworkNode {
-  id: string
-  name: string
-  ip: string
-  role: "Router" | "Server" | "Client"
-  lat: number
-  long: number
-  status: "active" | "idle" | "warning"
+// Path tracing mode: the ends are picked by clicking nodes, source first
+interface PathTraceState {
+  source: string | null
+  target: string | null
+  metric: PathMetric
 }
 
-interface NetworkLink {
-  source: string
-  target: string
-  traffic: number // MB/s - packets only flow when traffic > 0
+interface TooltipState {
+  visible: boolean
+  x: number
+  y: number
+  node: NetworkNode | null
 }
 
-interface TopologyData {
-  nodes: NetworkNode[]
-  links: NetworkLink[]
+interface CountryHover {
+  name: string
+  x: number
+  y: number
+  totals: CountryTraffic | null
 }
 
-interface ApiNode {
-  ip: string
-  packets: number
+const STREAM_STATUS_LABELS: Record<StreamStatus, string> = {
+  connecting: "Connecting...",
+  live: "Live",
+  reconnecting: "Reconnecting...",
+  polling: "Live (polling)",
+  disconnected: "Disconnected",
 }
 
-interface ApiEdge {
-  source: string
-  target: string
-  weight: number
+// Colours of active links, which also name their arrowhead markers
+const LINK_COLORS = {
+  active: NEON_COLORS.edgeActive,
+  asymmetric: NEON_COLORS.edgeAsymmetric,
+  ...PROTOCOL_COLORS,
 }
 
-interface ApiTopologyResponse {
-  nodes: ApiNode[]
-  edges: ApiEdge[]
-  timestamp: number
+interface RenderedLink {
+  key: string
+  pair: LinkPair
+  arcPath: string
+  visible: boolean
+  dimmed: boolean
+  protocol: Protocol | null // busiest protocol over both directions, when the links report protocols
+  pointAt: (t: number) => [number, number] | null // view position a fraction `t` of the way along, if visible
 }
 
-function inferRoleFromIP(ip: string): NetworkNode["role"] {
-  const parts = ip.split(".")
-  const lastOctet = parseInt(parts[3] || "0", 10)
-  if (lastOctet === 1) return "Router"
-  if (lastOctet === 0 || lastOctet > 200) return "Server"
-  return "Client"
+interface LayoutSettings {
+  mode: "geographic" | "logical"
+  hierarchical: boolean
 }
 
-function transformApiResponse(apiData: ApiTopologyResponse): TopologyData {
-  const nodeMap = new Map<string, NetworkNode>()
-
-  apiData.nodes.forEach((apiNode) => {
-    const coords = getCoordinatesFromIP(apiNode.ip)
-    const nodeId = `node-${apiNode.ip.replace(/\./g, "-")}`
-
-    nodeMap.set(apiNode.ip, {
-      id: nodeId,
-      name: `Node ${apiNode.ip}`,
-      ip: apiNode.ip,
-      role: inferRoleFromIP(apiNode.ip),
-      lat: coords.lat,
-      long: coords.long,
-      status: apiNode.packets > 0 ? "active" : "idle",
-    })
-  })
+interface RenderedNode {
+  node: NetworkNode
+  x: number
+  y: number
+  size: number
+  dimmed: boolean
+  labelled: boolean
+}
 
-  const links: NetworkLink[] = apiData.edges
-    .filter((edge) => nodeMap.has(edge.source) && nodeMap.has(edge.target))
-    .map((edge) => ({
-      source: nodeMap.get(edge.source)!.id,
-      target: nodeMap.get(edge.target)!.id,
-      traffic: edge.weight,
-    }))
+interface ViewTarget {
+  rotation?: [number, number]
+  translation?: [number, number]
+  zoom?: number
+}
 
-  return {
-    nodes: Array.from(nodeMap.values()),
-    links,
-  }
+function clampZoom(zoom: number): number {
+  return Math.max(MIN_ZOOM, Math.min(MAX_ZOOM, zoom))
 }
 
-function getCoordinatesFromIP(ip: string): { lat: number; long: number } {
-  // Simple hash function for deterministic randomness
-  let hash = 0
-  for (let i = 0; i < ip.length; i++) {
-    const char = ip.charCodeAt(i)
-    hash = (hash << 5) - hash + char
-    hash = hash & hash // Convert to 32bit integer
-  }
+function pickPathEnd(trace: PathTraceState, nodeId: string): PathTraceState {
+  if (!trace.source || trace.target) return { ...trace, source: nodeId, target: null }
+  return nodeId === trace.source ? trace : { ...trace, target: nodeId }
+}
 
-  // Use hash to generate lat/long within reasonable bounds
-  // Lat: -60 to 70 (avoiding extreme polar regions)
-  // Long: -180 to 180
-  const hash1 = Math.abs(hash)
-  const hash2 = Math.abs((hash * 2654435761) & 0xffffffff) // Secondary hash
+function labelText(node: NetworkNode): string {
+  return node.name.split(" ")[0]
+}
 
-  const lat = (hash1 % 13000) / 100 - 60 // Range: -60 to 70
-  const long = (hash2 % 36000) / 100 - 180 // Range: -180 to 180
+/**
+ * Picks which nodes get a label: clusters, then routers, then servers, then (once zoomed in)
+ * clients, skipping any label that would overlap one already placed.
+ */
+function pickLabelledNodes(nodes: RenderedNode[], zoom: number): Set<string> {
+  const priority = (node: NetworkNode) =>
+    node.cluster ? 0 : node.role === "Router" ? 1 : node.role === "Server" ? 2 : 3
+  const placed: { x0: number; x1: number; y0: number; y1: number }[] = []
+  const labelled = new Set<string>()
+
+  nodes
+    .filter((d) => !d.dimmed && (priority(d.node) < 3 || zoom >= CLIENT_LABEL_ZOOM))
+    .sort((a, b) => priority(a.node) - priority(b.node))
+    .forEach((d) => {
+      const box = {
+        x0: d.x + d.size + 3,
+        x1: d.x + d.size + 9 + labelText(d.node).length * 5.5,
+        y0: d.y - 6,
+        y1: d.y + 8,
+      }
+      if (placed.some((p) => box.x0 < p.x1 && p.x0 < box.x1 && box.y0 < p.y1 && p.y0 < box.y1)) return
+      placed.push(box)
+      labelled.add(d.node.id)
+    })
+  return labelled
+}
 
-  return { lat, long }
+function nodeSize(node: NetworkNode): number {
+  if (node.cluster) return Math.min(14, 6 + Math.log2(node.cluster.memberIds.length) * 1.5)
+  return node.role === "Server" ? 7 : node.role === "Router" ? 6 : 5
 }
 
-function createNodeFromIP(ip: string, id?: string, name?: string): NetworkNode {
-  const coords = getCoordinatesFromIP(ip)
-  const nodeId = id || `node-${ip.replace(/\./g, "-")}`
-  const nodeName = name || `Node ${ip}`
-
-  return {
-    id: nodeId,
-    name: nodeName,
-    ip: ip,
-    role: "Client", // Default role, can be overridden
-    lat: coords.lat,
-    long: coords.long,
-    status: "active",
+function nodeColor(node: NetworkNode): string {
+  if (node.status === "warning") return NEON_COLORS.warning
+  return node.role === "Router" ? NEON_COLORS.router : NEON_COLORS.endpoint
+}
+
+/** Returns a test for whether a point is on the visible hemisphere of the current projection. */
+function createVisibilityTest(projection: any, width: number, height: number) {
+  const center = projection.invert?.([width / 2, height / 2])
+  return (coords: [number, number]): boolean => {
+    if (!projection(coords)) return false
+    if (!center) return true
+    return d3.geoDistance(coords, center) < Math.PI / 2
   }
 }
 
-const initialTopologyData: TopologyData = {
-  nodes: [],
-  links: [],
+function isValidPoint(point: [number, number] | null | undefined): point is [number, number] {
+  return !!point && !isNaN(point[0]) && !isNaN(point[1])
 }
 
-interface TooltipState {
-  visible: boolean
-  x: number
-  y: number
-  node: NetworkNode | null
+function lerpPoint(a: [number, number], b: [number, number], t: number): [number, number] {
+  return [a[0] + (b[0] - a[0]) * t, a[1] + (b[1] - a[1]) * t]
 }
 
-const NEON_COLORS = {
-  router: "#00F3FF", // Electric Cyan for routers
-  endpoint: "#FF0099", // Hot Magenta for servers/clients
-  edgeIdle: "rgba(100, 149, 237, 0.2)", // Low opacity grey/blue
-  edgeActive: "#BD00FF", // Bright Purple for active connections
-  packet: "#39FF14", // Neon Green for packets (brightest)
+// Samples `pointAt` along a link; great-circle arcs pass the sample count in so long arcs stay smooth
+function generateArcPath(pointAt: (t: number) => [number, number] | null, samples: number): string | null {
+  const points: [number, number][] = []
+  for (let i = 0; i <= samples; i++) {
+    const projected = pointAt(i / samples)
+    if (projected) {
+      points.push(projected)
+    }
+  }
+
+  if (points.length < 2) return null
+
+  const lineGenerator = d3
+    .line<[number, number]>()
+    .x((d) => d[0])
+    .y((d) => d[1])
+    .curve(d3.curveBasis)
+
+  return lineGenerator(points)
 }
 
 function interpolateProjection(raw0: any, raw1: any) {
@@ -166,21 +346,93 @@ function interpolateProjection(raw0: any, raw1: any) {
 }
 
 export function NetworkTopology() {
+  const rootRef = useRef<HTMLDivElement>(null)
+  const mapRef = useRef<HTMLDivElement>(null)
   const svgRef = useRef<SVGSVGElement>(null)
   const [isAnimating, setIsAnimating] = useState(false)
   const [progress, setProgress] = useState([0])
-  const [worldData, setWorldData] = useState<GeoFeature[]>([])
+  const [worldData, setWorldData] = useState<CountryFeature[]>([])
+  const [basemapDetail, setBasemapDetail] = useState<BasemapDetail>("110m")
+  const [showChoropleth, setShowChoropleth] = useState(false)
+  const [linksByProtocol, setLinksByProtocol] = useState(true)
+  const [countryHover, setCountryHover] = useState<CountryHover | null>(null)
   const [rotation, setRotation] = useState([0, 0])
-  const [translation, setTranslation] = useState([0, 0])
-  const [isDragging, setIsDragging] = useState(false)
-  const [lastMouse, setLastMouse] = useState([0, 0])
+  const [translation, setTranslation] = useState<[number, number]>([0, 0])
+  const [zoom, setZoom] = useState(1)
   const [tooltip, setTooltip] = useState<TooltipState>({ visible: false, x: 0, y: 0, node: null })
-  const packetAnimationRef = useRef<number | null>(null)
-  const [packetProgress, setPacketProgress] = useState(0)
-  const [isBackendConnected, setIsBackendConnected] = useState(false)
+  const canvasRef = useRef<HTMLCanvasElement>(null)
+  const renderedLinksRef = useRef<RenderedLink[]>([])
+  const [sensors, setSensors] = useState<Sensor[]>(CONFIGURED_SENSORS)
+  const sensorsRef = useRef(sensors)
+  const [sensorStatuses, setSensorStatuses] = useState<Record<string, StreamStatus>>({})
+  const [settings, setSettings] = useState<ConnectionSettings>(DEFAULT_SETTINGS)
+  const [settingsOpen, setSettingsOpen] = useState(false)
+  const [diagnostics, setDiagnostics] = useState<Record<string, ConnectionDiagnostics>>({})
+  const [diagnosticsOpen, setDiagnosticsOpen] = useState(false)
+  // Latest snapshot from each sensor, merged into the one the rest of the view works from
+  const sensorSnapshotsRef = useRef(new Map<string, ApiTopologyResponse>())
+  const [lastMessageAt, setLastMessageAt] = useState<number | null>(null)
+  const [messageRate, setMessageRate] = useState(0)
+  const [now, setNow] = useState(() => Date.now())
+  const messageTimesRef = useRef<number[]>([])
+  const geoResolverRef = useRef(createResolverChain([createPrivateAddressResolver(HOME_SITE)]))
+  const latestEntryRef = useRef<HistoryEntry | null>(null)
+  const sensorRatesRef = useRef(new Map<string, { rates: RateTable; receivedAt: number }>())
+  const historyRef = useRef(createSnapshotHistory(HISTORY_SIZE))
+  const historyStoreRef = useRef<HistoryStore | null>(null)
+  const [historyRange, setHistoryRange] = useState<{ start: number; end: number } | null>(null)
+  const [playback, setPlayback] = useState<PlaybackState>({ cursor: null, playing: false, speed: 1 })
+  const playbackRef = useRef(playback)
+  const [selectedNodeId, setSelectedNodeId] = useState<string | null>(null)
+  const selectedNodeIdRef = useRef(selectedNodeId)
+  const [pathTrace, setPathTrace] = useState<PathTraceState | null>(null)
+  const pathTraceRef = useRef(pathTrace)
+  const [filter, setFilter] = useState<TopologyFilter>(DEFAULT_FILTER)
+  const [aggregation, setAggregation] = useState<AggregationSettings>(DEFAULT_AGGREGATION)
+  const [expandedClusters, setExpandedClusters] = useState<Set<string>>(new Set())
+  const [anomalyRules, setAnomalyRules] = useState<AnomalyRule[]>(DEFAULT_ANOMALY_RULES)
+  const [alerts, setAlerts] = useState<AnomalyAlert[]>([])
+  const [flaggedNodeIds, setFlaggedNodeIds] = useState<Set<string>>(new Set())
+  const anomalyStateRef = useRef(createAnomalyState())
+  // The live snapshot rules last ran on; re-displaying it after an inventory or geo reload isn't a new sample
+  const evaluatedSnapshotRef = useRef<ApiTopologyResponse | null>(null)
+  const [inventory, setInventory] = useState<Inventory>(EMPTY_INVENTORY)
+  const inventoryRef = useRef(inventory)
+  const [inventoryEditor, setInventoryEditor] = useState<{ open: boolean; ip?: string }>({ open: false })
+  const [inventoryError, setInventoryError] = useState<string | null>(null)
+  const [capture, setCapture] = useState<CaptureSummary | null>(null)
+  const [captureLoading, setCaptureLoading] = useState(false)
+  const [captureError, setCaptureError] = useState<string | null>(null)
+  const [exportError, setExportError] = useState<string | null>(null)
+  const [isDraggingFile, setIsDraggingFile] = useState(false)
+  const [showTable, setShowTable] = useState(false)
+  const [isFullscreen, setIsFullscreen] = useState(false)
+  // Kiosk mode hides every control and leaves just the map and its HUD, for wall displays
+  const [kiosk, setKiosk] = useState(false)
+  const [layout, setLayout] = useState<LayoutSettings>({ mode: "geographic", hierarchical: false })
+  // 0 shows the geographic layout, 1 the logical one; in between the two are morphed
+  const [layoutBlend, setLayoutBlend] = useState(0)
+  const layoutBlendRef = useRef(layoutBlend)
+  const [logicalLayout, setLogicalLayout] = useState<{ hierarchical: boolean; positions: LayoutPositions }>({
+    hierarchical: false,
+    positions: new Map(),
+  })
+  const logicalLayoutRef = useRef(logicalLayout)
+  const layoutRef = useRef(layout)
+  // Live history and latest entry, set aside while a capture file is being viewed
+  const liveSessionRef = useRef<{ history: SnapshotHistory; latest: HistoryEntry | null } | null>(null)
+  const reducedMotion = usePrefersReducedMotion()
+  const reducedMotionRef = useRef(reducedMotion)
+  const rotationRef = useRef(rotation)
+  const translationRef = useRef(translation)
+  const zoomRef = useRef(zoom)
+  const pointersRef = useRef(new Map<number, [number, number]>())
+  const gestureRef = useRef<{ point: [number, number]; distance: number } | null>(null)
+  const flyAnimationRef = useRef<number | null>(null)
 
   const [topologyData, setTopologyData] = useState<TopologyData>(initialTopologyData)
 
+  // Manually added nodes live in the inventory so they survive the next snapshot
   const addNodeByIP = useCallback(
     (
       ip: string,
@@ -190,200 +442,640 @@ export function NetworkTopology() {
         connectTo?: string[]
       },
     ) => {
-      setTopologyData((prev) => {
-        // Check if node with this IP already exists
-        if (prev.nodes.some((n) => n.ip === ip)) {
-          return prev
-        }
-
-        const newNode = createNodeFromIP(ip)
-        if (options?.name) newNode.name = options.name
-        if (options?.role) newNode.role = options.role
-
-        const newLinks: NetworkLink[] = []
-        if (options?.connectTo) {
-          options.connectTo.forEach((targetId) => {
-            if (prev.nodes.some((n) => n.id === targetId)) {
-              newLinks.push({
-                source: newNode.id,
-                target: targetId,
-                traffic: Math.floor(Math.random() * 100) + 10, // Random initial traffic
-              })
-            }
-          })
-        }
-
-        return {
-          nodes: [...prev.nodes, newNode],
-          links: [...prev.links, ...newLinks],
-        }
+      setInventory((prev) => {
+        const existing = prev.devices.find((d) => d.match === ip)
+        let next = upsertDevice(prev, {
+          ...existing,
+          match: ip,
+          name: options?.name ?? existing?.name,
+          role: options?.role ?? existing?.role,
+          static: isIPAddress(ip) ? true : undefined,
+        })
+        options?.connectTo?.forEach((target) => {
+          next = addStaticLink(next, { source: ip, target })
+        })
+        return next
       })
     },
     [],
   )
 
-  useEffect(() => {
-    const fetchTopology = async () => {
+  const displayEntry = useCallback((entry: HistoryEntry) => {
+    setTopologyData(
+      transformApiResponse(entry.snapshot, {
+        resolver: geoResolverRef.current,
+        rates: entry.rates,
+        inventory: inventoryRef.current,
+      }),
+    )
+  }, [])
+
+  const recordHistory = useCallback((entry: HistoryEntry) => {
+    const history = historyRef.current
+    const range = history.range()
+    if (range && entry.snapshot.timestamp - range.end < HISTORY_SAMPLE_INTERVAL) return
+
+    history.push(entry)
+    const nextRange = history.range()
+    setHistoryRange(nextRange)
+
+    const store = historyStoreRef.current
+    if (store && nextRange) {
+      store
+        .save(entry)
+        .then(() => store.prune(nextRange.start))
+        .catch(() => {})
+    }
+  }, [])
+
+  // Replays a capture file into its own history, opened paused at the first packet
+  const openCapture = useCallback(
+    async (file: File) => {
+      setCaptureLoading(true)
+      setCaptureError(null)
       try {
-        const response = await fetch(`${API_BASE_URL}/api/topology`)
-        if (!response.ok) {
-          setIsBackendConnected(false)
-          return
-        }
-        const apiData: ApiTopologyResponse = await response.json()
-        setIsBackendConnected(true)
-        if (apiData.nodes && apiData.nodes.length > 0) {
-          setTopologyData(transformApiResponse(apiData))
+        const parsed = parseCaptureFile(file.name, await file.arrayBuffer())
+        const snapshots = replayCapture(parsed.packets, { maxSnapshots: HISTORY_SIZE })
+        const history = createSnapshotHistory(snapshots.length)
+        let rates: RateTable = new Map()
+        snapshots.forEach((snapshot) => {
+          rates = updateEdgeRates(rates, snapshot)
+          history.push({ snapshot, rates })
+        })
+
+        if (!liveSessionRef.current) {
+          liveSessionRef.current = { history: historyRef.current, latest: latestEntryRef.current }
         }
-      } catch {
-        setIsBackendConnected(false)
+        historyRef.current = history
+        latestEntryRef.current = history.at(Infinity)
+        const range = history.range()!
+        setHistoryRange(range)
+        setCapture({ name: parsed.name, format: parsed.format, packetCount: parsed.packets.length })
+        setPlayback((prev) => ({ ...prev, cursor: range.start, playing: false }))
+        displayEntry(history.at(range.start)!)
+      } catch (error) {
+        setCaptureError(error instanceof Error ? error.message : "Could not read capture")
+      } finally {
+        setCaptureLoading(false)
       }
+    },
+    [displayEntry],
+  )
+
+  const closeCapture = useCallback(() => {
+    const live = liveSessionRef.current
+    if (!live) return
+    liveSessionRef.current = null
+    historyRef.current = live.history
+    latestEntryRef.current = live.latest
+    setHistoryRange(live.history.range())
+    setCapture(null)
+    setCaptureError(null)
+    setPlayback((prev) => ({ ...prev, cursor: null, playing: false }))
+    displayEntry(live.latest ?? { snapshot: { nodes: [], edges: [], timestamp: 0 }, rates: new Map() })
+  }, [displayEntry])
+
+  useEffect(() => {
+    playbackRef.current = playback
+  }, [playback])
+
+  useEffect(() => {
+    reducedMotionRef.current = reducedMotion
+  }, [reducedMotion])
+
+  useEffect(() => {
+    layoutRef.current = layout
+    logicalLayoutRef.current = logicalLayout
+  }, [layout, logicalLayout])
+
+  useEffect(() => {
+    rotationRef.current = rotation
+    translationRef.current = translation
+    zoomRef.current = zoom
+  }, [rotation, translation, zoom])
+
+  useEffect(() => {
+    selectedNodeIdRef.current = selectedNodeId
+  }, [selectedNodeId])
+
+  useEffect(() => {
+    pathTraceRef.current = pathTrace
+  }, [pathTrace])
+
+  // Edits made in the app take precedence over the configured inventory file
+  useEffect(() => {
+    const stored = loadStoredInventory()
+    if (stored.devices.length > 0 || stored.links.length > 0 || !INVENTORY_URL) {
+      setInventory(stored)
+      return
     }
+    fetchInventory(INVENTORY_URL)
+      .then(setInventory)
+      .catch((error) => setInventoryError(error instanceof Error ? error.message : "Could not load inventory"))
+  }, [])
 
-    fetchTopology()
-    const intervalId = setInterval(fetchTopology, POLL_INTERVAL)
-    return () => clearInterval(intervalId)
+  // Re-render the current frame so inventory names, roles and pinned devices apply straight away
+  useEffect(() => {
+    inventoryRef.current = inventory
+    // Don't clobber the stored copy with the placeholder before it has been read
+    if (inventory !== EMPTY_INVENTORY) saveStoredInventory(inventory)
+    const cursor = playbackRef.current.cursor
+    const entry = cursor === null ? latestEntryRef.current : historyRef.current.at(cursor)
+    displayEntry(entry ?? { snapshot: { nodes: [], edges: [], timestamp: 0 }, rates: new Map() })
+  }, [inventory, displayEntry])
+
+  // Animate whichever of rotation, translation and zoom `target` sets; zoom is eased on a log scale.
+  // With reduced motion the view jumps straight to the target.
+  const animateView = useCallback((target: ViewTarget, duration = FLY_DURATION) => {
+    if (flyAnimationRef.current) cancelAnimationFrame(flyAnimationRef.current)
+    const [startLong, startLat] = rotationRef.current
+    const [startX, startY] = translationRef.current
+    const startZoom = zoomRef.current
+    const [endLong, endLat] = target.rotation ?? rotationRef.current
+    // Take the short way round
+    const deltaLong = ((((endLong - startLong) % 360) + 540) % 360) - 180
+    const deltaLat = Math.max(-90, Math.min(90, endLat)) - startLat
+    const [endX, endY] = target.translation ?? translationRef.current
+    const zoomRatio = clampZoom(target.zoom ?? startZoom) / startZoom
+    const startTime = performance.now()
+
+    const step = (time: number) => {
+      const k = reducedMotionRef.current
+        ? 1
+        : d3.easeCubicInOut(Math.max(0, Math.min(1, (time - startTime) / duration)))
+      if (target.rotation) setRotation([startLong + deltaLong * k, startLat + deltaLat * k])
+      if (target.translation) setTranslation([startX + (endX - startX) * k, startY + (endY - startY) * k])
+      if (target.zoom !== undefined) setZoom(startZoom * zoomRatio ** k)
+      flyAnimationRef.current = k < 1 ? requestAnimationFrame(step) : null
+    }
+    flyAnimationRef.current = requestAnimationFrame(step)
+  }, [])
+
+  // Bring `node` into the centre of the view and zoom in on it: by rotation on the map, by panning the graph
+  const flyTo = useCallback(
+    (node: NetworkNode) => {
+      const zoom = clampZoom(Math.max(zoomRef.current, FLY_ZOOM))
+      const position = logicalLayoutRef.current.positions.get(node.id)
+      if (layoutRef.current.mode === "logical" && position) {
+        const { width, height } = viewRef.current
+        animateView({ translation: [-(position[0] - width / 2) * zoom, -(position[1] - height / 2) * zoom], zoom })
+        return
+      }
+      animateView({ rotation: [-node.long, -node.lat], translation: [0, 0], zoom })
+    },
+    [animateView],
+  )
+
+  useEffect(() => {
+    return () => {
+      if (flyAnimationRef.current) cancelAnimationFrame(flyAnimationRef.current)
+    }
+  }, [])
+
+  // Rules learn baselines from live data only, so scrubbing through history or a capture doesn't skew them
+  // They run once per received snapshot, so edited rules take effect from the next one
+  useEffect(() => {
+    if (playbackRef.current.cursor !== null || liveSessionRef.current || topologyData.nodes.length === 0) return
+    const snapshot = latestEntryRef.current?.snapshot ?? null
+    if (snapshot === evaluatedSnapshotRef.current) return
+    evaluatedSnapshotRef.current = snapshot
+    const result = evaluateAnomalyRules(topologyData, anomalyRules, anomalyStateRef.current, Date.now() / 1000)
+    anomalyStateRef.current = result.state
+    setFlaggedNodeIds(result.flagged)
+    if (result.alerts.length > 0) setAlerts((prev) => [...result.alerts.reverse(), ...prev].slice(0, MAX_ALERTS))
+  }, [topologyData, anomalyRules])
+
+  const viewData = useMemo(
+    () => aggregateTopology(applyAnomalyFlags(topologyData, flaggedNodeIds), aggregation, expandedClusters),
+    [topologyData, flaggedNodeIds, aggregation, expandedClusters],
+  )
+  const filterResult = useMemo(() => applyTopologyFilter(viewData, filter), [viewData, filter])
+  const hasProtocols = viewData.links.some((link) => link.flows && link.flows.length > 0)
+  const filteredLinks = useMemo(() => Array.from(filterResult.links), [filterResult])
+  const tracedPath = useMemo(
+    () =>
+      pathTrace?.source && pathTrace.target
+        ? tracePath(viewData, pathTrace.source, pathTrace.target, pathTrace.metric)
+        : null,
+    [viewData, pathTrace],
+  )
+  const pathSource = viewData.nodes.find((n) => n.id === pathTrace?.source) ?? null
+  const pathTarget = viewData.nodes.find((n) => n.id === pathTrace?.target) ?? null
+
+  const selectedNode = useMemo(
+    () => viewData.nodes.find((n) => n.id === selectedNodeId) ?? null,
+    [viewData, selectedNodeId],
+  )
+
+  const selectedNodeDetails = useMemo(() => {
+    if (!selectedNode) return null
+    const entries = historyRef.current.entries()
+    const sightings = nodeSightings(entries, selectedNode.ip)
+    return {
+      peers: summarizePeers(viewData, selectedNode.id),
+      services: nodeServices(selectedNode.id, viewData.links),
+      series: nodeTrafficSeries(entries, selectedNode.ip),
+      firstSeen: selectedNode.firstSeen ?? sightings.firstSeen,
+      lastSeen: selectedNode.lastSeen ?? sightings.lastSeen,
+    }
+  }, [viewData, selectedNode])
+
+  // `?simulate=<scenario>` swaps the backends for the simulator without touching the saved sensors
+  useEffect(() => {
+    const simulation = simulatorFromQuery(window.location.search)
+    const initial = simulation ? [simulatorSensor(simulation)] : loadStoredSensors(CONFIGURED_SENSORS)
+    sensorsRef.current = initial
+    setSensors(initial)
+  }, [])
+
+  useEffect(() => {
+    setSettings(loadStoredSettings())
   }, [])
 
-  const width = 800
-  const height = 500
+  const updateSettings = (next: ConnectionSettings) => {
+    setSettings(next)
+    saveStoredSettings(next)
+  }
+
+  const updateSensors = (next: Sensor[]) => {
+    sensorsRef.current = next
+    setSensors(next)
+    saveStoredSensors(next)
+  }
 
+  // Like `?simulate`, for this session only
+  const startSimulation = (simulation: SimulatorSettings) => {
+    const next = [simulatorSensor(simulation)]
+    sensorsRef.current = next
+    setSensors(next)
+  }
+
+  // Streams are only restarted when a sensor is added, removed or pointed elsewhere, not renamed or recoloured
+  const sensorEndpoints = sensors.map((sensor) => `${sensor.id}=${sensor.url}`).join(" ")
+  const { mode: authMode, token, username, password } = settings.auth
+  const requestHeaders = useMemo(
+    () => authHeaders({ mode: authMode, token, username, password }),
+    [authMode, token, username, password],
+  )
+  const pollInterval = settings.pollInterval
+
+  // Captures are analysed entirely in the browser, so the backends are only contacted in live mode.
+  // Each sensor has its own source and health; any snapshot re-merges the latest from every sensor.
   useEffect(() => {
-    const animatePackets = () => {
-      setPacketProgress((prev) => (prev + 0.5) % 100)
-      packetAnimationRef.current = requestAnimationFrame(animatePackets)
+    if (capture) return
+    const current = sensorsRef.current
+    const snapshots = sensorSnapshotsRef.current
+    const sensorRates = sensorRatesRef.current
+    Array.from(snapshots.keys()).forEach((id) => {
+      if (current.some((sensor) => sensor.id === id)) return
+      snapshots.delete(id)
+      sensorRates.delete(id)
+    })
+
+    // Each sensor's rates as of `now`: a sensor that has been quiet for longer than a poll interval is
+    // taken to have seen no traffic since, and one silent past SENSOR_RATE_TTL no longer counts at all
+    const currentRates = (now: number) =>
+      mergeSensorRates(
+        Array.from(sensorRates.values())
+          .filter((latest) => now - latest.receivedAt < SENSOR_RATE_TTL)
+          .map((latest) => decayEdgeRates(latest.rates, (now - latest.receivedAt - pollInterval) / 1000)),
+      )
+
+    const streams = current.map((sensor) =>
+      openTopologySource(sensor.url, {
+        pollInterval,
+        headers: requestHeaders,
+        onStatusChange: (status) => setSensorStatuses((prev) => ({ ...prev, [sensor.id]: status })),
+        onDiagnostic: (event) =>
+          setDiagnostics((prev) => ({
+            ...prev,
+            [sensor.id]: recordDiagnostic(prev[sensor.id] ?? EMPTY_DIAGNOSTICS, event),
+          })),
+        onMessage: (receivedAt) => {
+          messageTimesRef.current.push(receivedAt)
+          setLastMessageAt(receivedAt)
+        },
+        onSnapshot: (sensorData) => {
+          snapshots.set(sensor.id, sensorData)
+          const receivedAt = Date.now()
+          const rates = updateEdgeRates(sensorRates.get(sensor.id)?.rates ?? new Map(), sensorData)
+          sensorRates.set(sensor.id, { rates, receivedAt })
+          const apiData = mergeSensorSnapshots(snapshots, receivedAt / 1000)
+          if (apiData.nodes.length > 0) {
+            const entry = { snapshot: apiData, rates: currentRates(receivedAt) }
+            latestEntryRef.current = entry
+            recordHistory(entry)
+            if (playbackRef.current.cursor === null) displayEntry(entry)
+          }
+        },
+      }),
+    )
+
+    // Idle links would otherwise keep their last rate until the backend drops them as stale
+    const decayTimer = setInterval(() => {
+      const now = Date.now()
+      const latest = latestEntryRef.current
+      if (!latest || !Array.from(latest.rates.values()).some((edge) => edge.rate > 0)) return
+      if (!Array.from(sensorRates.values()).some((sensor) => now - sensor.receivedAt > pollInterval)) return
+      const entry = { snapshot: latest.snapshot, rates: currentRates(now) }
+      latestEntryRef.current = entry
+      if (playbackRef.current.cursor === null) displayEntry(entry)
+    }, RATE_DECAY_INTERVAL)
+
+    return () => {
+      clearInterval(decayTimer)
+      streams.forEach((stream) => stream.close())
     }
-    packetAnimationRef.current = requestAnimationFrame(animatePackets)
+  }, [capture, displayEntry, recordHistory, sensorEndpoints, requestHeaders, pollInterval])
+
+  // Restore persisted history from IndexedDB ahead of anything recorded since mount
+  useEffect(() => {
+    if (!HISTORY_PERSIST || typeof indexedDB === "undefined") return
+
+    let cancelled = false
+    let store: HistoryStore | null = null
+    openHistoryStore()
+      .then(async (opened) => {
+        store = opened
+        const persisted = await opened.load()
+        if (cancelled) return
+        const history = createSnapshotHistory(HISTORY_SIZE)
+        persisted.sort((a, b) => a.snapshot.timestamp - b.snapshot.timestamp).forEach(history.push)
+        const live = liveSessionRef.current
+        const recorded = live ? live.history : historyRef.current
+        recorded.entries().forEach(history.push)
+        historyStoreRef.current = opened
+        if (live) {
+          live.history = history
+        } else {
+          historyRef.current = history
+          setHistoryRange(history.range())
+        }
+      })
+      .catch(() => {})
     return () => {
-      if (packetAnimationRef.current) {
-        cancelAnimationFrame(packetAnimationRef.current)
-      }
+      cancelled = true
+      historyStoreRef.current = null
+      store?.close()
     }
   }, [])
 
-  // Load world data
+  // Show the snapshot under the timeline cursor, or the latest one when following live data
   useEffect(() => {
-    const loadWorldData = async () => {
+    const entry = playback.cursor === null ? latestEntryRef.current : historyRef.current.at(playback.cursor)
+    if (entry) displayEntry(entry)
+  }, [playback.cursor, displayEntry])
+
+  useEffect(() => {
+    if (!playback.playing) return
+    const intervalId = setInterval(() => {
+      setPlayback((prev) => {
+        const range = historyRef.current.range()
+        if (prev.cursor === null || !range) return { ...prev, playing: false }
+        const cursor = prev.cursor + (REPLAY_TICK / 1000) * prev.speed
+        // Caught up with the present: hand back to live mode
+        if (cursor >= range.end) return { ...prev, cursor: null, playing: false }
+        return { ...prev, cursor }
+      })
+    }, REPLAY_TICK)
+    return () => clearInterval(intervalId)
+  }, [playback.playing])
+
+  // Load the offline geolocation database and manual overrides, then re-place existing nodes
+  useEffect(() => {
+    if (!GEO_DB_URL && !GEO_OVERRIDES_URL) return
+
+    const load = async (url: string | undefined): Promise<GeoCidrEntry[]> => {
+      if (!url) return []
       try {
-        const response = await fetch("https://cdn.jsdelivr.net/npm/world-atlas@2/countries-110m.json")
-        const world: any = await response.json()
-        const geoData = feature(world, world.objects.countries)
-        const countries = (geoData as { features: GeoFeature[] }).features
-        setWorldData(countries)
-      } catch (error) {
-        const fallbackData = [
-          {
-            type: "Feature",
-            geometry: {
-              type: "Polygon",
-              coordinates: [
-                [
-                  [-180, -90],
-                  [180, -90],
-                  [180, 90],
-                  [-180, 90],
-                  [-180, -90],
-                ],
-              ],
-            },
-            properties: {},
-          },
-        ]
-        setWorldData(fallbackData)
+        return await fetchGeoDatabase(url)
+      } catch {
+        return []
       }
     }
 
-    loadWorldData()
-  }, [])
-
-  const handleMouseDown = (event: React.MouseEvent) => {
-    setIsDragging(true)
-    const rect = svgRef.current?.getBoundingClientRect()
-    if (rect) {
-      setLastMouse([event.clientX - rect.left, event.clientY - rect.top])
+    let cancelled = false
+    Promise.all([load(GEO_OVERRIDES_URL), load(GEO_DB_URL)]).then(([overrides, database]) => {
+      if (cancelled) return
+      geoResolverRef.current = createResolverChain([
+        createInventoryResolver(overrides),
+        createPrivateAddressResolver(HOME_SITE),
+        createDatabaseResolver(database),
+      ])
+      const cursor = playbackRef.current.cursor
+      const entry = cursor === null ? latestEntryRef.current : historyRef.current.at(cursor)
+      if (entry) displayEntry(entry)
+    })
+    return () => {
+      cancelled = true
     }
-  }
+  }, [displayEntry])
 
-  const handleMouseMove = (event: React.MouseEvent) => {
-    if (!isDragging) return
+  // Refresh staleness and message rate for the connection badge
+  useEffect(() => {
+    const intervalId = setInterval(() => {
+      const current = Date.now()
+      messageTimesRef.current = messageTimesRef.current.filter((t) => current - t < MESSAGE_RATE_WINDOW)
+      setMessageRate(messageTimesRef.current.length / (MESSAGE_RATE_WINDOW / 1000))
+      setNow(current)
+    }, 1000)
+    return () => clearInterval(intervalId)
+  }, [])
 
-    const rect = svgRef.current?.getBoundingClientRect()
-    if (!rect) return
+  // Provenance and per-sensor health are only worth showing once there is more than one sensor
+  const multiSensor = sensors.length > 1
+  const streamStatus = combineSensorStatuses(sensors.map((sensor) => sensorStatuses[sensor.id] ?? "connecting"))
+  const isBackendConnected = streamStatus === "live" || streamStatus === "polling"
+  // Why each disconnected sensor is down, from its most recent failed request
+  const failureLabel = (id: string) => {
+    const failure = diagnostics[id]?.failure
+    return sensorStatuses[id] === "disconnected" && failure ? FAILURE_LABELS[failure.reason] : null
+  }
+  const failureLabels = Array.from(new Set(sensors.map((sensor) => failureLabel(sensor.id)).filter(Boolean)))
+  const staleSeconds = lastMessageAt === null ? null : Math.max(0, Math.round((now - lastMessageAt) / 1000))
 
-    const currentMouse = [event.clientX - rect.left, event.clientY - rect.top]
-    const dx = currentMouse[0] - lastMouse[0]
-    const dy = currentMouse[1] - lastMouse[1]
+  const { width, height } = useElementSize(mapRef, DEFAULT_VIEW_SIZE)
 
-    const t = progress[0] / 100
+  // `?kiosk` in the URL starts in kiosk mode, so a wall display can be pointed straight at it
+  useEffect(() => {
+    if (new URLSearchParams(window.location.search).has("kiosk")) setKiosk(true)
+  }, [])
 
-    if (t < 0.5) {
-      const sensitivity = 0.5
-      setRotation((prev) => [prev[0] + dx * sensitivity, Math.max(-90, Math.min(90, prev[1] - dy * sensitivity))])
-    } else {
-      const sensitivityMap = 0.25
-      setRotation((prev) => [prev[0] + dx * sensitivityMap, Math.max(-90, Math.min(90, prev[1] - dy * sensitivityMap))])
+  useEffect(() => {
+    if (!kiosk) return
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === "Escape") setKiosk(false)
     }
+    window.addEventListener("keydown", handleKeyDown)
+    return () => window.removeEventListener("keydown", handleKeyDown)
+  }, [kiosk])
 
-    setLastMouse(currentMouse)
-  }
+  // Follow the browser's full-screen state, which Escape can also leave
+  useEffect(() => {
+    const handleChange = () => setIsFullscreen(document.fullscreenElement === rootRef.current)
+    document.addEventListener("fullscreenchange", handleChange)
+    return () => document.removeEventListener("fullscreenchange", handleChange)
+  }, [])
 
-  const handleMouseUp = () => {
-    setIsDragging(false)
+  const toggleFullscreen = () => {
+    if (document.fullscreenElement) document.exitFullscreen()
+    else rootRef.current?.requestFullscreen().catch(() => {})
   }
 
-  const isPointVisible = useCallback(
-    (projection: any, coords: [number, number]): boolean => {
-      const projected = projection(coords)
-      if (!projected) return false
-      const center = projection.invert?.([width / 2, height / 2])
-      if (!center) return true
-      const distance = d3.geoDistance(coords, center)
-      return distance < Math.PI / 2
+  // Load world data from the bundled atlas at the chosen detail
+  useEffect(() => {
+    let cancelled = false
+    loadBasemap(basemapDetail)
+      .then((countries) => {
+        if (!cancelled) setWorldData(countries)
+      })
+      .catch(() => {
+        if (!cancelled) setWorldData(FALLBACK_BASEMAP)
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [basemapDetail])
+
+  // Client coordinates to viewBox coordinates, allowing for the letterboxing of `preserveAspectRatio="meet"`
+  const toViewPoint = useCallback(
+    (clientX: number, clientY: number): [number, number] | null => {
+      const rect = svgRef.current?.getBoundingClientRect()
+      if (!rect || rect.width === 0 || rect.height === 0) return null
+      const k = Math.max(width / rect.width, height / rect.height)
+      return [
+        (clientX - rect.left - (rect.width - width / k) / 2) * k,
+        (clientY - rect.top - (rect.height - height / k) / 2) * k,
+      ]
     },
     [width, height],
   )
 
-  const generateArcPath = useCallback(
-    (projection: any, source: [number, number], target: [number, number]): string | null => {
-      const sourceProjected = projection(source)
-      const targetProjected = projection(target)
-      if (!sourceProjected || !targetProjected) return null
+  // The globe rotates under a drag while the flat map pans; both slow down as you zoom in
+  const dragBy = (dx: number, dy: number) => {
+    if (flyAnimationRef.current) cancelAnimationFrame(flyAnimationRef.current)
+    if (viewRef.current.rotates) {
+      const sensitivity = 0.5 / zoomRef.current
+      setRotation((prev) => [prev[0] + dx * sensitivity, Math.max(-90, Math.min(90, prev[1] - dy * sensitivity))])
+    } else {
+      setTranslation((prev) => [prev[0] + dx, prev[1] + dy])
+    }
+  }
 
-      // Create a great circle arc
-      const interpolate = d3.geoInterpolate(source, target)
-      const points: [number, number][] = []
-      for (let i = 0; i <= 50; i++) {
-        const point = interpolate(i / 50)
-        const projected = projection(point)
-        if (projected) {
-          points.push(projected as [number, number])
-        }
+  // Zoom by `factor`, keeping `point` fixed on the flat map; the globe always zooms about its centre
+  const zoomAt = useCallback(
+    (point: [number, number], factor: number) => {
+      if (flyAnimationRef.current) cancelAnimationFrame(flyAnimationRef.current)
+      const current = zoomRef.current
+      const next = clampZoom(current * factor)
+      if (next === current) return
+      const applied = next / current
+      if (!viewRef.current.rotates) {
+        const [tx, ty] = translationRef.current
+        const cx = point[0] - width / 2
+        const cy = point[1] - height / 2
+        const translation: [number, number] = [cx - (cx - tx) * applied, cy - (cy - ty) * applied]
+        translationRef.current = translation
+        setTranslation(translation)
       }
+      zoomRef.current = next
+      setZoom(next)
+    },
+    [width, height],
+  )
 
-      if (points.length < 2) return null
+  // One pointer drags, two pinch-zoom about their midpoint; mouse, pen and touch all arrive here
+  const readGesture = () => {
+    const points = Array.from(pointersRef.current.values()).slice(0, 2)
+    if (points.length === 0) return null
+    if (points.length === 1) return { point: points[0], distance: 0 }
+    const [a, b] = points
+    return {
+      point: [(a[0] + b[0]) / 2, (a[1] + b[1]) / 2] as [number, number],
+      distance: Math.hypot(a[0] - b[0], a[1] - b[1]),
+    }
+  }
 
-      const lineGenerator = d3
-        .line<[number, number]>()
-        .x((d) => d[0])
-        .y((d) => d[1])
-        .curve(d3.curveBasis)
+  const handlePointerDown = (event: React.PointerEvent) => {
+    if (event.pointerType === "mouse" && event.button !== 0) return
+    const point = toViewPoint(event.clientX, event.clientY)
+    if (!point) return
+    pointersRef.current.set(event.pointerId, point)
+    gestureRef.current = readGesture()
+  }
 
-      return lineGenerator(points)
-    },
-    [],
-  )
+  const handlePointerMove = (event: React.PointerEvent) => {
+    if (!pointersRef.current.has(event.pointerId)) return
+    const point = toViewPoint(event.clientX, event.clientY)
+    if (!point) return
+    pointersRef.current.set(event.pointerId, point)
+    const previous = gestureRef.current
+    const current = readGesture()
+    gestureRef.current = current
+    if (!previous || !current) return
+    if (current.distance > 0 && previous.distance > 0) {
+      zoomAt(current.point, current.distance / previous.distance)
+    } else if (current.distance === 0 && previous.distance === 0) {
+      dragBy(current.point[0] - previous.point[0], current.point[1] - previous.point[1])
+    }
+  }
 
-  // Initialize and update visualization
-  useEffect(() => {
-    if (!svgRef.current || worldData.length === 0) return
+  const handlePointerUp = (event: React.PointerEvent) => {
+    pointersRef.current.delete(event.pointerId)
+    gestureRef.current = readGesture()
+  }
 
-    const svg = d3.select(svgRef.current)
-    svg.selectAll("*").remove()
+  // Arrow keys rotate the globe (or pan the map), +/- zoom and 0 resets
+  const handleKeyDown = (event: React.KeyboardEvent) => {
+    const step = viewRef.current.rotates ? KEYBOARD_ROTATE_STEP : KEYBOARD_PAN_STEP
+    const moves: Record<string, [number, number]> = {
+      ArrowLeft: [step, 0],
+      ArrowRight: [-step, 0],
+      ArrowUp: [0, step],
+      ArrowDown: [0, -step],
+    }
+    if (moves[event.key]) {
+      dragBy(...moves[event.key])
+    } else if (event.key === "+" || event.key === "=") {
+      zoomAt([width / 2, height / 2], KEYBOARD_ZOOM_STEP)
+    } else if (event.key === "-" || event.key === "_") {
+      zoomAt([width / 2, height / 2], 1 / KEYBOARD_ZOOM_STEP)
+    } else if (event.key === "0") {
+      handleReset()
+    } else {
+      return
+    }
+    event.preventDefault()
+  }
 
-    const t = progress[0] / 100
-    const alpha = Math.pow(t, 0.5)
+  // Double-click zooms in two-fold, bringing the clicked point to the centre
+  const handleDoubleClick = (event: React.MouseEvent) => {
+    const point = toViewPoint(event.clientX, event.clientY)
+    if (!point) return
+    const target = clampZoom(zoomRef.current * 2)
+    if (viewRef.current.rotates) {
+      const coords = viewRef.current.projection.invert?.(point)
+      if (coords && !isNaN(coords[0]) && !isNaN(coords[1]))
+        animateView({ rotation: [-coords[0], -coords[1]], zoom: target })
+    } else {
+      const [tx, ty] = translationRef.current
+      const applied = target / zoomRef.current
+      animateView({
+        translation: [-(point[0] - width / 2 - tx) * applied, -(point[1] - height / 2 - ty) * applied],
+        zoom: target,
+      })
+    }
+  }
+
+  const projection = useMemo(() => {
+    const alpha = Math.pow(progress[0] / 100, 0.5)
+    // The globe and map grow with whichever side of the view constrains them
+    const fit = Math.min(width / DEFAULT_VIEW_SIZE.width, height / DEFAULT_VIEW_SIZE.height)
 
-    const scale = d3.scaleLinear().domain([0, 1]).range([200, 120])
+    const scale = d3
+      .scaleLinear()
+      .domain([0, 1])
+      .range([200 * fit * zoom, 120 * fit * zoom])
     const baseRotate = d3.scaleLinear().domain([0, 1]).range([0, 0])
 
     const projection = interpolateProjection(d3.geoOrthographicRaw, d3.geoEquirectangularRaw)
@@ -393,248 +1085,567 @@ export function NetworkTopology() {
       .precision(0.1)
 
     projection.alpha(alpha)
+    return projection
+  }, [progress, rotation, translation, zoom, width, height])
+  // What event handlers and the frame loop need of the current view without re-subscribing on every change
+  const viewRef = useRef({ projection, rotates: true, width, height })
+
+  // Create the retained layers once; later effects only update them in place
+  useEffect(() => {
+    if (!svgRef.current) return
+    const svg = d3.select(svgRef.current)
+    svg.selectAll("*").remove()
+    // Arrowheads marking which directions of a link carry traffic
+    const defs = svg.append("defs")
+    Object.entries(LINK_COLORS).forEach(([name, color]) => {
+      defs
+        .append("marker")
+        .attr("id", `arrow-${name}`)
+        .attr("viewBox", "0 0 10 10")
+        .attr("refX", 20)
+        .attr("refY", 5)
+        .attr("markerUnits", "userSpaceOnUse")
+        .attr("markerWidth", 8)
+        .attr("markerHeight", 8)
+        .attr("orient", "auto-start-reverse")
+        .append("path")
+        .attr("d", "M 0 0 L 10 5 L 0 10 z")
+        .attr("fill", color)
+    })
+    svg.append("g").attr("class", "basemap")
+    svg.append("g").attr("class", "network-links")
+    svg.append("g").attr("class", "network-nodes")
+  }, [])
+
+  // Basemap: only redrawn when the projection or world data changes
+  useEffect(() => {
+    if (!svgRef.current || worldData.length === 0) return
 
+    const basemap = d3.select(svgRef.current).select<SVGGElement>("g.basemap")
     const path = d3.geoPath(projection)
+    const safePath = (d: any) => {
+      try {
+        const pathString = path(d)
+        if (!pathString || pathString.includes("NaN") || pathString.includes("Infinity")) return ""
+        return pathString
+      } catch (error) {
+        return ""
+      }
+    }
 
     // Graticule
-    try {
-      const graticule = d3.geoGraticule()
-      const graticulePath = path(graticule())
-      if (graticulePath) {
-        svg
-          .append("path")
-          .datum(graticule())
-          .attr("d", graticulePath)
-          .attr("fill", "none")
-          .attr("stroke", "#cccccc")
-          .attr("stroke-width", 1)
-          .attr("opacity", 0.2)
-      }
-    } catch (error) {}
+    basemap
+      .selectAll("path.graticule")
+      .data([d3.geoGraticule()()])
+      .join("path")
+      .attr("class", "graticule")
+      .attr("d", safePath)
+      .attr("fill", "none")
+      .attr("stroke", "#cccccc")
+      .attr("stroke-width", 1)
+      .attr("opacity", 0.2)
 
     // Countries
-    svg
-      .selectAll(".country")
+    basemap
+      .selectAll<SVGPathElement, CountryFeature>("path.country")
       .data(worldData)
-      .enter()
-      .append("path")
+      .join((enter) => enter.append("path").attr("fill", "none"))
       .attr("class", "country")
-      .attr("d", (d) => {
-        try {
-          const pathString = path(d as any)
-          if (!pathString) return ""
-          if (typeof pathString === "string" && (pathString.includes("NaN") || pathString.includes("Infinity"))) {
-            return ""
-          }
-          return pathString
-        } catch (error) {
-          return ""
-        }
-      })
-      .attr("fill", "none")
+      .attr("d", safePath)
       .attr("stroke", "#cccccc")
       .attr("stroke-width", 1.0)
       .attr("opacity", 1.0)
       .style("visibility", function () {
         const pathData = d3.select(this).attr("d")
-        return pathData && pathData.length > 0 && !pathData.includes("NaN") ? "visible" : "hidden"
+        return pathData && pathData.length > 0 ? "visible" : "hidden"
       })
 
     // Sphere outline
-    try {
-      const sphereOutline = path({ type: "Sphere" })
-      if (sphereOutline) {
-        svg
-          .append("path")
-          .datum({ type: "Sphere" })
-          .attr("d", sphereOutline)
-          .attr("fill", "none")
-          .attr("stroke", "#222222")
-          .attr("stroke-width", 1)
-          .attr("opacity", 1.0)
-      }
-    } catch (error) {}
-
-    const linksGroup = svg.append("g").attr("class", "network-links")
-
-    topologyData.links.forEach((link) => {
-      const sourceNode = topologyData.nodes.find((n) => n.id === link.source)
-      const targetNode = topologyData.nodes.find((n) => n.id === link.target)
-      if (!sourceNode || !targetNode) return
+    basemap
+      .selectAll("path.sphere")
+      .data([{ type: "Sphere" }])
+      .join("path")
+      .attr("class", "sphere")
+      .attr("d", safePath)
+      .attr("fill", "none")
+      .attr("stroke", "#222222")
+      .attr("stroke-width", 1)
+      .attr("opacity", 1.0)
+  }, [worldData, projection])
 
-      const sourceCoords: [number, number] = [sourceNode.long, sourceNode.lat]
-      const targetCoords: [number, number] = [targetNode.long, targetNode.lat]
+  const locateCountry = useMemo(() => createCountryLocator(worldData), [worldData])
+  const countryTotals = useMemo(
+    () => (showChoropleth ? countryTraffic(topologyData, locateCountry) : null),
+    [showChoropleth, topologyData, locateCountry],
+  )
+  const choroplethMax = useMemo(
+    () => (countryTotals ? Math.max(0, ...Array.from(countryTotals.values(), (total) => total.traffic)) : 0),
+    [countryTotals],
+  )
+  // Square-root scale, so a few busy countries don't leave every other one looking empty
+  const choroplethColor = useMemo(
+    () =>
+      d3
+        .scaleSequentialSqrt(d3.interpolateRgb("#14141f", NEON_COLORS.edgeActive))
+        .domain([0, Math.max(choroplethMax, 1e-6)]),
+    [choroplethMax],
+  )
 
-      const arcPath = generateArcPath(projection, sourceCoords, targetCoords)
-      if (!arcPath) return
+  // Country fills are kept apart from the outlines so traffic updates don't recompute the paths
+  useEffect(() => {
+    if (!svgRef.current) return
+    const countries = d3.select(svgRef.current).selectAll<SVGPathElement, CountryFeature>("g.basemap path.country")
 
-      // Check visibility for globe mode
-      const sourceVisible = isPointVisible(projection, sourceCoords)
-      const targetVisible = isPointVisible(projection, targetCoords)
-      const linkOpacity = sourceVisible || targetVisible || t > 0.3 ? 1 : 0
-
-      const isActive = link.traffic > 0
-      const strokeColor = isActive ? NEON_COLORS.edgeActive : NEON_COLORS.edgeIdle
-
-      // Connection line with glow effect for active links
-      if (isActive) {
-        // Glow layer (wider, more transparent)
-        linksGroup
-          .append("path")
-          .attr("d", arcPath)
-          .attr("fill", "none")
-          .attr("stroke", NEON_COLORS.edgeActive)
-          .attr("stroke-width", Math.max(4, link.traffic / 30))
-          .attr("opacity", linkOpacity * 0.3)
-          .attr("filter", "blur(2px)")
-      }
+    if (!countryTotals) {
+      countries.attr("fill", "none").attr("pointer-events", "none").on("pointermove", null).on("pointerleave", null)
+      setCountryHover(null)
+      return
+    }
 
-      // Main line
-      linksGroup
-        .append("path")
-        .attr("d", arcPath)
-        .attr("fill", "none")
-        .attr("stroke", strokeColor)
-        .attr("stroke-width", isActive ? Math.max(1.5, link.traffic / 50) : 1)
-        .attr("opacity", linkOpacity * (isActive ? 0.8 : 0.4))
-        .attr("stroke-dasharray", isActive ? "none" : "4,2")
-    })
+    countries
+      .attr("fill", (d) => choroplethColor(countryTotals.get(d)?.traffic ?? 0))
+      .attr("fill-opacity", 0.6)
+      .attr("pointer-events", "visiblePainted")
+      .on("pointermove", (event: PointerEvent, d) => {
+        const rect = svgRef.current?.getBoundingClientRect()
+        if (!rect) return
+        setCountryHover({
+          name: d.properties?.name ?? "Unknown",
+          x: event.clientX - rect.left,
+          y: event.clientY - rect.top,
+          totals: countryTotals.get(d) ?? null,
+        })
+      })
+      .on("pointerleave", () => setCountryHover(null))
+  }, [worldData, countryTotals, choroplethColor])
 
-    const packetsGroup = svg.append("g").attr("class", "network-packets")
+  // Links and nodes: keyed joins, so existing elements are moved rather than rebuilt
+  useEffect(() => {
+    if (!svgRef.current) return
 
-    topologyData.links.forEach((link, linkIndex) => {
-      if (link.traffic <= 0) return
+    const svg = d3.select(svgRef.current)
+    const t = progress[0] / 100
+    const isVisible = createVisibilityTest(projection, width, height)
+    const nodeById = new Map(viewData.nodes.map((n) => [n.id, n]))
+    const blend = layoutBlend
+    const positions = logicalLayout.positions
+
+    // Logical positions are laid out for the unzoomed view, so zoom and pan are applied here
+    const logicalPoint = (node: NetworkNode): [number, number] | null => {
+      const position = positions.get(node.id)
+      if (!position) return null
+      return [
+        width / 2 + translation[0] + (position[0] - width / 2) * zoom,
+        height / 2 + translation[1] + (position[1] - height / 2) * zoom,
+      ]
+    }
+    // Mid-morph, anything missing from one layout is shown where the other puts it
+    const blendPoints = (geographic: [number, number] | null, logical: [number, number] | null) => {
+      if (blend === 0 || !logical) return isValidPoint(geographic) ? geographic : null
+      if (blend === 1 || !isValidPoint(geographic)) return logical
+      return lerpPoint(geographic, logical, blend)
+    }
 
-      const sourceNode = topologyData.nodes.find((n) => n.id === link.source)
-      const targetNode = topologyData.nodes.find((n) => n.id === link.target)
+    const renderedLinks: RenderedLink[] = []
+    mergeLinkPairs(viewData.links).forEach((pair) => {
+      const sourceNode = nodeById.get(pair.source)
+      const targetNode = nodeById.get(pair.target)
       if (!sourceNode || !targetNode) return
 
       const sourceCoords: [number, number] = [sourceNode.long, sourceNode.lat]
       const targetCoords: [number, number] = [targetNode.long, targetNode.lat]
-
-      const sourceVisible = isPointVisible(projection, sourceCoords)
-      const targetVisible = isPointVisible(projection, targetCoords)
-      if (!sourceVisible && !targetVisible && t < 0.3) return
-
       const interpolate = d3.geoInterpolate(sourceCoords, targetCoords)
+      const sourceLogical = blend > 0 ? logicalPoint(sourceNode) : null
+      const targetLogical = blend > 0 ? logicalPoint(targetNode) : null
+
+      const pointAlong = (p: number) =>
+        blendPoints(
+          blend < 1 ? (projection(interpolate(p)) as [number, number] | null) : null,
+          sourceLogical && targetLogical ? curvedLinkPoint(sourceLogical, targetLogical, p) : null,
+        )
+      // Great circles are sampled more finely the longer they are
+      const samples = Math.max(8, Math.min(50, Math.ceil(d3.geoDistance(sourceCoords, targetCoords) * 30)))
+      const arcPath = generateArcPath(pointAlong, samples)
+      if (!arcPath) return
 
-      // Multiple packets per link based on traffic
-      const packetCount = Math.max(1, Math.floor(link.traffic / 40))
-      for (let i = 0; i < packetCount; i++) {
-        const offset = (linkIndex * 17 + i * 33) % 100
-        const packetT = ((packetProgress + offset) % 100) / 100
-        const packetCoords = interpolate(packetT)
-        const packetProjected = projection(packetCoords)
-
-        if (packetProjected && !isNaN(packetProjected[0]) && !isNaN(packetProjected[1])) {
-          const packetVisible = isPointVisible(projection, packetCoords as [number, number])
-          if (packetVisible || t > 0.3) {
-            packetsGroup
-              .append("circle")
-              .attr("cx", packetProjected[0])
-              .attr("cy", packetProjected[1])
-              .attr("r", 6)
-              .attr("fill", NEON_COLORS.packet)
-              .attr("opacity", 0.4)
-              .attr("filter", "blur(3px)")
-
-            packetsGroup
-              .append("circle")
-              .attr("cx", packetProjected[0])
-              .attr("cy", packetProjected[1])
-              .attr("r", 3)
-              .attr("fill", NEON_COLORS.packet)
-              .attr("opacity", 1)
-          }
-        }
-      }
+      // Check visibility for globe mode
+      const visible = blend > 0 || isVisible(sourceCoords) || isVisible(targetCoords) || t > 0.3
+      renderedLinks.push({
+        key: pair.key,
+        pair,
+        arcPath,
+        visible,
+        dimmed: tracedPath
+          ? !tracedPath.pairKeys.has(pair.key)
+          : !pair.links.some((link) => filterResult.links.has(link)),
+        protocol: dominantProtocol(pair.links),
+        pointAt: (p) => (blend > 0 || t > 0.3 || isVisible(interpolate(p)) ? pointAlong(p) : null),
+      })
     })
 
-    const nodesGroup = svg.append("g").attr("class", "network-nodes")
+    // Active links take their busiest protocol's colour, or show direction balance when that's chosen
+    // instead or the links don't report protocols
+    const linkColorName = (d: RenderedLink): keyof typeof LINK_COLORS => {
+      if (linksByProtocol && d.protocol) return d.protocol
+      return isPairAsymmetric(d.pair) ? "asymmetric" : "active"
+    }
+    const linkColor = (d: RenderedLink) => {
+      if (!isPairActive(d.pair)) return NEON_COLORS.edgeIdle
+      return LINK_COLORS[linkColorName(d)]
+    }
+    const arrowMarker = (d: RenderedLink, rate: number) => {
+      if (!isPairActive(d.pair) || !isRateActive(rate)) return null
+      return `url(#arrow-${linkColorName(d)})`
+    }
 
-    topologyData.nodes.forEach((node) => {
+    svg
+      .select<SVGGElement>("g.network-links")
+      .selectAll<SVGGElement, RenderedLink>("g.network-link")
+      .data(renderedLinks, (d) => d.key)
+      .join((enter) => {
+        const group = enter.append("g").attr("class", "network-link")
+        // Glow layer (wider, more transparent) for active links
+        group.append("path").attr("class", "link-glow").attr("fill", "none").attr("filter", "blur(2px)")
+        group.append("path").attr("class", "link-main").attr("fill", "none")
+        return group
+      })
+      .attr("opacity", (d) => (d.dimmed ? DIM_OPACITY : 1))
+      .call((group) => {
+        group
+          .select("path.link-glow")
+          .attr("d", (d) => d.arcPath)
+          .attr("stroke", linkColor)
+          .attr("stroke-width", (d) => rateToStrokeWidth(pairTraffic(d.pair)) + 2.5)
+          .attr("opacity", (d) => (d.visible ? 1 : 0) * 0.3)
+          .attr("display", (d) => (isPairActive(d.pair) ? null : "none"))
+        group
+          .select("path.link-main")
+          .attr("d", (d) => d.arcPath)
+          .attr("stroke", linkColor)
+          .attr("stroke-width", (d) => (isPairActive(d.pair) ? rateToStrokeWidth(pairTraffic(d.pair)) : 1))
+          .attr("opacity", (d) => (d.visible ? 1 : 0) * (isPairActive(d.pair) ? 0.8 : 0.4))
+          .attr("stroke-dasharray", (d) => (isPairActive(d.pair) ? "none" : "4,2"))
+          .attr("marker-end", (d) => arrowMarker(d, d.pair.forward))
+          .attr("marker-start", (d) => arrowMarker(d, d.pair.reverse))
+      })
+
+    renderedLinksRef.current = renderedLinks
+
+    // A traced path dims everything off it, in place of the filter
+    const pathNodeIds = tracedPath ? new Set(tracedPath.nodes.map((node) => node.id)) : null
+    // Read through refs, so handlers bound when a node first appears stay current
+    const isHighlighted = (id: string) =>
+      id === selectedNodeIdRef.current || id === pathTraceRef.current?.source || id === pathTraceRef.current?.target
+    const renderedNodes: RenderedNode[] = []
+    viewData.nodes.forEach((node) => {
       const coords: [number, number] = [node.long, node.lat]
-      const projected = projection(coords)
-      if (!projected || isNaN(projected[0]) || isNaN(projected[1])) return
+      const projected = blendPoints(blend < 1 ? projection(coords) : null, blend > 0 ? logicalPoint(node) : null)
+      if (!projected) return
 
-      const visible = isPointVisible(projection, coords)
+      const visible = blend > 0 || isVisible(coords)
       if (!visible && t < 0.3) return
 
-      const nodeOpacity = visible || t > 0.3 ? 1 : 0
-
-      // Node circle with role-based colors
-      const nodeSize = node.role === "Server" ? 7 : node.role === "Router" ? 6 : 5
-      const nodeColor = node.role === "Router" ? NEON_COLORS.router : NEON_COLORS.endpoint
-
-      nodesGroup
-        .append("circle")
-        .attr("cx", projected[0])
-        .attr("cy", projected[1])
-        .attr("r", nodeSize + 4)
-        .attr("fill", nodeColor)
-        .attr("opacity", nodeOpacity * (node.status === "idle" ? 0.15 : 0.35))
-        .attr("filter", "blur(4px)")
-
-      // Main node circle
-      nodesGroup
-        .append("circle")
-        .attr("cx", projected[0])
-        .attr("cy", projected[1])
-        .attr("r", nodeSize)
-        .attr("fill", node.status === "idle" ? "#333" : nodeColor)
-        .attr("stroke", nodeColor)
-        .attr("stroke-width", 2)
-        .attr("opacity", nodeOpacity * (node.status === "idle" ? 0.5 : 1))
-        .attr("cursor", "pointer")
-        .attr("data-node-id", node.id)
-        .on("mouseenter", function (event) {
-          d3.select(this)
-            .attr("r", nodeSize + 3)
-            .attr("stroke-width", 3)
+      renderedNodes.push({
+        node,
+        x: projected[0],
+        y: projected[1],
+        size: nodeSize(node),
+        dimmed: pathNodeIds ? !pathNodeIds.has(node.id) : !filterResult.nodeIds.has(node.id),
+        labelled: false,
+      })
+    })
+    const labelled = pickLabelledNodes(renderedNodes, zoom)
+    renderedNodes.forEach((d) => {
+      d.labelled = labelled.has(d.node.id)
+    })
+
+    svg
+      .select<SVGGElement>("g.network-nodes")
+      .selectAll<SVGGElement, RenderedNode>("g.network-node")
+      .data(renderedNodes, (d) => d.node.id)
+      .join((enter) => {
+        const showTooltip = (element: Element, node: NetworkNode) => {
           const rect = svgRef.current?.getBoundingClientRect()
-          if (rect) {
-            setTooltip({
-              visible: true,
-              x: event.clientX - rect.left,
-              y: event.clientY - rect.top,
-              node: node,
-            })
+          const bounds = element.getBoundingClientRect()
+          if (!rect) return
+          setTooltip({
+            visible: true,
+            x: bounds.left + bounds.width / 2 - rect.left,
+            y: bounds.top + bounds.height / 2 - rect.top,
+            node,
+          })
+        }
+        // Clusters expand in place; ordinary nodes open the detail panel. While tracing a path, any node
+        // becomes the next end of the path instead, starting over once both ends are set.
+        const activate = (node: NetworkNode) => {
+          const cluster = node.cluster
+          if (pathTraceRef.current) {
+            setPathTrace((prev) => prev && pickPathEnd(prev, node.id))
+            return
           }
-        })
-        .on("mouseleave", function () {
-          d3.select(this).attr("r", nodeSize).attr("stroke-width", 2)
-          setTooltip({ visible: false, x: 0, y: 0, node: null })
-        })
-
-      if (node.role !== "Client" && (visible || t > 0.3)) {
-        const labelText = node.name.split(" ")[0]
-        const labelX = projected[0] + nodeSize + 6
-        const labelY = projected[1] + 3
-
-        // Background rect for label
-        nodesGroup
-          .append("rect")
-          .attr("x", labelX - 3)
-          .attr("y", labelY - 9)
-          .attr("width", labelText.length * 5.5 + 6)
-          .attr("height", 14)
-          .attr("rx", 3)
-          .attr("fill", "rgba(0, 0, 0, 0.7)")
-          .attr("opacity", nodeOpacity * 0.9)
+          if (cluster) setExpandedClusters((prev) => new Set(prev).add(cluster.key))
+          else setSelectedNodeId(node.id)
+        }
 
-        // Label text
-        nodesGroup
+        // Nodes are focusable so keyboard users can Tab through them and get the same tooltip
+        const group = enter
+          .append("g")
+          .attr("class", "network-node")
+          .attr("tabindex", 0)
+          .attr("role", "button")
+          .on("focus", function (_event, d) {
+            showTooltip(d3.select(this).select("circle.node-core").node() as Element, d.node)
+          })
+          .on("blur", () => setTooltip({ visible: false, x: 0, y: 0, node: null }))
+          .on("keydown", (event: KeyboardEvent, d) => {
+            if (event.key !== "Enter" && event.key !== " ") return
+            event.preventDefault()
+            activate(d.node)
+          })
+        group.append("circle").attr("class", "node-glow").attr("filter", "blur(4px)")
+        group
+          .append("circle")
+          .attr("class", "node-core")
+          .attr("stroke-width", 2)
+          .attr("cursor", "pointer")
+          .on("mouseenter", function (event, d) {
+            d3.select(this)
+              .attr("r", d.size + 3)
+              .attr("stroke-width", 3)
+            const rect = svgRef.current?.getBoundingClientRect()
+            if (rect) {
+              setTooltip({
+                visible: true,
+                x: event.clientX - rect.left,
+                y: event.clientY - rect.top,
+                node: d.node,
+              })
+            }
+          })
+          .on("mouseleave", function (_event, d) {
+            d3.select(this)
+              .attr("r", d.size)
+              .attr("stroke-width", isHighlighted(d.node.id) ? 3 : 2)
+            setTooltip({ visible: false, x: 0, y: 0, node: null })
+          })
+          .on("click", (_event, d) => activate(d.node))
+        // Background rect and text for label
+        group.append("rect").attr("class", "node-label-bg").attr("height", 14).attr("rx", 3)
+        group
           .append("text")
-          .attr("x", labelX)
-          .attr("y", labelY)
+          .attr("class", "node-label")
           .attr("font-size", "9px")
           .attr("font-family", "monospace")
           .attr("fill", "#ffffff")
-          .attr("opacity", nodeOpacity)
-          .text(labelText)
+        return group
+      })
+      .attr("transform", (d) => `translate(${d.x},${d.y})`)
+      .attr("aria-label", (d) =>
+        [d.node.name, d.node.ip, d.node.cluster ? "cluster" : d.node.role, d.node.status].join(", "),
+      )
+      .classed("node-warning", (d) => d.node.status === "warning")
+      .attr("opacity", (d) => (d.dimmed ? DIM_OPACITY : 1))
+      .call((group) => {
+        // Node circle with role-based colors
+        group
+          .select("circle.node-glow")
+          .attr("r", (d) => d.size + 4)
+          .attr("fill", (d) => nodeColor(d.node))
+          .attr("opacity", (d) => (d.node.status === "idle" ? 0.15 : 0.35))
+        group
+          .select("circle.node-core")
+          .attr("r", (d) => d.size)
+          .attr("fill", (d) => (d.node.status === "idle" ? "#333" : nodeColor(d.node)))
+          .attr("stroke", (d) => (isHighlighted(d.node.id) ? "#ffffff" : nodeColor(d.node)))
+          .attr("stroke-width", (d) => (isHighlighted(d.node.id) ? 3 : 2))
+          .attr("opacity", (d) => (d.node.status === "idle" ? 0.5 : 1))
+          .attr("data-node-id", (d) => d.node.id)
+
+        group
+          .select("rect.node-label-bg")
+          .attr("display", (d) => (d.labelled ? null : "none"))
+          .attr("x", (d) => d.size + 3)
+          .attr("y", -6)
+          .attr("width", (d) => labelText(d.node).length * 5.5 + 6)
+          .attr("fill", "rgba(0, 0, 0, 0.7)")
+          .attr("opacity", 0.9)
+        group
+          .select("text.node-label")
+          .attr("display", (d) => (d.labelled ? null : "none"))
+          .attr("x", (d) => d.size + 6)
+          .attr("y", 3)
+          .text((d) => labelText(d.node))
+      })
+  }, [
+    projection,
+    progress,
+    zoom,
+    translation,
+    viewData,
+    filterResult,
+    selectedNodeId,
+    pathTrace,
+    tracedPath,
+    layoutBlend,
+    logicalLayout,
+    linksByProtocol,
+    width,
+    height,
+  ])
+
+  // Packets are drawn on a canvas overlay from a free-running frame loop, outside React state.
+  // Link colour and width already carry the traffic, so reduced motion simply leaves them out.
+  useEffect(() => {
+    const canvas = canvasRef.current
+    const context = canvas?.getContext("2d")
+    if (!canvas || !context) return
+
+    const dpr = window.devicePixelRatio || 1
+    canvas.width = width * dpr
+    canvas.height = height * dpr
+    if (reducedMotion) return
+
+    let frameId: number
+    let lastTime = performance.now()
+    // Per-direction packet phase, advanced by each direction's own rate-dependent speed
+    let phases = new Map<string, number>()
+
+    const draw = (time: number) => {
+      const dt = (time - lastTime) / 1000
+      lastTime = time
+      context.setTransform(dpr, 0, 0, dpr, 0, 0)
+      context.clearRect(0, 0, width, height)
+
+      const points: [number, number][] = []
+      const nextPhases = new Map<string, number>()
+      renderedLinksRef.current.forEach(({ key, pair, pointAt, visible, dimmed }, linkIndex) => {
+        if (!visible || dimmed) return
+
+        // Packets run source→target for the forward rate and back again for the reverse rate
+        const directions: [string, number, (p: number) => number][] = [
+          [`${key}:fwd`, pair.forward, (p) => p],
+          [`${key}:rev`, pair.reverse, (p) => 1 - p],
+        ]
+        directions.forEach(([phaseKey, rate, orient]) => {
+          if (!isRateActive(rate)) return
+
+          const packetProgress = ((phases.get(phaseKey) ?? 0) + dt * rateToPacketSpeed(rate)) % 100
+          nextPhases.set(phaseKey, packetProgress)
+
+          // Multiple packets per direction based on its traffic
+          const packetCount = rateToPacketCount(rate)
+          for (let i = 0; i < packetCount; i++) {
+            const offset = (linkIndex * 17 + (i * 100) / packetCount) % 100
+            const point = pointAt(orient(((packetProgress + offset) % 100) / 100))
+            if (point) points.push(point)
+          }
+        })
+      })
+
+      context.fillStyle = NEON_COLORS.packet
+      for (const [radius, opacity] of [
+        [6, 0.4],
+        [3, 1],
+      ]) {
+        context.globalAlpha = opacity
+        context.beginPath()
+        points.forEach(([x, y]) => {
+          context.moveTo(x + radius, y)
+          context.arc(x, y, radius, 0, Math.PI * 2)
+        })
+        context.fill()
       }
-    })
-  }, [worldData, progress, rotation, translation, packetProgress, generateArcPath, isPointVisible, topologyData])
+      context.globalAlpha = 1
+      phases = nextPhases
+
+      frameId = requestAnimationFrame(draw)
+    }
+
+    frameId = requestAnimationFrame(draw)
+    return () => cancelAnimationFrame(frameId)
+  }, [width, height, reducedMotion])
+
+  useEffect(() => {
+    viewRef.current = { projection, rotates: layout.mode === "geographic" && progress[0] / 100 < 0.5, width, height }
+  }, [projection, progress, layout.mode, width, height])
+
+  // Re-run the force layout when the graph's shape changes; it is seeded with the previous positions
+  // so the graph only shifts to accommodate what changed
+  const graphShape = useMemo(
+    () =>
+      viewData.nodes
+        .map((n) => `${n.id}:${n.role}`)
+        .sort()
+        .join(",") +
+      "|" +
+      viewData.links
+        .map((l) => edgeKey(l.source, l.target))
+        .sort()
+        .join(","),
+    [viewData],
+  )
+  const viewDataRef = useRef(viewData)
+  useEffect(() => {
+    viewDataRef.current = viewData
+  }, [viewData])
+
+  useEffect(() => {
+    if (layout.mode !== "logical") return
+    setLogicalLayout((previous) => ({
+      hierarchical: layout.hierarchical,
+      positions: computeLogicalLayout(viewDataRef.current, {
+        width,
+        height,
+        hierarchical: layout.hierarchical,
+        previous: previous.hierarchical === layout.hierarchical ? previous.positions : undefined,
+      }),
+    }))
+  }, [graphShape, layout.mode, layout.hierarchical, width, height])
+
+  // Morph between the layouts rather than jumping
+  useEffect(() => {
+    const target = layout.mode === "logical" ? 1 : 0
+    if (reducedMotionRef.current) {
+      layoutBlendRef.current = target
+      setLayoutBlend(target)
+      return
+    }
+    let frameId: number
+    let start: number | null = null
+    const from = layoutBlendRef.current
+    const step = (time: number) => {
+      if (start === null) start = time
+      const k = d3.easeCubicInOut(Math.min(1, (time - start) / LAYOUT_TRANSITION))
+      layoutBlendRef.current = from + (target - from) * k
+      setLayoutBlend(layoutBlendRef.current)
+      if (k < 1) frameId = requestAnimationFrame(step)
+    }
+    frameId = requestAnimationFrame(step)
+    return () => cancelAnimationFrame(frameId)
+  }, [layout.mode])
+
+  // The basemap means nothing in the logical layout, so it fades out with the morph
+  useEffect(() => {
+    if (!svgRef.current) return
+    d3.select(svgRef.current)
+      .select("g.basemap")
+      .attr("opacity", 1 - layoutBlend)
+      .attr("display", layoutBlend === 1 ? "none" : null)
+  }, [layoutBlend])
+
+  // React registers wheel handlers as passive, so this one is attached directly in order to stop the page scrolling
+  useEffect(() => {
+    const svg = svgRef.current
+    if (!svg) return
+    const handleWheel = (event: WheelEvent) => {
+      event.preventDefault()
+      const point = toViewPoint(event.clientX, event.clientY)
+      // Trackpad pinches arrive as wheel events with ctrlKey set and much smaller deltas
+      if (point) zoomAt(point, Math.exp(-event.deltaY * (event.ctrlKey ? 0.01 : 0.002)))
+    }
+    svg.addEventListener("wheel", handleWheel, { passive: false })
+    return () => svg.removeEventListener("wheel", handleWheel)
+  }, [toViewPoint, zoomAt])
 
   const handleAnimate = () => {
     if (isAnimating) return
@@ -643,6 +1654,14 @@ export function NetworkTopology() {
     const startProgress = progress[0]
     const endProgress = startProgress === 0 ? 100 : 0
     const duration = 2000
+    // The globe rotates rather than pans, so bring a panned map back to the centre as it rolls up
+    if (endProgress === 0) animateView({ translation: [0, 0] }, duration)
+
+    if (reducedMotionRef.current) {
+      setProgress([endProgress])
+      setIsAnimating(false)
+      return
+    }
 
     const startTime = Date.now()
 
@@ -665,106 +1684,496 @@ export function NetworkTopology() {
     animate()
   }
 
+  // The selected node, if any, becomes the start of the path
+  const togglePathTrace = () => {
+    if (pathTrace) {
+      setPathTrace(null)
+      return
+    }
+    setPathTrace({ source: selectedNodeId, target: null, metric: "hops" })
+    setSelectedNodeId(null)
+  }
+
   const handleReset = () => {
-    setRotation([0, 0])
-    setTranslation([0, 0])
+    animateView({ rotation: [0, 0], translation: [0, 0], zoom: 1 })
+  }
+
+  // The graph is panned like the flat map, so returning to the globe recentres it
+  const handleToggleLayout = () => {
+    const mode = layout.mode === "logical" ? "geographic" : "logical"
+    setLayout((prev) => ({ ...prev, mode }))
+    if (mode === "geographic" && progress[0] < 50) animateView({ translation: [0, 0] })
+  }
+
+  const handleExport = (format: ExportFormat, options: ExportOptions) => {
+    const basename = `topology-${new Date().toISOString().replace(/[:.]/g, "-")}`
+    setExportError(null)
+    if (format === "svg" || format === "png") {
+      if (!svgRef.current) return
+      const hudLines = options.includeHud
+        ? [
+            new Date().toLocaleString(),
+            `Active Nodes: ${viewData.nodes.filter((n) => n.status === "active" && filterResult.nodeIds.has(n.id)).length}`,
+            `Connections: ${filteredLinks.length}`,
+            `Total Traffic: ${formatRate(filteredLinks.reduce((sum, l) => sum + l.traffic, 0))}`,
+          ]
+        : undefined
+      const svgText = serializeSvgSnapshot(svgRef.current, { width, height, hudLines })
+      if (format === "svg") {
+        downloadText(`${basename}.svg`, svgText, "image/svg+xml")
+        return
+      }
+      rasterizeSvg(svgText, width, height, Math.max(2, window.devicePixelRatio || 1), canvasRef.current)
+        .then((blob) => downloadBlob(`${basename}.png`, blob))
+        .catch((error) => setExportError(`PNG export failed: ${error instanceof Error ? error.message : error}`))
+      return
+    }
+
+    const data =
+      options.filteredOnly && isFilterActive(filter)
+        ? pickTopology(viewData, filterResult.nodeIds, filterResult.links)
+        : viewData
+    exportTopologyData(data, format, basename).forEach((file) => downloadText(file.filename, file.content, file.type))
   }
 
   return (
-    <div className="relative flex items-center justify-center w-full h-full">
-      <div className="absolute top-4 left-4 z-10 font-mono text-xs space-y-1">
-        <div className="flex items-center gap-2">
-          <span
-            className={`w-2 h-2 rounded-full ${isBackendConnected ? "bg-green-500 animate-pulse" : "bg-red-500"}`}
+    <div
+      ref={rootRef}
+      className={`flex flex-col gap-2 ${kiosk ? "fixed inset-0 z-50 p-2 bg-black" : "relative w-full h-full"} ${
+        isFullscreen ? "p-2 bg-neutral-950" : ""
+      }`}
+    >
+      {!kiosk && (
+        <div className="flex items-start gap-2">
+          <TopologyFilterBar filter={filter} sensors={sensors} onChange={setFilter} />
+          <AggregationControl
+            settings={aggregation}
+            expandedCount={expandedClusters.size}
+            onChange={(settings) => {
+              setAggregation(settings)
+              setExpandedClusters(new Set())
+            }}
+            onCollapseAll={() => setExpandedClusters(new Set())}
           />
-          <span className={isBackendConnected ? "text-green-400" : "text-red-400"}>
-            {isBackendConnected ? "Live" : "Disconnected"}
-          </span>
-        </div>
-        <div className="text-neutral-500">
-          <span className="text-neutral-400">Active Nodes:</span>{" "}
-          {topologyData.nodes.filter((n) => n.status === "active").length}
-        </div>
-        <div className="text-neutral-500">
-          <span className="text-neutral-400">Connections:</span> {topologyData.links.length}
-        </div>
-        <div className="text-neutral-500">
-          <span className="text-neutral-400">Total Traffic:</span>{" "}
-          {topologyData.links.reduce((sum, l) => sum + l.traffic, 0)} pkts
+          <CaptureLoader
+            capture={capture}
+            loading={captureLoading}
+            error={captureError}
+            onOpen={openCapture}
+            onClose={closeCapture}
+          />
+          <BasemapControl
+            detail={basemapDetail}
+            choropleth={showChoropleth}
+            onDetailChange={setBasemapDetail}
+            onChoroplethChange={setShowChoropleth}
+          />
+          <ExportMenu filterActive={isFilterActive(filter)} error={exportError} onExport={handleExport} />
         </div>
-      </div>
+      )}
 
-      <svg
-        ref={svgRef}
-        viewBox={`0 0 ${width} ${height}`}
-        className="w-full h-full border rounded-lg bg-transparent border-neutral-800 cursor-grab active:cursor-grabbing"
-        preserveAspectRatio="xMidYMid meet"
-        onMouseDown={handleMouseDown}
-        onMouseMove={handleMouseMove}
-        onMouseUp={handleMouseUp}
-        onMouseLeave={handleMouseUp}
-      />
-
-      {topologyData.nodes.length === 0 && (
-        <div className="absolute inset-0 flex items-center justify-center pointer-events-none">
-          <div className="text-neutral-500 font-mono text-sm bg-black/50 px-4 py-2 rounded">
-            Waiting for traffic...
+      <div
+        ref={mapRef}
+        className="relative flex flex-1 min-h-0 items-center justify-center w-full"
+        onDragOver={(event) => {
+          if (!event.dataTransfer.types.includes("Files")) return
+          event.preventDefault()
+          setIsDraggingFile(true)
+        }}
+        onDragLeave={(event) => {
+          if (!event.currentTarget.contains(event.relatedTarget as Node | null)) setIsDraggingFile(false)
+        }}
+        onDrop={(event) => {
+          event.preventDefault()
+          setIsDraggingFile(false)
+          const file = event.dataTransfer.files[0]
+          if (file) openCapture(file)
+        }}
+      >
+        <div className="absolute top-4 left-4 z-10 font-mono text-xs space-y-1">
+          {capture ? (
+            <>
+              <div className="flex items-center gap-2">
+                <span className="w-2 h-2 rounded-full bg-yellow-500" />
+                <span className="text-yellow-400">Offline capture</span>
+              </div>
+              <div className="text-neutral-500">
+                {capture.format} · {capture.packetCount.toLocaleString()} packets
+              </div>
+            </>
+          ) : (
+            <>
+              <button
+                onClick={() => setDiagnosticsOpen((open) => !open)}
+                title="Show connection diagnostics"
+                className="flex items-center gap-2 cursor-pointer hover:underline"
+              >
+                <span
+                  className={`w-2 h-2 rounded-full ${
+                    isBackendConnected
+                      ? "bg-green-500 motion-safe:animate-pulse"
+                      : streamStatus === "disconnected"
+                        ? "bg-red-500"
+                        : "bg-yellow-500 motion-safe:animate-pulse"
+                  }`}
+                />
+                <span
+                  className={
+                    isBackendConnected
+                      ? "text-green-400"
+                      : streamStatus === "disconnected"
+                        ? "text-red-400"
+                        : "text-yellow-400"
+                  }
+                >
+                  {STREAM_STATUS_LABELS[streamStatus]}
+                  {streamStatus === "disconnected" && failureLabels.length > 0 && ` (${failureLabels.join(", ")})`}
+                </span>
+              </button>
+              <div className="text-neutral-500">
+                {staleSeconds === null ? (
+                  "No data yet"
+                ) : (
+                  <span className={staleSeconds > settings.staleAfter ? "text-yellow-400" : undefined}>
+                    Updated {staleSeconds}s ago{staleSeconds > settings.staleAfter && " (stale)"}
+                  </span>
+                )}{" "}
+                · {messageRate.toFixed(1)} msg/s
+              </div>
+              {multiSensor &&
+                sensors.map((sensor) => (
+                  <div key={sensor.id} className="flex items-center gap-2 text-neutral-500">
+                    <span className="w-1.5 h-1.5 rounded-full" style={{ background: sensor.color }} />
+                    <span className="text-neutral-400">{sensor.name}:</span>
+                    {STREAM_STATUS_LABELS[sensorStatuses[sensor.id] ?? "connecting"]}
+                    {failureLabel(sensor.id) && ` (${failureLabel(sensor.id)})`}
+                  </div>
+                ))}
+            </>
+          )}
+          <div className="text-neutral-500">
+            <span className="text-neutral-400">Active Nodes:</span>{" "}
+            {viewData.nodes.filter((n) => n.status === "active" && filterResult.nodeIds.has(n.id)).length}
           </div>
+          <div className="text-neutral-500">
+            <span className="text-neutral-400">Connections:</span> {filteredLinks.length}
+          </div>
+          <div className="text-neutral-500">
+            <span className="text-neutral-400">Total Traffic:</span>{" "}
+            {formatRate(filteredLinks.reduce((sum, l) => sum + l.traffic, 0))}
+          </div>
+          {hasProtocols && <ProtocolLegend byProtocol={linksByProtocol} onChange={setLinksByProtocol} />}
+          {countryTotals && <ChoroplethLegend max={choroplethMax} color={choroplethColor} />}
         </div>
-      )}
 
-      {tooltip.visible && tooltip.node && (
-        <div
-          className="absolute z-20 pointer-events-none bg-black/90 border border-neutral-600 rounded-md px-3 py-2 text-xs font-mono shadow-lg"
-          style={{
-            left: tooltip.x + 12,
-            top: tooltip.y - 10,
-            transform: tooltip.x > width / 2 ? "translateX(-100%)" : "none",
-            boxShadow:
-              tooltip.node.role === "Router"
-                ? `0 0 10px ${NEON_COLORS.router}40`
-                : `0 0 10px ${NEON_COLORS.endpoint}40`,
-          }}
-        >
-          <div className="text-white font-medium">{tooltip.node.name}</div>
-          <div className="text-neutral-400 mt-1">
-            <span className="text-neutral-500">IP:</span> {tooltip.node.ip}
+        <svg
+          ref={svgRef}
+          viewBox={`0 0 ${width} ${height}`}
+          className="w-full h-full border rounded-lg bg-transparent border-neutral-800 cursor-grab active:cursor-grabbing touch-none select-none"
+          preserveAspectRatio="xMidYMid meet"
+          tabIndex={0}
+          role="application"
+          aria-label="Network topology map. Arrow keys rotate, plus and minus zoom, 0 resets, Tab moves between nodes."
+          onPointerDown={handlePointerDown}
+          onPointerMove={handlePointerMove}
+          onPointerUp={handlePointerUp}
+          onPointerCancel={handlePointerUp}
+          onPointerLeave={handlePointerUp}
+          onDoubleClick={handleDoubleClick}
+          onKeyDown={handleKeyDown}
+        />
+        <canvas ref={canvasRef} className="absolute inset-0 w-full h-full object-contain pointer-events-none" />
+
+        {showTable && (
+          <TopologyTable
+            nodes={viewData.nodes.filter((n) => filterResult.nodeIds.has(n.id))}
+            links={filteredLinks}
+            selectedNodeId={selectedNodeId}
+            sensors={multiSensor ? sensors : undefined}
+            onSelectNode={(node) => {
+              const cluster = node.cluster
+              if (cluster) setExpandedClusters((prev) => new Set(prev).add(cluster.key))
+              else setSelectedNodeId(node.id)
+            }}
+          />
+        )}
+
+        {isDraggingFile && (
+          <div className="absolute inset-0 z-40 flex items-center justify-center pointer-events-none border-2 border-dashed border-yellow-500/60 rounded-lg bg-black/70">
+            <div className="text-yellow-400 font-mono text-sm">
+              Drop a .pcap, .pcapng or tcpdump log to analyse it offline
+            </div>
           </div>
-          <div className="text-neutral-400">
-            <span className="text-neutral-500">Role:</span>{" "}
-            <span style={{ color: tooltip.node.role === "Router" ? NEON_COLORS.router : NEON_COLORS.endpoint }}>
-              {tooltip.node.role}
-            </span>
+        )}
+
+        {topologyData.nodes.length === 0 && (
+          <div className="absolute inset-0 flex items-center justify-center pointer-events-none">
+            <div className="text-neutral-500 font-mono text-sm bg-black/50 px-4 py-2 rounded">
+              Waiting for traffic...
+              {!capture && !kiosk && (
+                <button
+                  onClick={() => startSimulation({ scenario: "office", seed: 1 })}
+                  className="cursor-pointer pointer-events-auto ml-2 text-neutral-300 underline hover:text-white"
+                >
+                  Run a demo
+                </button>
+              )}
+            </div>
           </div>
-          <div className="text-neutral-400">
-            <span className="text-neutral-500">Status:</span>{" "}
-            <span
-              className={
-                tooltip.node.status === "active"
-                  ? "text-green-400"
-                  : tooltip.node.status === "warning"
-                    ? "text-yellow-400"
-                    : "text-neutral-500"
-              }
+        )}
+
+        {countryHover && !tooltip.visible && (
+          <div
+            className="absolute z-20 pointer-events-none bg-black/90 border border-neutral-600 rounded-md px-3 py-2 text-xs font-mono shadow-lg"
+            style={{
+              left: countryHover.x + 12,
+              top: countryHover.y - 10,
+              transform: countryHover.x > width / 2 ? "translateX(-100%)" : "none",
+            }}
+          >
+            <div className="text-white font-medium">{countryHover.name}</div>
+            <div className="text-neutral-400 mt-1">
+              <span className="text-neutral-500">Traffic:</span> {formatRate(countryHover.totals?.traffic ?? 0)}
+            </div>
+            <div className="text-neutral-400">
+              <span className="text-neutral-500">Nodes:</span> {countryHover.totals?.nodes ?? 0}
+            </div>
+          </div>
+        )}
+
+        {tooltip.visible && tooltip.node && (
+          <div
+            className="absolute z-20 pointer-events-none bg-black/90 border border-neutral-600 rounded-md px-3 py-2 text-xs font-mono shadow-lg"
+            style={{
+              left: tooltip.x + 12,
+              top: tooltip.y - 10,
+              transform: tooltip.x > width / 2 ? "translateX(-100%)" : "none",
+              boxShadow:
+                tooltip.node.role === "Router"
+                  ? `0 0 10px ${NEON_COLORS.router}40`
+                  : `0 0 10px ${NEON_COLORS.endpoint}40`,
+            }}
+          >
+            <div className="text-white font-medium">{tooltip.node.name}</div>
+            <div className="text-neutral-400 mt-1">
+              <span className="text-neutral-500">IP:</span> {abbreviateIP(tooltip.node.ip)}
+            </div>
+            {tooltip.node.location && tooltip.node.location.source !== "hash" && (
+              <div className="text-neutral-400">
+                <span className="text-neutral-500">Location:</span>{" "}
+                {[tooltip.node.location.city, tooltip.node.location.country].filter(Boolean).join(", ") || "Unknown"}
+                {tooltip.node.location.source === "private" && <span className="text-neutral-500"> (private)</span>}
+              </div>
+            )}
+            {tooltip.node.location?.asn && (
+              <div className="text-neutral-400">
+                <span className="text-neutral-500">ASN:</span> {tooltip.node.location.asn}
+              </div>
+            )}
+            <div className="text-neutral-400">
+              <span className="text-neutral-500">Role:</span>{" "}
+              <span style={{ color: tooltip.node.role === "Router" ? NEON_COLORS.router : NEON_COLORS.endpoint }}>
+                {tooltip.node.role}
+              </span>
+            </div>
+            <div className="text-neutral-400">
+              <span className="text-neutral-500">Status:</span>{" "}
+              <span
+                className={
+                  tooltip.node.status === "active"
+                    ? "text-green-400"
+                    : tooltip.node.status === "warning"
+                      ? "text-yellow-400"
+                      : "text-neutral-500"
+                }
+              >
+                {tooltip.node.status}
+              </span>
+            </div>
+            {multiSensor && tooltip.node.sensors && (
+              <div className="text-neutral-400">
+                <span className="text-neutral-500">Seen by:</span>{" "}
+                <SensorBadges ids={tooltip.node.sensors} sensors={sensors} showNames />
+              </div>
+            )}
+          </div>
+        )}
+
+        {pathTrace && (
+          <PathPanel
+            source={pathSource}
+            target={pathTarget}
+            metric={pathTrace.metric}
+            path={tracedPath}
+            onMetricChange={(metric) => setPathTrace({ ...pathTrace, metric })}
+            onSelectNode={flyTo}
+            onSwap={() => setPathTrace({ ...pathTrace, source: pathTrace.target, target: pathTrace.source })}
+            onClose={() => setPathTrace(null)}
+          />
+        )}
+
+        {!pathTrace && selectedNode && selectedNodeDetails && (
+          <NodeDetailPanel
+            node={selectedNode}
+            {...selectedNodeDetails}
+            onSelectPeer={(peer) => {
+              setSelectedNodeId(peer.id)
+              flyTo(peer)
+            }}
+            sensors={multiSensor ? sensors : undefined}
+            onEdit={() => setInventoryEditor({ open: true, ip: selectedNode.ip })}
+            onClose={() => setSelectedNodeId(null)}
+          />
+        )}
+
+        {inventoryEditor.open && (
+          <InventoryEditor
+            key={inventoryEditor.ip ?? ""}
+            inventory={inventory}
+            initialIP={inventoryEditor.ip}
+            loadError={inventoryError}
+            onChange={(next) => {
+              setInventory(next)
+              setInventoryError(null)
+            }}
+            onAddNode={addNodeByIP}
+            onClose={() => setInventoryEditor({ open: false })}
+          />
+        )}
+
+        {diagnosticsOpen && !capture && (
+          <DiagnosticsDrawer
+            sensors={sensors}
+            statuses={sensorStatuses}
+            diagnostics={diagnostics}
+            now={now}
+            onClose={() => setDiagnosticsOpen(false)}
+          />
+        )}
+
+        {settingsOpen && (
+          <SettingsPanel
+            settings={settings}
+            sensors={sensors}
+            statuses={sensorStatuses}
+            onSettingsChange={updateSettings}
+            onSensorsChange={updateSensors}
+            onClose={() => setSettingsOpen(false)}
+          />
+        )}
+
+        {!kiosk && (
+          <AlertsPanel
+            alerts={alerts}
+            rules={anomalyRules}
+            onRulesChange={setAnomalyRules}
+            onClear={() => setAlerts([])}
+            onSelectAlert={(alert) => {
+              const node = viewData.nodes.find((n) => n.id === alert.nodeId)
+              setSelectedNodeId(alert.nodeId)
+              if (node) flyTo(node)
+            }}
+          />
+        )}
+
+        {!kiosk && (
+          <div className="absolute bottom-4 right-4 flex flex-wrap justify-end gap-2 z-10">
+            <Button
+              onClick={handleAnimate}
+              disabled={isAnimating || layout.mode === "logical"}
+              className="cursor-pointer min-w-[120px] rounded"
+            >
+              {isAnimating ? "Animating..." : progress[0] === 0 ? "Unroll Globe" : "Roll to Globe"}
+            </Button>
+            <Button
+              onClick={handleToggleLayout}
+              aria-pressed={layout.mode === "logical"}
+              variant="outline"
+              className="cursor-pointer min-w-[96px] text-white border-white/20 hover:bg-white/10 bg-transparent rounded"
+            >
+              {layout.mode === "logical" ? "Geographic" : "Logical"}
+            </Button>
+            {layout.mode === "logical" && (
+              <Button
+                onClick={() => setLayout((prev) => ({ ...prev, hierarchical: !prev.hierarchical }))}
+                aria-pressed={layout.hierarchical}
+                variant="outline"
+                className="cursor-pointer text-white border-white/20 hover:bg-white/10 bg-transparent rounded"
+              >
+                {layout.hierarchical ? "Free" : "Tiered"}
+              </Button>
+            )}
+            <Button
+              onClick={handleReset}
+              variant="outline"
+              className="cursor-pointer min-w-[80px] text-white border-white/20 hover:bg-white/10 bg-transparent rounded"
+            >
+              Reset
+            </Button>
+            <Button
+              onClick={togglePathTrace}
+              aria-pressed={pathTrace !== null}
+              title="Click two nodes to trace the path between them"
+              variant="outline"
+              className="cursor-pointer text-white border-white/20 hover:bg-white/10 bg-transparent rounded"
             >
-              {tooltip.node.status}
-            </span>
+              Trace Path
+            </Button>
+            <Button
+              onClick={() => setInventoryEditor({ open: true })}
+              title={inventoryError ?? undefined}
+              variant="outline"
+              className={`cursor-pointer border-white/20 hover:bg-white/10 bg-transparent rounded ${inventoryError ? "text-red-400" : "text-white"}`}
+            >
+              Inventory{inventoryError && " (unavailable)"}
+            </Button>
+            <Button
+              onClick={() => setSettingsOpen(true)}
+              variant="outline"
+              className="cursor-pointer text-white border-white/20 hover:bg-white/10 bg-transparent rounded"
+            >
+              Settings
+            </Button>
+            <Button
+              onClick={() => setShowTable(!showTable)}
+              aria-pressed={showTable}
+              variant="outline"
+              className="cursor-pointer text-white border-white/20 hover:bg-white/10 bg-transparent rounded"
+            >
+              {showTable ? "Map" : "Table"}
+            </Button>
+            <Button
+              onClick={toggleFullscreen}
+              aria-pressed={isFullscreen}
+              variant="outline"
+              className="cursor-pointer text-white border-white/20 hover:bg-white/10 bg-transparent rounded"
+            >
+              {isFullscreen ? "Exit Full Screen" : "Full Screen"}
+            </Button>
+            <Button
+              onClick={() => setKiosk(true)}
+              title="Hide the controls; press Escape to bring them back"
+              variant="outline"
+              className="cursor-pointer text-white border-white/20 hover:bg-white/10 bg-transparent rounded"
+            >
+              Kiosk
+            </Button>
           </div>
-        </div>
-      )}
-
-      <div className="absolute bottom-4 right-4 flex gap-2 z-10">
-        <Button onClick={handleAnimate} disabled={isAnimating} className="cursor-pointer min-w-[120px] rounded">
-          {isAnimating ? "Animating..." : progress[0] === 0 ? "Unroll Globe" : "Roll to Globe"}
-        </Button>
-        <Button
-          onClick={handleReset}
-          variant="outline"
-          className="cursor-pointer min-w-[80px] text-white border-white/20 hover:bg-white/10 bg-transparent rounded"
-        >
-          Reset
-        </Button>
+        )}
       </div>
+
+      {!kiosk && (
+        <TopologyTimeline
+          liveLabel={capture ? "End" : "Live"}
+          range={historyRange}
+          playback={playback}
+          onScrub={(cursor) => setPlayback((prev) => ({ ...prev, cursor }))}
+          onGoLive={() => setPlayback((prev) => ({ ...prev, cursor: null, playing: false }))}
+          onPause={() => setPlayback((prev) => ({ ...prev, cursor: historyRef.current.range()?.end ?? null }))}
+          onTogglePlay={() => setPlayback((prev) => ({ ...prev, playing: !prev.playing }))}
+          onSpeedChange={(speed) => setPlayback((prev) => ({ ...prev, speed }))}
+        />
+      )}
     </div>
   )
 }
@@ -0,0 +1,186 @@
+"use client"
+
+import * as d3 from "d3"
+import { SensorBadges } from "@/components/sensor-badges"
+import { NEON_COLORS, PROTOCOL_COLORS } from "@/lib/colors"
+import { abbreviateIP, ipScope } from "@/lib/ip"
+import type { PeerSummary, TrafficSeries } from "@/lib/node-stats"
+import type { ServiceUsage } from "@/lib/protocols"
+import type { Sensor } from "@/lib/sensors"
+import type { NetworkNode } from "@/lib/topology"
+import { formatRate } from "@/lib/traffic-rates"
+
+interface NodeDetailPanelProps {
+  node: NetworkNode
+  peers: PeerSummary[]
+  services: { exposed: ServiceUsage[]; consumed: ServiceUsage[] }
+  series: TrafficSeries
+  firstSeen?: number
+  lastSeen?: number
+  sensors?: Sensor[] // shown as provenance when more than one sensor is configured
+  onSelectPeer: (node: NetworkNode) => void
+  onEdit?: () => void
+  onClose: () => void
+}
+
+const SPARKLINE_WIDTH = 200
+const SPARKLINE_HEIGHT = 40
+
+function Sparkline({ series }: { series: TrafficSeries }) {
+  const max = Math.max(1, ...series.inbound, ...series.outbound)
+  const x = d3
+    .scaleLinear()
+    .domain([0, Math.max(1, series.timestamps.length - 1)])
+    .range([0, SPARKLINE_WIDTH])
+  const y = d3
+    .scaleLinear()
+    .domain([0, max])
+    .range([SPARKLINE_HEIGHT - 2, 2])
+  const line = d3
+    .line<number>()
+    .x((_, i) => x(i))
+    .y((d) => y(d))
+
+  return (
+    <svg width={SPARKLINE_WIDTH} height={SPARKLINE_HEIGHT} className="bg-white/5 rounded">
+      <path d={line(series.inbound) ?? ""} fill="none" stroke={NEON_COLORS.router} strokeWidth={1.5} />
+      <path d={line(series.outbound) ?? ""} fill="none" stroke={NEON_COLORS.endpoint} strokeWidth={1.5} />
+    </svg>
+  )
+}
+
+function ServiceList({ label, services }: { label: string; services: ServiceUsage[] }) {
+  if (services.length === 0) return null
+  return (
+    <div>
+      <span className="text-neutral-500">{label}:</span>{" "}
+      {services.map((service, index) => (
+        <span key={`${service.protocol}/${service.port}`}>
+          {index > 0 && ", "}
+          <span
+            style={{ color: PROTOCOL_COLORS[service.protocol] }}
+            title={`${service.protocol}/${service.port} · ${service.packets.toLocaleString()} packets · ${service.peers} ${service.peers === 1 ? "peer" : "peers"}`}
+          >
+            {service.label}
+          </span>
+        </span>
+      ))}
+    </div>
+  )
+}
+
+function formatTime(timestamp?: number): string {
+  return timestamp === undefined ? "—" : new Date(timestamp * 1000).toLocaleTimeString([], { hour12: false })
+}
+
+export function NodeDetailPanel({
+  node,
+  peers,
+  services,
+  series,
+  firstSeen,
+  lastSeen,
+  sensors,
+  onSelectPeer,
+  onEdit,
+  onClose,
+}: NodeDetailPanelProps) {
+  const color = node.role === "Router" ? NEON_COLORS.router : NEON_COLORS.endpoint
+  const currentIn = series.inbound[series.inbound.length - 1] ?? 0
+  const currentOut = series.outbound[series.outbound.length - 1] ?? 0
+  const scope = node.cluster ? "global" : ipScope(node.ip)
+
+  return (
+    <div className="absolute top-2 right-2 bottom-16 z-20 w-64 flex flex-col bg-black/90 border border-neutral-700 rounded-md font-mono text-xs text-neutral-400 shadow-lg">
+      <div className="flex items-start justify-between px-3 py-2 border-b border-neutral-800">
+        <div className="min-w-0">
+          <div className="text-white font-medium">{node.name}</div>
+          <div className="break-all">{node.ip}</div>
+        </div>
+        <div className="flex gap-2">
+          {onEdit && !node.cluster && (
+            <button onClick={onEdit} className="cursor-pointer text-neutral-500 hover:text-white">
+              Edit
+            </button>
+          )}
+          <button
+            onClick={onClose}
+            aria-label="Close node details"
+            className="cursor-pointer text-neutral-500 hover:text-white"
+          >
+            ✕
+          </button>
+        </div>
+      </div>
+
+      <div className="px-3 py-2 space-y-0.5 border-b border-neutral-800">
+        <div>
+          <span className="text-neutral-500">Role:</span> <span style={{ color }}>{node.role}</span>
+        </div>
+        {scope !== "global" && (
+          <div>
+            <span className="text-neutral-500">Scope:</span> {scope}
+          </div>
+        )}
+        <div>
+          <span className="text-neutral-500">Packets:</span> {node.packets?.toLocaleString() ?? "—"}
+        </div>
+        <div>
+          <span className="text-neutral-500">First seen:</span> {formatTime(firstSeen)}
+        </div>
+        <div>
+          <span className="text-neutral-500">Last seen:</span> {formatTime(lastSeen)}
+        </div>
+        {node.tags && node.tags.length > 0 && (
+          <div>
+            <span className="text-neutral-500">Tags:</span> {node.tags.join(", ")}
+          </div>
+        )}
+        {sensors && node.sensors && (
+          <div>
+            <span className="text-neutral-500">Seen by:</span>{" "}
+            <SensorBadges ids={node.sensors} sensors={sensors} showNames />
+          </div>
+        )}
+      </div>
+
+      {(services.exposed.length > 0 || services.consumed.length > 0) && (
+        <div className="px-3 py-2 space-y-0.5 border-b border-neutral-800">
+          <ServiceList label="Serves" services={services.exposed} />
+          <ServiceList label="Uses" services={services.consumed} />
+        </div>
+      )}
+
+      <div className="px-3 py-2 border-b border-neutral-800">
+        <div className="flex justify-between mb-1">
+          <span style={{ color: NEON_COLORS.router }}>in {formatRate(currentIn)}</span>
+          <span style={{ color: NEON_COLORS.endpoint }}>out {formatRate(currentOut)}</span>
+        </div>
+        <Sparkline series={series} />
+      </div>
+
+      <div className="px-3 pt-2 text-neutral-500">Peers ({peers.length})</div>
+      <ul className="flex-1 overflow-y-auto px-1 pb-2">
+        {peers.map((peer) => (
+          <li key={peer.node.id}>
+            <button
+              onClick={() => onSelectPeer(peer.node)}
+              className="cursor-pointer w-full flex justify-between gap-2 px-2 py-0.5 rounded hover:bg-white/10 text-left"
+            >
+              <span className="flex items-center gap-1.5 min-w-0">
+                <span className="truncate text-neutral-300" title={peer.node.ip}>
+                  {abbreviateIP(peer.node.ip)}
+                </span>
+                {sensors && <SensorBadges ids={peer.sensors} sensors={sensors} />}
+              </span>
+              <span className="shrink-0">
+                <span style={{ color: NEON_COLORS.router }}>↓{peer.inbound.toFixed(1)}</span>{" "}
+                <span style={{ color: NEON_COLORS.endpoint }}>↑{peer.outbound.toFixed(1)}</span>
+              </span>
+            </button>
+          </li>
+        ))}
+      </ul>
+    </div>
+  )
+}
@@ -0,0 +1,124 @@
+"use client"
+
+import { NEON_COLORS } from "@/lib/colors"
+import { abbreviateIP } from "@/lib/ip"
+import { PATH_METRIC_LABELS, type PathMetric, type TracedPath } from "@/lib/path-trace"
+import type { NetworkNode } from "@/lib/topology"
+import { formatRate } from "@/lib/traffic-rates"
+
+interface PathPanelProps {
+  source: NetworkNode | null
+  target: NetworkNode | null
+  metric: PathMetric
+  path: TracedPath | null
+  onMetricChange: (metric: PathMetric) => void
+  onSelectNode: (node: NetworkNode) => void
+  onSwap: () => void
+  onClose: () => void
+}
+
+function Endpoint({ label, node }: { label: string; node: NetworkNode | null }) {
+  return (
+    <div className="flex gap-1 min-w-0">
+      <span className="text-neutral-500 shrink-0">{label}:</span>
+      {node ? (
+        <span className="truncate text-neutral-200" title={node.ip}>
+          {node.name}
+        </span>
+      ) : (
+        <span className="text-neutral-600">click a node</span>
+      )}
+    </div>
+  )
+}
+
+/** Picks the two ends of a path and lists its hops, with the traffic each one carries along the path. */
+export function PathPanel({
+  source,
+  target,
+  metric,
+  path,
+  onMetricChange,
+  onSelectNode,
+  onSwap,
+  onClose,
+}: PathPanelProps) {
+  const intermediate = path ? path.nodes.slice(1, -1) : []
+
+  return (
+    <div className="absolute top-2 right-2 bottom-16 z-20 w-64 flex flex-col bg-black/90 border border-neutral-700 rounded-md font-mono text-xs text-neutral-400 shadow-lg">
+      <div className="flex items-center justify-between px-3 py-2 border-b border-neutral-800">
+        <span className="text-white font-medium">Path</span>
+        <div className="flex gap-2">
+          {source && target && (
+            <button onClick={onSwap} className="cursor-pointer text-neutral-500 hover:text-white">
+              Swap
+            </button>
+          )}
+          <button onClick={onClose} aria-label="Close path tracing" className="cursor-pointer hover:text-white">
+            ✕
+          </button>
+        </div>
+      </div>
+
+      <div className="px-3 py-2 space-y-0.5 border-b border-neutral-800">
+        <Endpoint label="From" node={source} />
+        <Endpoint label="To" node={target} />
+        <div className="flex gap-2 pt-1">
+          {(Object.keys(PATH_METRIC_LABELS) as PathMetric[]).map((option) => (
+            <button
+              key={option}
+              aria-pressed={metric === option}
+              onClick={() => onMetricChange(option)}
+              className={`cursor-pointer ${metric === option ? "text-white underline" : "text-neutral-500 hover:text-white"}`}
+            >
+              {PATH_METRIC_LABELS[option]}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {source && target && !path && (
+        <div className="px-3 py-2 text-neutral-500">No observed links connect these nodes.</div>
+      )}
+
+      {path && (
+        <>
+          <div className="px-3 py-2 space-y-0.5 border-b border-neutral-800">
+            <div>
+              <span className="text-neutral-500">Hops:</span> {path.hops.length}
+            </div>
+            <div>
+              <span className="text-neutral-500">Via:</span>{" "}
+              {intermediate.length === 0 ? "direct" : intermediate.map((node) => node.name).join(", ")}
+            </div>
+          </div>
+          <ol className="flex-1 overflow-y-auto px-1 py-1">
+            {path.nodes.map((node, index) => {
+              const hop = path.hops[index]
+              return (
+                <li key={node.id}>
+                  <button
+                    onClick={() => onSelectNode(node)}
+                    className="cursor-pointer w-full flex justify-between gap-2 px-2 py-0.5 rounded hover:bg-white/10 text-left"
+                  >
+                    <span className="truncate text-neutral-300">{node.name}</span>
+                    <span className="shrink-0 text-neutral-500" title={node.ip}>
+                      {abbreviateIP(node.ip, 15)}
+                    </span>
+                  </button>
+                  {hop && (
+                    <div className="pl-4 text-neutral-500">
+                      ↓ <span style={{ color: NEON_COLORS.endpoint }}>{formatRate(hop.forward)}</span> ·{" "}
+                      <span style={{ color: NEON_COLORS.router }}>↑ {formatRate(hop.reverse)}</span>
+                    </div>
+                  )}
+                </li>
+              )
+            })}
+          </ol>
+        </>
+      )}
+    </div>
+  )
+}
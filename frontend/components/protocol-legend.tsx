@@ -0,0 +1,50 @@
+"use client"
+
+import { NEON_COLORS, PROTOCOL_COLORS } from "@/lib/colors"
+import { PROTOCOL_LABELS, PROTOCOLS } from "@/lib/protocols"
+
+interface ProtocolLegendProps {
+  byProtocol: boolean
+  onChange: (byProtocol: boolean) => void
+}
+
+const DIRECTION_KEYS = [
+  { label: "Active", color: NEON_COLORS.edgeActive },
+  { label: "Asymmetric", color: NEON_COLORS.edgeAsymmetric },
+]
+
+/** Key for the link colours, which follow either each link's busiest protocol or its direction balance. */
+export function ProtocolLegend({ byProtocol, onChange }: ProtocolLegendProps) {
+  const keys = byProtocol
+    ? PROTOCOLS.map((protocol) => ({ label: PROTOCOL_LABELS[protocol], color: PROTOCOL_COLORS[protocol] }))
+    : DIRECTION_KEYS
+
+  return (
+    <div className="pt-1">
+      <div className="flex items-center gap-2 text-neutral-400">
+        Links by
+        {[
+          { value: true, label: "protocol" },
+          { value: false, label: "direction" },
+        ].map((option) => (
+          <button
+            key={option.label}
+            aria-pressed={byProtocol === option.value}
+            onClick={() => onChange(option.value)}
+            className={`cursor-pointer ${byProtocol === option.value ? "text-white underline" : "text-neutral-500 hover:text-white"}`}
+          >
+            {option.label}
+          </button>
+        ))}
+      </div>
+      <div className="flex flex-wrap gap-x-3 text-neutral-500">
+        {keys.map((key) => (
+          <span key={key.label} className="flex items-center gap-1">
+            <span className="w-3 h-0.5 rounded-full" style={{ background: key.color }} />
+            {key.label}
+          </span>
+        ))}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,26 @@
+"use client"
+
+import type { Sensor } from "@/lib/sensors"
+
+interface SensorBadgesProps {
+  ids?: string[]
+  sensors: Sensor[]
+  showNames?: boolean
+}
+
+/** Coloured dots (optionally named) for the sensors that observed a node or flow. */
+export function SensorBadges({ ids, sensors, showNames = false }: SensorBadgesProps) {
+  if (!ids || ids.length === 0) return null
+  const observed = sensors.filter((sensor) => ids.includes(sensor.id))
+
+  return (
+    <span className="inline-flex flex-wrap items-center gap-x-2" title={observed.map((s) => s.name).join(", ")}>
+      {observed.map((sensor) => (
+        <span key={sensor.id} className="inline-flex items-center gap-1">
+          <span className="inline-block w-1.5 h-1.5 rounded-full" style={{ background: sensor.color }} />
+          {showNames && <span style={{ color: sensor.color }}>{sensor.name}</span>}
+        </span>
+      ))}
+    </span>
+  )
+}
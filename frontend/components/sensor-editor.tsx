@@ -0,0 +1,160 @@
+"use client"
+
+import { useState } from "react"
+import { Button } from "@/components/ui/button"
+import { isSourceUrl } from "@/lib/data-source"
+import { createSensorId, SENSOR_COLORS, type Sensor } from "@/lib/sensors"
+import type { HealthResult } from "@/lib/settings"
+import type { StreamStatus } from "@/lib/topology-stream"
+
+interface SensorEditorProps {
+  sensors: Sensor[]
+  statuses: Record<string, StreamStatus>
+  onChange: (sensors: Sensor[]) => void
+  onTest: (sensor: Sensor) => Promise<HealthResult>
+}
+
+const STATUS_CLASSES: Record<StreamStatus, string> = {
+  live: "text-green-400",
+  polling: "text-green-400",
+  connecting: "text-yellow-400",
+  reconnecting: "text-yellow-400",
+  disconnected: "text-red-400",
+}
+
+const inputClassName =
+  "bg-transparent border border-neutral-800 rounded px-1.5 py-0.5 text-neutral-200 placeholder:text-neutral-600 outline-none focus:border-neutral-500"
+
+/** The backends to connect to, each with its stream health and a `/api/health` check. */
+export function SensorEditor({ sensors, statuses, onChange, onTest }: SensorEditorProps) {
+  const [draft, setDraft] = useState({ name: "", url: "" })
+  const [results, setResults] = useState<Record<string, HealthResult | "testing">>({})
+
+  const test = async (sensor: Sensor) => {
+    setResults((prev) => ({ ...prev, [sensor.id]: "testing" }))
+    const result = await onTest(sensor)
+    setResults((prev) => ({ ...prev, [sensor.id]: result }))
+  }
+
+  const updateSensor = (id: string, patch: Partial<Sensor>) =>
+    onChange(sensors.map((sensor) => (sensor.id === id ? { ...sensor, ...patch } : sensor)))
+
+  const draftIsValid = isSourceUrl(draft.url.trim())
+  const submitDraft = () => {
+    if (!draftIsValid) return
+    const url = draft.url.trim().replace(/\/+$/, "")
+    onChange([
+      ...sensors,
+      {
+        id: createSensorId(),
+        name: draft.name.trim() || url,
+        url,
+        color: SENSOR_COLORS[sensors.length % SENSOR_COLORS.length],
+      },
+    ])
+    setDraft({ name: "", url: "" })
+  }
+
+  return (
+    <div>
+      <div className="flex items-center gap-2 py-2">
+        <input
+          aria-label="Sensor name"
+          placeholder="Name"
+          className={`${inputClassName} w-32`}
+          value={draft.name}
+          onChange={(event) => setDraft({ ...draft, name: event.target.value })}
+        />
+        <input
+          aria-label="Sensor URL"
+          placeholder="http://sensor:5000"
+          className={`${inputClassName} flex-1`}
+          value={draft.url}
+          onChange={(event) => setDraft({ ...draft, url: event.target.value })}
+          onKeyDown={(event) => event.key === "Enter" && submitDraft()}
+        />
+        <Button size="sm" onClick={submitDraft} disabled={!draftIsValid} className="cursor-pointer h-6 rounded">
+          Add
+        </Button>
+      </div>
+
+      <table className="w-full">
+        <thead className="text-neutral-500 text-left">
+          <tr>
+            <th className="font-normal">Colour</th>
+            <th className="font-normal">Name</th>
+            <th className="font-normal">URL</th>
+            <th className="font-normal">Status</th>
+            <th className="font-normal">Health check</th>
+            <th />
+          </tr>
+        </thead>
+        <tbody>
+          {sensors.map((sensor) => (
+            <tr key={sensor.id}>
+              <td className="pr-2">
+                <input
+                  type="color"
+                  aria-label={`Colour for ${sensor.name}`}
+                  className="w-6 h-5 bg-transparent cursor-pointer"
+                  value={sensor.color}
+                  onChange={(event) => updateSensor(sensor.id, { color: event.target.value })}
+                />
+              </td>
+              <td className="pr-2">
+                <input
+                  aria-label={`Name for ${sensor.name}`}
+                  className={`${inputClassName} w-full`}
+                  value={sensor.name}
+                  onChange={(event) => updateSensor(sensor.id, { name: event.target.value })}
+                />
+              </td>
+              <td className="pr-2">
+                {/* Committed on blur, since every change of URL reconnects the sensor */}
+                <input
+                  aria-label={`URL for ${sensor.name}`}
+                  className={`${inputClassName} w-full`}
+                  defaultValue={sensor.url}
+                  onBlur={(event) => {
+                    const url = event.target.value.trim().replace(/\/+$/, "")
+                    if (isSourceUrl(url) && url !== sensor.url) updateSensor(sensor.id, { url })
+                    else event.target.value = sensor.url
+                  }}
+                />
+              </td>
+              <td className={`pr-2 ${STATUS_CLASSES[statuses[sensor.id] ?? "connecting"]}`}>
+                {statuses[sensor.id] ?? "connecting"}
+              </td>
+              <td className="pr-2 whitespace-nowrap">
+                <button onClick={() => test(sensor)} className="cursor-pointer hover:text-white">
+                  Test
+                </button>{" "}
+                <HealthLabel result={results[sensor.id]} />
+              </td>
+              <td>
+                <button
+                  onClick={() => onChange(sensors.filter((s) => s.id !== sensor.id))}
+                  disabled={sensors.length === 1}
+                  aria-label={`Remove ${sensor.name}`}
+                  className="cursor-pointer hover:text-white disabled:cursor-default disabled:opacity-30"
+                >
+                  ✕
+                </button>
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  )
+}
+
+function HealthLabel({ result }: { result?: HealthResult | "testing" }) {
+  if (!result) return null
+  if (result === "testing") return <span className="text-neutral-500">…</span>
+  return (
+    <span className={result.ok ? "text-green-400" : "text-red-400"}>
+      {result.message} · {result.latency} ms
+    </span>
+  )
+}
@@ -0,0 +1,212 @@
+"use client"
+
+import { useState } from "react"
+import { Button } from "@/components/ui/button"
+import { SensorEditor } from "@/components/sensor-editor"
+import { checkSourceHealth, simulatorSensor, simulatorUrl, type SimulatorSettings } from "@/lib/data-source"
+import { SENSOR_COLORS, type Sensor } from "@/lib/sensors"
+import {
+  authHeaders,
+  MIN_POLL_INTERVAL,
+  MIN_STALE_AFTER,
+  normalizeSettings,
+  type AuthMode,
+  type ConnectionSettings,
+} from "@/lib/settings"
+import { SCENARIOS, type Scenario } from "@/lib/simulator"
+import type { StreamStatus } from "@/lib/topology-stream"
+
+interface SettingsPanelProps {
+  settings: ConnectionSettings
+  sensors: Sensor[]
+  statuses: Record<string, StreamStatus>
+  onSettingsChange: (settings: ConnectionSettings) => void
+  onSensorsChange: (sensors: Sensor[]) => void
+  onClose: () => void
+}
+
+const AUTH_MODES: { value: AuthMode; label: string }[] = [
+  { value: "none", label: "None" },
+  { value: "token", label: "Bearer token" },
+  { value: "basic", label: "Basic auth" },
+]
+
+const inputClassName =
+  "bg-transparent border border-neutral-800 rounded px-1.5 py-0.5 text-neutral-200 placeholder:text-neutral-600 outline-none focus:border-neutral-500"
+
+/**
+ * Connection settings, applied together since changing them reconnects every sensor. Health checks use
+ * the settings as edited, so credentials can be tried before they are applied.
+ */
+export function SettingsPanel({
+  settings,
+  sensors,
+  statuses,
+  onSettingsChange,
+  onSensorsChange,
+  onClose,
+}: SettingsPanelProps) {
+  const [draft, setDraft] = useState(settings)
+  const updateAuth = (patch: Partial<ConnectionSettings["auth"]>) =>
+    setDraft({ ...draft, auth: { ...draft.auth, ...patch } })
+  const changed = JSON.stringify(draft) !== JSON.stringify(settings)
+  const [simulation, setSimulation] = useState<SimulatorSettings>({ scenario: "office", seed: 1 })
+  const simulationAdded = sensors.some((sensor) => sensor.url === simulatorUrl(simulation))
+
+  return (
+    <div className="absolute inset-2 z-30 flex flex-col bg-black/95 border border-neutral-700 rounded-md font-mono text-xs text-neutral-400 shadow-lg">
+      <div className="flex items-center justify-between px-3 py-2 border-b border-neutral-800">
+        <span className="text-white font-medium">Settings</span>
+        <button onClick={onClose} aria-label="Close settings" className="cursor-pointer hover:text-white">
+          ✕
+        </button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto px-3 py-2 space-y-3">
+        <section className="space-y-1">
+          <div className="text-neutral-500">Connection</div>
+          <label className="flex items-center gap-2">
+            <span className="w-32">Poll interval (s)</span>
+            <input
+              type="number"
+              min={MIN_POLL_INTERVAL / 1000}
+              step={0.5}
+              className={`${inputClassName} w-20`}
+              value={Number.isFinite(draft.pollInterval) ? draft.pollInterval / 1000 : ""}
+              onChange={(event) => setDraft({ ...draft, pollInterval: parseFloat(event.target.value) * 1000 })}
+            />
+          </label>
+          <label className="flex items-center gap-2">
+            <span className="w-32">Stale after (s)</span>
+            <input
+              type="number"
+              min={MIN_STALE_AFTER}
+              className={`${inputClassName} w-20`}
+              value={Number.isFinite(draft.staleAfter) ? draft.staleAfter : ""}
+              onChange={(event) => setDraft({ ...draft, staleAfter: parseFloat(event.target.value) })}
+            />
+          </label>
+          <label className="flex items-center gap-2">
+            <span className="w-32">Authentication</span>
+            <select
+              className={`${inputClassName} bg-neutral-950`}
+              value={draft.auth.mode}
+              onChange={(event) => updateAuth({ mode: event.target.value as AuthMode })}
+            >
+              {AUTH_MODES.map((mode) => (
+                <option key={mode.value} value={mode.value}>
+                  {mode.label}
+                </option>
+              ))}
+            </select>
+          </label>
+          {draft.auth.mode === "token" && (
+            <label className="flex items-center gap-2">
+              <span className="w-32">Token</span>
+              <input
+                type="password"
+                autoComplete="off"
+                className={`${inputClassName} flex-1`}
+                value={draft.auth.token}
+                onChange={(event) => updateAuth({ token: event.target.value })}
+              />
+            </label>
+          )}
+          {draft.auth.mode === "basic" && (
+            <>
+              <label className="flex items-center gap-2">
+                <span className="w-32">Username</span>
+                <input
+                  autoComplete="off"
+                  className={`${inputClassName} w-40`}
+                  value={draft.auth.username}
+                  onChange={(event) => updateAuth({ username: event.target.value })}
+                />
+              </label>
+              <label className="flex items-center gap-2">
+                <span className="w-32">Password</span>
+                <input
+                  type="password"
+                  autoComplete="off"
+                  className={`${inputClassName} w-40`}
+                  value={draft.auth.password}
+                  onChange={(event) => updateAuth({ password: event.target.value })}
+                />
+              </label>
+            </>
+          )}
+          <div className="flex items-center gap-2 pt-1">
+            <Button
+              size="sm"
+              onClick={() => onSettingsChange(normalizeSettings(draft))}
+              disabled={!changed}
+              className="cursor-pointer h-6 rounded"
+            >
+              Apply
+            </Button>
+            {changed && <span className="text-neutral-500">Applying reconnects every backend</span>}
+          </div>
+        </section>
+
+        <section>
+          <div className="text-neutral-500">Backends</div>
+          <SensorEditor
+            sensors={sensors}
+            statuses={statuses}
+            onChange={onSensorsChange}
+            onTest={(sensor) => checkSourceHealth(sensor.url, authHeaders(draft.auth))}
+          />
+        </section>
+
+        <section className="space-y-1">
+          <div className="text-neutral-500">Simulator</div>
+          <div className="flex items-center gap-2">
+            <select
+              aria-label="Scenario"
+              className={`${inputClassName} bg-neutral-950`}
+              value={simulation.scenario}
+              onChange={(event) => setSimulation({ ...simulation, scenario: event.target.value as Scenario })}
+            >
+              {SCENARIOS.map((scenario) => (
+                <option key={scenario.value} value={scenario.value}>
+                  {scenario.label}
+                </option>
+              ))}
+            </select>
+            <label className="flex items-center gap-1">
+              Seed
+              <input
+                type="number"
+                step={1}
+                className={`${inputClassName} w-20`}
+                value={simulation.seed}
+                onChange={(event) => setSimulation({ ...simulation, seed: parseInt(event.target.value, 10) || 0 })}
+              />
+            </label>
+            <Button
+              size="sm"
+              disabled={simulationAdded}
+              onClick={() =>
+                onSensorsChange([
+                  ...sensors,
+                  simulatorSensor(simulation, SENSOR_COLORS[sensors.length % SENSOR_COLORS.length]),
+                ])
+              }
+              className="cursor-pointer h-6 rounded"
+            >
+              Add
+            </Button>
+          </div>
+          <div className="text-neutral-500">
+            {SCENARIOS.find((scenario) => scenario.value === simulation.scenario)?.description}. The same seed always
+            replays the same traffic; open the app with{" "}
+            <code>
+              ?simulate={simulation.scenario}&amp;seed={simulation.seed}
+            </code>{" "}
+            to run it alone.
+          </div>
+        </section>
+      </div>
+    </div>
+  )
+}
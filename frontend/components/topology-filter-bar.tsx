@@ -0,0 +1,126 @@
+"use client"
+
+import { NEON_COLORS, PROTOCOL_COLORS } from "@/lib/colors"
+import { PROTOCOL_LABELS, PROTOCOLS } from "@/lib/protocols"
+import type { Sensor } from "@/lib/sensors"
+import type { NetworkNode } from "@/lib/topology"
+import { DEFAULT_FILTER, isFilterActive, type TopologyFilter } from "@/lib/topology-filter"
+
+interface TopologyFilterBarProps {
+  filter: TopologyFilter
+  sensors: Sensor[]
+  onChange: (filter: TopologyFilter) => void
+}
+
+const ROLES: NetworkNode["role"][] = ["Router", "Server", "Client"]
+const MAX_TRAFFIC_THRESHOLD = 100
+
+const inputClassName =
+  "bg-transparent border border-neutral-800 rounded px-2 py-1 text-neutral-200 placeholder:text-neutral-600 outline-none focus:border-neutral-500"
+
+export function TopologyFilterBar({ filter, sensors, onChange }: TopologyFilterBarProps) {
+  const update = (patch: Partial<TopologyFilter>) => onChange({ ...filter, ...patch })
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 w-full font-mono text-xs text-neutral-400">
+      <input
+        type="search"
+        aria-label="Search nodes"
+        placeholder="Search name or IP"
+        className={`${inputClassName} w-40`}
+        value={filter.query}
+        onChange={(event) => update({ query: event.target.value })}
+      />
+      <input
+        aria-label="Include CIDRs"
+        placeholder="Include CIDRs"
+        className={`${inputClassName} w-32`}
+        value={filter.include}
+        onChange={(event) => update({ include: event.target.value })}
+      />
+      <input
+        aria-label="Exclude CIDRs"
+        placeholder="Exclude e.g. 10.0.0.0/8"
+        className={`${inputClassName} w-40`}
+        value={filter.exclude}
+        onChange={(event) => update({ exclude: event.target.value })}
+      />
+      <div className="flex gap-1">
+        {ROLES.map((role) => (
+          <button
+            key={role}
+            aria-pressed={filter.roles[role]}
+            onClick={() => update({ roles: { ...filter.roles, [role]: !filter.roles[role] } })}
+            className={`cursor-pointer px-2 py-1 rounded border ${
+              filter.roles[role] ? "border-neutral-600 text-white" : "border-neutral-800 text-neutral-600 line-through"
+            }`}
+            style={filter.roles[role] ? { color: role === "Router" ? NEON_COLORS.router : NEON_COLORS.endpoint } : {}}
+          >
+            {role}
+          </button>
+        ))}
+      </div>
+      <div className="flex gap-1">
+        {PROTOCOLS.map((protocol) => (
+          <button
+            key={protocol}
+            aria-pressed={filter.protocols[protocol]}
+            onClick={() => update({ protocols: { ...filter.protocols, [protocol]: !filter.protocols[protocol] } })}
+            className={`cursor-pointer px-2 py-1 rounded border ${
+              filter.protocols[protocol] ? "border-neutral-600" : "border-neutral-800 text-neutral-600 line-through"
+            }`}
+            style={filter.protocols[protocol] ? { color: PROTOCOL_COLORS[protocol] } : {}}
+          >
+            {PROTOCOL_LABELS[protocol]}
+          </button>
+        ))}
+      </div>
+      {sensors.length > 1 && (
+        <div className="flex gap-1">
+          {sensors.map((sensor) => {
+            const included = !filter.excludedSensors.includes(sensor.id)
+            return (
+              <button
+                key={sensor.id}
+                aria-pressed={included}
+                title={sensor.url}
+                onClick={() =>
+                  update({
+                    excludedSensors: included
+                      ? [...filter.excludedSensors, sensor.id]
+                      : filter.excludedSensors.filter((id) => id !== sensor.id),
+                  })
+                }
+                className={`cursor-pointer px-2 py-1 rounded border ${
+                  included ? "border-neutral-600" : "border-neutral-800 text-neutral-600 line-through"
+                }`}
+                style={included ? { color: sensor.color } : {}}
+              >
+                {sensor.name}
+              </button>
+            )
+          })}
+        </div>
+      )}
+      <label className="flex items-center gap-1">
+        <span>≥</span>
+        <input
+          type="range"
+          aria-label="Minimum traffic"
+          className="w-24 accent-[#BD00FF] cursor-pointer"
+          min={0}
+          max={MAX_TRAFFIC_THRESHOLD}
+          step={0.5}
+          value={filter.minTraffic}
+          onChange={(event) => update({ minTraffic: parseFloat(event.target.value) })}
+        />
+        <span className="w-16">{filter.minTraffic.toFixed(1)} p/s</span>
+      </label>
+      {isFilterActive(filter) && (
+        <button onClick={() => onChange(DEFAULT_FILTER)} className="cursor-pointer text-neutral-500 hover:text-white">
+          Clear
+        </button>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,120 @@
+"use client"
+
+import { SensorBadges } from "@/components/sensor-badges"
+import { flowLabel } from "@/lib/protocols"
+import type { Sensor } from "@/lib/sensors"
+import type { NetworkLink, NetworkNode } from "@/lib/topology"
+import { formatRate } from "@/lib/traffic-rates"
+
+interface TopologyTableProps {
+  nodes: NetworkNode[]
+  links: NetworkLink[]
+  selectedNodeId: string | null
+  sensors?: Sensor[] // adds a column of the sensors that observed each flow
+  onSelectNode: (node: NetworkNode) => void
+}
+
+function describeLocation(node: NetworkNode): string {
+  const place = [node.location?.city, node.location?.country].filter(Boolean).join(", ")
+  return place || `${node.lat.toFixed(2)}, ${node.long.toFixed(2)}`
+}
+
+/** The topology as plain tables: an alternative to the map for screen readers and keyboard users. */
+export function TopologyTable({ nodes, links, selectedNodeId, sensors, onSelectNode }: TopologyTableProps) {
+  const nodeById = new Map(nodes.map((node) => [node.id, node]))
+  const sortedLinks = [...links].sort((a, b) => b.traffic - a.traffic)
+
+  return (
+    <div className="absolute inset-0 z-10 overflow-y-auto p-3 bg-black border border-neutral-800 rounded-lg font-mono text-xs text-neutral-400">
+      <table className="w-full mb-4">
+        <caption className="text-left text-white font-medium mb-1">Nodes ({nodes.length})</caption>
+        <thead className="text-neutral-500 text-left">
+          <tr>
+            <th scope="col" className="font-normal">
+              Name
+            </th>
+            <th scope="col" className="font-normal">
+              IP
+            </th>
+            <th scope="col" className="font-normal">
+              Role
+            </th>
+            <th scope="col" className="font-normal">
+              Status
+            </th>
+            <th scope="col" className="font-normal">
+              Location
+            </th>
+            <th scope="col" className="font-normal text-right">
+              Packets
+            </th>
+          </tr>
+        </thead>
+        <tbody>
+          {nodes.map((node) => (
+            <tr key={node.id} className={node.id === selectedNodeId ? "bg-white/10" : undefined}>
+              <th scope="row" className="font-normal text-left">
+                <button
+                  onClick={() => onSelectNode(node)}
+                  aria-pressed={node.id === selectedNodeId}
+                  className="cursor-pointer text-neutral-200 hover:text-white underline-offset-2 hover:underline"
+                >
+                  {node.name}
+                </button>
+              </th>
+              <td>{node.ip}</td>
+              <td>{node.cluster ? `Cluster of ${node.cluster.memberIds.length}` : node.role}</td>
+              <td>{node.status}</td>
+              <td>{describeLocation(node)}</td>
+              <td className="text-right">{node.packets?.toLocaleString() ?? "—"}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      <table className="w-full">
+        <caption className="text-left text-white font-medium mb-1">Links ({links.length})</caption>
+        <thead className="text-neutral-500 text-left">
+          <tr>
+            <th scope="col" className="font-normal">
+              From
+            </th>
+            <th scope="col" className="font-normal">
+              To
+            </th>
+            <th scope="col" className="font-normal text-right">
+              Traffic
+            </th>
+            <th scope="col" className="font-normal text-right">
+              Packets
+            </th>
+            <th scope="col" className="font-normal pl-3">
+              Protocols
+            </th>
+            {sensors && (
+              <th scope="col" className="font-normal pl-3">
+                Sensors
+              </th>
+            )}
+          </tr>
+        </thead>
+        <tbody>
+          {sortedLinks.map((link) => (
+            <tr key={`${link.source}>${link.target}`}>
+              <td>{nodeById.get(link.source)?.name ?? link.source}</td>
+              <td>{nodeById.get(link.target)?.name ?? link.target}</td>
+              <td className="text-right">{formatRate(link.traffic)}</td>
+              <td className="text-right">{link.packets.toLocaleString()}</td>
+              <td className="pl-3">{link.flows?.map(flowLabel).join(", ") || "—"}</td>
+              {sensors && (
+                <td className="pl-3">
+                  <SensorBadges ids={link.sensors} sensors={sensors} showNames />
+                </td>
+              )}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  )
+}
@@ -0,0 +1,101 @@
+"use client"
+
+import { Button } from "@/components/ui/button"
+
+export const REPLAY_SPEEDS = [1, 4, 16] as const
+export type ReplaySpeed = (typeof REPLAY_SPEEDS)[number]
+
+export interface PlaybackState {
+  cursor: number | null // snapshot timestamp being shown, null when following live data
+  playing: boolean
+  speed: ReplaySpeed
+}
+
+interface TopologyTimelineProps {
+  range: { start: number; end: number } | null
+  playback: PlaybackState
+  onScrub: (timestamp: number) => void
+  onGoLive: () => void
+  onPause: () => void
+  onTogglePlay: () => void
+  onSpeedChange: (speed: ReplaySpeed) => void
+  liveLabel?: string // what the newest position is called, e.g. "End" when replaying a capture
+}
+
+function formatClock(timestamp: number): string {
+  return new Date(timestamp * 1000).toLocaleTimeString([], { hour12: false })
+}
+
+function formatOffset(seconds: number): string {
+  const total = Math.round(seconds)
+  const minutes = Math.floor(total / 60)
+  return minutes > 0 ? `-${minutes}m${String(total % 60).padStart(2, "0")}s` : `-${total}s`
+}
+
+export function TopologyTimeline({
+  range,
+  playback,
+  onScrub,
+  onGoLive,
+  onPause,
+  onTogglePlay,
+  onSpeedChange,
+  liveLabel = "Live",
+}: TopologyTimelineProps) {
+  const isLive = playback.cursor === null
+  const position = isLive || !range ? (range?.end ?? 0) : playback.cursor!
+
+  return (
+    <div className="flex items-center gap-2 w-full font-mono text-xs text-neutral-400">
+      <Button
+        size="sm"
+        variant="outline"
+        onClick={isLive ? onPause : onGoLive}
+        disabled={!range}
+        className="cursor-pointer h-7 min-w-[64px] text-white border-white/20 hover:bg-white/10 bg-transparent rounded"
+      >
+        {isLive ? "Pause" : liveLabel}
+      </Button>
+      <Button
+        size="sm"
+        variant="outline"
+        onClick={onTogglePlay}
+        disabled={isLive}
+        className="cursor-pointer h-7 min-w-[64px] text-white border-white/20 hover:bg-white/10 bg-transparent rounded"
+      >
+        {playback.playing ? "Stop" : "Replay"}
+      </Button>
+      <div className="flex">
+        {REPLAY_SPEEDS.map((speed) => (
+          <button
+            key={speed}
+            onClick={() => onSpeedChange(speed)}
+            className={`cursor-pointer px-1.5 py-0.5 rounded ${
+              playback.speed === speed ? "bg-white/15 text-white" : "hover:text-white"
+            }`}
+          >
+            {speed}x
+          </button>
+        ))}
+      </div>
+      <input
+        type="range"
+        aria-label="Timeline"
+        className="flex-1 accent-[#BD00FF] cursor-pointer"
+        min={range?.start ?? 0}
+        max={range?.end ?? 0}
+        step={0.1}
+        value={position}
+        disabled={!range}
+        onChange={(event) => onScrub(parseFloat(event.target.value))}
+      />
+      <span className={`min-w-[120px] text-right ${isLive ? "text-green-400" : "text-yellow-400"}`}>
+        {!range
+          ? "No history"
+          : isLive
+            ? liveLabel.toUpperCase()
+            : `${formatClock(position)} ${formatOffset(range.end - position)}`}
+      </span>
+    </div>
+  )
+}
@@ -0,0 +1,68 @@
+import { describe, expect, it } from "vitest"
+import { aggregateTopology, clusterKeyFor, DEFAULT_AGGREGATION, type AggregationSettings } from "@/lib/aggregation"
+import { node } from "@/lib/test-fixtures"
+import type { TopologyData } from "@/lib/topology"
+import { applyTopologyFilter, DEFAULT_FILTER } from "@/lib/topology-filter"
+
+const PREFIX: AggregationSettings = { ...DEFAULT_AGGREGATION, mode: "prefix" }
+
+const topology: TopologyData = {
+  nodes: [
+    node("10.0.0.1", { role: "Router", status: "idle", packets: 1 }),
+    node("10.0.0.5", { packets: 1 }),
+    node("10.0.1.9", { status: "idle", packets: 1 }),
+  ],
+  links: [
+    { source: "10.0.0.5", target: "10.0.0.1", traffic: 3, packets: 30 },
+    { source: "10.0.0.5", target: "10.0.1.9", traffic: 1, packets: 10 },
+    { source: "10.0.0.1", target: "10.0.1.9", traffic: 2, packets: 20 },
+  ],
+}
+
+describe("clusterKeyFor", () => {
+  it("uses the configured prefix for each family", () => {
+    const settings = { mode: "prefix", prefix: 16, prefix6: 48 } as const
+    expect(clusterKeyFor(node("10.1.2.3"), settings)).toBe("10.1.0.0/16")
+    expect(clusterKeyFor(node("2001:db8:1:2::5"), settings)).toBe("2001:db8:1::/48")
+  })
+
+  it("groups by ASN when there is one", () => {
+    const settings: AggregationSettings = { ...DEFAULT_AGGREGATION, mode: "asn" }
+    const located = node("8.8.8.8", { location: { lat: 0, long: 0, asn: "AS15169", source: "database" } })
+    expect(clusterKeyFor(located, settings)).toBe("AS15169")
+    expect(clusterKeyFor(node("8.8.8.8"), settings)).toBeNull()
+  })
+})
+
+describe("aggregateTopology", () => {
+  it("collapses a shared prefix into one node and sums the links leaving it", () => {
+    const { nodes, links } = aggregateTopology(topology, PREFIX, new Set())
+    expect(nodes.map((n) => n.id)).toEqual(["cluster-10-0-0-0-24", "10.0.1.9"])
+    expect(nodes[0]).toMatchObject({
+      name: "10.0.0.0/24 (2)",
+      role: "Router",
+      status: "active",
+      packets: 2,
+      cluster: { key: "10.0.0.0/24", memberIds: ["10.0.0.1", "10.0.0.5"], memberIPs: ["10.0.0.1", "10.0.0.5"] },
+    })
+    expect(links).toEqual([{ source: "cluster-10-0-0-0-24", target: "10.0.1.9", traffic: 3, packets: 30 }])
+  })
+
+  it("leaves expanded clusters as they are", () => {
+    expect(aggregateTopology(topology, PREFIX, new Set(["10.0.0.0/24"])).nodes).toEqual(topology.nodes)
+  })
+
+  it("does nothing when aggregation is off", () => {
+    expect(aggregateTopology(topology, DEFAULT_AGGREGATION, new Set())).toBe(topology)
+  })
+
+  it("lets CIDR filters match clusters by their members' addresses", () => {
+    const aggregated = aggregateTopology(topology, PREFIX, new Set())
+    const ids = (include: string, exclude = "") => [
+      ...applyTopologyFilter(aggregated, { ...DEFAULT_FILTER, include, exclude }).nodeIds,
+    ]
+    expect(ids("10.0.0.5/32")).toEqual(["cluster-10-0-0-0-24"])
+    expect(ids("", "10.0.0.5/32")).toEqual(["cluster-10-0-0-0-24", "10.0.1.9"])
+    expect(ids("", "10.0.0.0/24")).toEqual(["10.0.1.9"])
+  })
+})
@@ -0,0 +1,110 @@
+import * as d3 from "d3"
+import { formatCidr, parseCidr, parseIP } from "@/lib/ip"
+import { mergeFlows } from "@/lib/protocols"
+import { unionSensors } from "@/lib/sensors"
+import type { NetworkLink, NetworkNode, TopologyData } from "@/lib/topology"
+
+export type AggregationMode = "none" | "prefix" | "asn"
+
+export interface AggregationSettings {
+  mode: AggregationMode
+  prefix: number // used when mode is "prefix"
+  prefix6: number // the same for IPv6 addresses
+}
+
+export const DEFAULT_AGGREGATION: AggregationSettings = { mode: "none", prefix: 24, prefix6: 64 }
+
+const ROLE_PRIORITY: NetworkNode["role"][] = ["Router", "Server", "Client"]
+
+export function clusterKeyFor(node: NetworkNode, settings: AggregationSettings): string | null {
+  if (settings.mode === "asn") return node.location?.asn ? `AS${node.location.asn.replace(/^AS/i, "")}` : null
+  if (settings.mode === "prefix") {
+    const prefix = parseIP(node.ip)?.version === 6 ? settings.prefix6 : settings.prefix
+    const cidr = parseCidr(`${node.ip}/${prefix}`)
+    return cidr ? formatCidr(cidr) : null
+  }
+  return null
+}
+
+function clusterNodeId(key: string): string {
+  return `cluster-${key.replace(/[^a-zA-Z0-9]/g, "-")}`
+}
+
+function createClusterNode(key: string, members: NetworkNode[]): NetworkNode {
+  const [long, lat] = d3.geoCentroid({
+    type: "MultiPoint",
+    coordinates: members.map((m) => [m.long, m.lat]),
+  })
+
+  return {
+    id: clusterNodeId(key),
+    name: `${key} (${members.length})`,
+    ip: key,
+    role: ROLE_PRIORITY.find((role) => members.some((m) => m.role === role))!,
+    lat,
+    long,
+    status: members.some((m) => m.status === "warning")
+      ? "warning"
+      : members.some((m) => m.status === "active")
+        ? "active"
+        : "idle",
+    packets: members.reduce((sum, m) => sum + (m.packets ?? 0), 0),
+    cluster: { key, memberIds: members.map((m) => m.id), memberIPs: members.map((m) => m.ip) },
+    sensors: members.reduce<string[] | undefined>((sensors, m) => unionSensors(sensors, m.sensors), undefined),
+  }
+}
+
+/**
+ * Collapses nodes sharing a prefix (or ASN) into cluster nodes and sums the traffic of the
+ * links between them. Clusters listed in `expanded` and groups of one are left as they are;
+ * links inside a cluster are dropped.
+ */
+export function aggregateTopology(
+  topology: TopologyData,
+  settings: AggregationSettings,
+  expanded: Set<string>,
+): TopologyData {
+  if (settings.mode === "none") return topology
+
+  const groups = new Map<string, NetworkNode[]>()
+  topology.nodes.forEach((node) => {
+    const key = clusterKeyFor(node, settings)
+    if (!key || expanded.has(key)) return
+    if (!groups.has(key)) groups.set(key, [])
+    groups.get(key)!.push(node)
+  })
+
+  const representative = new Map<string, string>()
+  const nodes: NetworkNode[] = []
+  topology.nodes.forEach((node) => {
+    const key = clusterKeyFor(node, settings)
+    const members = key ? groups.get(key) : undefined
+    if (!key || !members || members.length < 2) {
+      representative.set(node.id, node.id)
+      nodes.push(node)
+      return
+    }
+    const clusterId = clusterNodeId(key)
+    representative.set(node.id, clusterId)
+    if (members[0] === node) nodes.push(createClusterNode(key, members))
+  })
+
+  const links = new Map<string, NetworkLink>()
+  topology.links.forEach((link) => {
+    const source = representative.get(link.source)
+    const target = representative.get(link.target)
+    if (!source || !target || source === target) return
+    const key = `${source}>${target}`
+    const existing = links.get(key)
+    if (existing) {
+      existing.traffic += link.traffic
+      existing.packets += link.packets
+      existing.sensors = unionSensors(existing.sensors, link.sensors)
+      existing.flows = mergeFlows([existing.flows, link.flows])
+    } else {
+      links.set(key, { ...link, source, target })
+    }
+  })
+
+  return { nodes, links: Array.from(links.values()) }
+}
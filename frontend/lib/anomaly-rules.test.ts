@@ -0,0 +1,87 @@
+import { describe, expect, it } from "vitest"
+import {
+  applyAnomalyFlags,
+  createAnomalyState,
+  DEFAULT_ANOMALY_RULES,
+  evaluateAnomalyRules,
+  type AnomalyRule,
+  type AnomalyState,
+} from "@/lib/anomaly-rules"
+import { link, node } from "@/lib/test-fixtures"
+import type { TopologyData } from "@/lib/topology"
+
+const only = (id: AnomalyRule["id"]) => DEFAULT_ANOMALY_RULES.map((rule) => ({ ...rule, enabled: rule.id === id }))
+
+describe("evaluateAnomalyRules", () => {
+  it("flags fan-out once, when it starts", () => {
+    const peers = Array.from({ length: 21 }, (_, i) => node(`10.0.1.${i + 10}`))
+    const topology: TopologyData = {
+      nodes: [node("10.0.0.50"), ...peers],
+      links: peers.map((peer) => link("10.0.0.50", peer.id, 1)),
+    }
+
+    const first = evaluateAnomalyRules(topology, only("fan-out"), createAnomalyState(), 100)
+    expect(first.flagged).toEqual(new Set(["10.0.0.50"]))
+    expect(first.alerts).toMatchObject([{ ruleId: "fan-out", ip: "10.0.0.50", firedAt: 100 }])
+
+    const second = evaluateAnomalyRules(topology, only("fan-out"), first.state, 101)
+    expect(second.flagged).toEqual(new Set(["10.0.0.50"]))
+    expect(second.alerts).toEqual([])
+  })
+
+  it("flags traffic well above a warmed-up baseline", () => {
+    const topology = (rate: number): TopologyData => ({
+      nodes: [node("10.0.0.5"), node("10.0.0.6")],
+      links: [link("10.0.0.5", "10.0.0.6", rate)],
+    })
+    let state: AnomalyState = createAnomalyState()
+    for (let t = 0; t < 5; t++) {
+      const result = evaluateAnomalyRules(topology(4), only("traffic-spike"), state, t)
+      expect(result.flagged.size).toBe(0)
+      state = result.state
+    }
+    expect(evaluateAnomalyRules(topology(15), only("traffic-spike"), state, 5).flagged.size).toBe(0)
+    expect(evaluateAnomalyRules(topology(40), only("traffic-spike"), state, 5).flagged).toEqual(
+      new Set(["10.0.0.5", "10.0.0.6"]),
+    )
+  })
+
+  it("flags new IPs talking to a router, but not those present at startup", () => {
+    const rules = only("new-ip-to-router")
+    const router = node("10.0.0.1", { role: "Router" })
+    const start = evaluateAnomalyRules(
+      { nodes: [router, node("10.0.0.5")], links: [link("10.0.0.5", "10.0.0.1", 1)] },
+      rules,
+      createAnomalyState(),
+      0,
+    )
+    expect(start.flagged.size).toBe(0)
+
+    const joined: TopologyData = {
+      nodes: [router, node("10.0.0.5"), node("10.0.0.77")],
+      links: [link("10.0.0.5", "10.0.0.1", 1), link("10.0.0.77", "10.0.0.1", 1)],
+    }
+    const next = evaluateAnomalyRules(joined, rules, start.state, 10)
+    expect(next.flagged).toEqual(new Set(["10.0.0.77"]))
+    expect(next.alerts[0].message).toBe("New IP talking to router 10.0.0.1")
+
+    // Still flagged within the window, then forgotten
+    expect(evaluateAnomalyRules(joined, rules, next.state, 70).flagged.size).toBe(1)
+    expect(evaluateAnomalyRules(joined, rules, next.state, 71).flagged.size).toBe(0)
+  })
+
+  it("skips disabled rules", () => {
+    const rules = DEFAULT_ANOMALY_RULES.map((rule) => ({ ...rule, enabled: false }))
+    const peers = Array.from({ length: 30 }, (_, i) => node(`10.0.1.${i}`))
+    const topology = { nodes: [node("10.0.0.9"), ...peers], links: peers.map((peer) => link("10.0.0.9", peer.id, 1)) }
+    expect(evaluateAnomalyRules(topology, rules, createAnomalyState(), 0).flagged.size).toBe(0)
+  })
+})
+
+describe("applyAnomalyFlags", () => {
+  it("sets the warning status on flagged nodes only", () => {
+    const topology = { nodes: [node("a"), node("b")], links: [] }
+    expect(applyAnomalyFlags(topology, new Set(["b"])).nodes.map((n) => n.status)).toEqual(["active", "warning"])
+    expect(applyAnomalyFlags(topology, new Set())).toBe(topology)
+  })
+})
@@ -0,0 +1,151 @@
+import type { NetworkNode, TopologyData } from "@/lib/topology"
+
+export type AnomalyRule =
+  | { id: "fan-out"; label: string; enabled: boolean; maxPeers: number }
+  | { id: "traffic-spike"; label: string; enabled: boolean; factor: number; minRate: number }
+  | { id: "new-ip-to-router"; label: string; enabled: boolean; flagSeconds: number }
+
+export const DEFAULT_ANOMALY_RULES: AnomalyRule[] = [
+  { id: "fan-out", label: "Fan-out", enabled: true, maxPeers: 20 },
+  { id: "traffic-spike", label: "Traffic spike", enabled: true, factor: 5, minRate: 10 },
+  { id: "new-ip-to-router", label: "New IP → router", enabled: true, flagSeconds: 60 },
+]
+
+export interface AnomalyAlert {
+  id: string
+  ruleId: AnomalyRule["id"]
+  nodeId: string
+  ip: string
+  message: string
+  firedAt: number // unix seconds
+}
+
+/** What the engine remembers between updates. Treat as opaque and pass back in unchanged. */
+export interface AnomalyState {
+  baselines: Map<string, { rate: number; samples: number }>
+  seenIPs: Set<string>
+  newSince: Map<string, number>
+  firing: Set<string> // `${ruleId}:${ip}` pairs currently over their threshold
+  initialized: boolean
+}
+
+export function createAnomalyState(): AnomalyState {
+  return { baselines: new Map(), seenIPs: new Set(), newSince: new Map(), firing: new Set(), initialized: false }
+}
+
+export interface AnomalyResult {
+  state: AnomalyState
+  alerts: AnomalyAlert[] // only rules that started firing on this update
+  flagged: Set<string> // ids of nodes that currently trip any rule
+}
+
+// Weight of each new sample in a node's traffic baseline
+const BASELINE_ALPHA = 0.1
+// Samples needed before the spike rule trusts a baseline
+const BASELINE_WARMUP = 5
+
+/**
+ * Evaluates every enabled rule against the current topology. The first call only learns
+ * which IPs already exist so that startup doesn't report the whole network as new.
+ */
+export function evaluateAnomalyRules(
+  topology: TopologyData,
+  rules: AnomalyRule[],
+  previous: AnomalyState,
+  now: number,
+): AnomalyResult {
+  const state: AnomalyState = {
+    baselines: new Map(previous.baselines),
+    seenIPs: new Set(previous.seenIPs),
+    newSince: new Map(previous.newSince),
+    firing: new Set(),
+    initialized: true,
+  }
+  const nodeById = new Map(topology.nodes.map((n) => [n.id, n]))
+  const peers = new Map<string, Set<string>>()
+  const traffic = new Map<string, number>()
+  const addPeer = (id: string, peer: string, rate: number) => {
+    if (!peers.has(id)) peers.set(id, new Set())
+    peers.get(id)!.add(peer)
+    traffic.set(id, (traffic.get(id) ?? 0) + rate)
+  }
+  topology.links.forEach((link) => {
+    addPeer(link.source, link.target, link.traffic)
+    addPeer(link.target, link.source, link.traffic)
+  })
+
+  const alerts: AnomalyAlert[] = []
+  const flagged = new Set<string>()
+  const fire = (rule: AnomalyRule, node: NetworkNode, message: string) => {
+    const key = `${rule.id}:${node.ip}`
+    state.firing.add(key)
+    flagged.add(node.id)
+    if (!previous.firing.has(key)) {
+      alerts.push({ id: `${key}:${now}`, ruleId: rule.id, nodeId: node.id, ip: node.ip, message, firedAt: now })
+    }
+  }
+
+  topology.nodes.forEach((node) => {
+    const nodePeers = peers.get(node.id) ?? new Set<string>()
+    const rate = traffic.get(node.id) ?? 0
+    const baseline = state.baselines.get(node.ip)
+    const isNew = previous.initialized && !previous.seenIPs.has(node.ip)
+    if (isNew) state.newSince.set(node.ip, now)
+
+    rules.forEach((rule) => {
+      if (!rule.enabled) return
+      switch (rule.id) {
+        case "fan-out":
+          if (nodePeers.size > rule.maxPeers)
+            fire(rule, node, `Talking to ${nodePeers.size} peers (limit ${rule.maxPeers})`)
+          break
+        case "traffic-spike":
+          if (
+            baseline &&
+            baseline.samples >= BASELINE_WARMUP &&
+            rate >= rule.minRate &&
+            rate > rule.factor * baseline.rate
+          ) {
+            fire(
+              rule,
+              node,
+              `${rate.toFixed(1)} pkts/s is ${(rate / Math.max(baseline.rate, 0.01)).toFixed(0)}× baseline`,
+            )
+          }
+          break
+        case "new-ip-to-router": {
+          const since = state.newSince.get(node.ip)
+          if (since === undefined || now - since > rule.flagSeconds) break
+          const router = Array.from(nodePeers)
+            .map((id) => nodeById.get(id))
+            .find((peer) => peer?.role === "Router")
+          if (router) fire(rule, node, `New IP talking to router ${router.ip}`)
+          break
+        }
+      }
+    })
+
+    state.seenIPs.add(node.ip)
+    state.baselines.set(node.ip, {
+      rate: baseline ? baseline.rate + BASELINE_ALPHA * (rate - baseline.rate) : rate,
+      samples: (baseline?.samples ?? 0) + 1,
+    })
+  })
+
+  // Forget "new" markers once no rule can still use them
+  const flagWindow = Math.max(0, ...rules.map((rule) => (rule.id === "new-ip-to-router" ? rule.flagSeconds : 0)))
+  state.newSince.forEach((since, ip) => {
+    if (now - since > flagWindow) state.newSince.delete(ip)
+  })
+
+  return { state, alerts, flagged }
+}
+
+/** Marks flagged nodes with the "warning" status. */
+export function applyAnomalyFlags(topology: TopologyData, flagged: Set<string>): TopologyData {
+  if (flagged.size === 0) return topology
+  return {
+    nodes: topology.nodes.map((node) => (flagged.has(node.id) ? { ...node, status: "warning" } : node)),
+    links: topology.links,
+  }
+}
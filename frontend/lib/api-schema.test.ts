@@ -0,0 +1,93 @@
+import { describe, expect, it } from "vitest"
+import { SchemaError, validateTopologyDelta, validateTopologyResponse } from "@/lib/api-schema"
+
+describe("validateTopologyResponse", () => {
+  it("accepts an unversioned payload as version 1 and normalises addresses", () => {
+    const result = validateTopologyResponse({
+      nodes: [
+        { ip: "10.0.0.1", packets: 4, first_seen: 1, last_seen: null },
+        { ip: "2001:DB8::0001", packets: 2 },
+      ],
+      edges: [
+        {
+          source: "10.0.0.1",
+          target: "2001:db8::1",
+          weight: 2,
+          flows: [{ protocol: "tcp", port: 443, service: "https", weight: 2, extra: true }],
+        },
+      ],
+      timestamp: 100,
+    })
+    expect(result).toEqual({
+      value: {
+        nodes: [
+          { ip: "10.0.0.1", packets: 4, first_seen: 1, last_seen: undefined },
+          { ip: "2001:db8::1", packets: 2, first_seen: undefined, last_seen: undefined },
+        ],
+        edges: [
+          {
+            source: "10.0.0.1",
+            target: "2001:db8::1",
+            weight: 2,
+            flows: [{ protocol: "tcp", port: 443, service: "https", weight: 2 }],
+          },
+        ],
+        timestamp: 100,
+      },
+      version: 1,
+      issues: [],
+    })
+  })
+
+  it("drops malformed entries and edges to dropped nodes, reporting why", () => {
+    const { value, issues } = validateTopologyResponse({
+      schema_version: 1,
+      nodes: [{ ip: "10.0.0.1", packets: 1 }, { ip: "10.0.0.300", packets: 1 }, { ip: "10.0.0.2" }, "x"],
+      edges: [
+        { source: "10.0.0.1", target: "10.0.0.300", weight: 1 },
+        { source: "10.0.0.1", target: "10.0.0.1", weight: "1" },
+        { source: "10.0.0.1", target: "10.0.0.1", weight: 1, flows: [{ protocol: "tcp", port: 70000, weight: 1 }] },
+      ],
+      timestamp: 100,
+    })
+    expect(value.nodes).toHaveLength(1)
+    expect(value.edges).toEqual([])
+    expect(issues).toEqual([
+      "node 10.0.0.300 is not an IP address",
+      "node 10.0.0.2 has no packet count",
+      "node is not an object",
+      "edge 10.0.0.1→10.0.0.300 is not between IP addresses",
+      "edge 10.0.0.1→10.0.0.1 has no weight",
+      "…1 more dropped",
+    ])
+  })
+
+  it("rejects payloads it can't use at all", () => {
+    expect(() => validateTopologyResponse([])).toThrow(SchemaError)
+    expect(() => validateTopologyResponse({ schema_version: 2, nodes: [], edges: [], timestamp: 0 })).toThrow(
+      "Unsupported schema version 2",
+    )
+    expect(() => validateTopologyResponse({ nodes: [], timestamp: 0 })).toThrow('"edges" is missing or not an array')
+    expect(() => validateTopologyResponse({ nodes: [], edges: [] })).toThrow('"timestamp" is missing or not a number')
+  })
+})
+
+describe("validateTopologyDelta", () => {
+  it("validates each list of changes", () => {
+    const { value, issues } = validateTopologyDelta({
+      upserted_nodes: [{ ip: "10.0.0.1", packets: 1 }],
+      removed_nodes: ["10.0.0.2", 5],
+      upserted_edges: [],
+      removed_edges: [{ source: "10.0.0.1", target: "10.0.0.2" }, { source: "10.0.0.1" }],
+      timestamp: 101,
+    })
+    expect(value).toEqual({
+      upserted_nodes: [{ ip: "10.0.0.1", packets: 1, first_seen: undefined, last_seen: undefined }],
+      removed_nodes: ["10.0.0.2"],
+      upserted_edges: [],
+      removed_edges: [{ source: "10.0.0.1", target: "10.0.0.2" }],
+      timestamp: 101,
+    })
+    expect(issues).toEqual(["removed node is not an ip", "removed edge without source and target"])
+  })
+})
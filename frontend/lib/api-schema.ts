@@ -0,0 +1,173 @@
+import { normalizeIP } from "@/lib/ip"
+import type { ApiEdge, ApiFlow, ApiNode, ApiTopologyDelta, ApiTopologyResponse } from "@/lib/topology"
+
+// Payloads without a `schema_version` predate versioning and have the version 1 shape
+export const API_SCHEMA_VERSION = 1
+export const SUPPORTED_SCHEMA_VERSIONS = [1]
+
+// Issues listed per payload; anything beyond is summarised so one bad snapshot can't flood the log
+const MAX_ISSUES = 5
+
+/** A payload that can't be used at all: not an object, an unsupported version or missing collections. */
+export class SchemaError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = "SchemaError"
+  }
+}
+
+export interface Validated<T> {
+  value: T
+  version: number
+  issues: string[] // entries that were dropped, and why
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value)
+}
+
+function isFiniteNumber(value: unknown): value is number {
+  return typeof value === "number" && Number.isFinite(value)
+}
+
+function isOptionalNumber(value: unknown): boolean {
+  return value === undefined || value === null || isFiniteNumber(value)
+}
+
+function checkVersion(raw: Record<string, unknown>): number {
+  const version = raw.schema_version ?? API_SCHEMA_VERSION
+  if (!isFiniteNumber(version) || !SUPPORTED_SCHEMA_VERSIONS.includes(version)) {
+    throw new SchemaError(`Unsupported schema version ${JSON.stringify(version)}`)
+  }
+  return version
+}
+
+function requireArray(raw: Record<string, unknown>, field: string): unknown[] {
+  const value = raw[field]
+  if (!Array.isArray(value)) throw new SchemaError(`"${field}" is missing or not an array`)
+  return value
+}
+
+// Why an entry was dropped; a class so it can't be confused with a valid entry of any shape
+class Invalid {
+  constructor(readonly issue: string) {}
+}
+
+function invalid(issue: string): Invalid {
+  return new Invalid(issue)
+}
+
+function validateNode(raw: unknown): ApiNode | Invalid {
+  if (!isRecord(raw)) return invalid("node is not an object")
+  if (typeof raw.ip !== "string" || raw.ip === "") return invalid("node without an ip")
+  const ip = normalizeIP(raw.ip)
+  if (!ip) return invalid(`node ${raw.ip} is not an IP address`)
+  if (!isFiniteNumber(raw.packets)) return invalid(`node ${raw.ip} has no packet count`)
+  if (!isOptionalNumber(raw.first_seen) || !isOptionalNumber(raw.last_seen))
+    return invalid(`node ${raw.ip} has bad timestamps`)
+  return {
+    ip,
+    packets: raw.packets,
+    first_seen: isFiniteNumber(raw.first_seen) ? raw.first_seen : undefined,
+    last_seen: isFiniteNumber(raw.last_seen) ? raw.last_seen : undefined,
+  }
+}
+
+function isFlow(raw: unknown): raw is ApiFlow {
+  if (!isRecord(raw) || typeof raw.protocol !== "string" || raw.protocol === "") return false
+  const port = raw.port
+  if (
+    port !== undefined &&
+    port !== null &&
+    !(isFiniteNumber(port) && Number.isInteger(port) && port >= 0 && port <= 65535)
+  ) {
+    return false
+  }
+  if (raw.service !== undefined && raw.service !== null && typeof raw.service !== "string") return false
+  return isFiniteNumber(raw.weight)
+}
+
+function validateEdge(raw: unknown): ApiEdge | Invalid {
+  if (!isRecord(raw)) return invalid("edge is not an object")
+  if (typeof raw.source !== "string" || typeof raw.target !== "string") return invalid("edge without source and target")
+  if (!isFiniteNumber(raw.weight)) return invalid(`edge ${raw.source}→${raw.target} has no weight`)
+  const source = normalizeIP(raw.source)
+  const target = normalizeIP(raw.target)
+  if (!source || !target) return invalid(`edge ${raw.source}→${raw.target} is not between IP addresses`)
+  const edge: ApiEdge = { source, target, weight: raw.weight }
+  if (raw.flows === undefined || raw.flows === null) return edge
+  if (!Array.isArray(raw.flows) || !raw.flows.every(isFlow)) {
+    return invalid(`edge ${raw.source}→${raw.target} has malformed flows`)
+  }
+  return {
+    ...edge,
+    flows: raw.flows.map(({ protocol, port, service, weight }) => ({ protocol, port, service, weight })),
+  }
+}
+
+/** Keeps the entries that validate and describes the rest. */
+function collect<T>(entries: unknown[], validate: (raw: unknown) => T | Invalid, issues: string[]): T[] {
+  const valid: T[] = []
+  let unlisted = 0
+  entries.forEach((entry) => {
+    const result = validate(entry)
+    if (!(result instanceof Invalid)) valid.push(result)
+    else if (issues.length < MAX_ISSUES) issues.push(result.issue)
+    else unlisted++
+  })
+  if (unlisted > 0) issues.push(`…${unlisted} more dropped`)
+  return valid
+}
+
+function timestampOf(raw: Record<string, unknown>): number {
+  if (!isFiniteNumber(raw.timestamp)) throw new SchemaError(`"timestamp" is missing or not a number`)
+  return raw.timestamp
+}
+
+/**
+ * Checks a `/api/topology` payload or stream snapshot. Malformed nodes and edges are dropped and reported
+ * rather than failing the whole snapshot; edges left pointing at a dropped node are dropped with them.
+ */
+export function validateTopologyResponse(raw: unknown): Validated<ApiTopologyResponse> {
+  if (!isRecord(raw)) throw new SchemaError("Payload is not a JSON object")
+  const version = checkVersion(raw)
+  const issues: string[] = []
+  const nodes = collect(requireArray(raw, "nodes"), validateNode, issues)
+  const ips = new Set(nodes.map((node) => node.ip))
+  const edges = collect(
+    requireArray(raw, "edges"),
+    (entry) => {
+      const edge = validateEdge(entry)
+      if (edge instanceof Invalid || (ips.has(edge.source) && ips.has(edge.target))) return edge
+      return invalid(`edge ${edge.source}→${edge.target} references an unknown node`)
+    },
+    issues,
+  )
+  return { value: { nodes, edges, timestamp: timestampOf(raw) }, version, issues }
+}
+
+/** Checks a stream delta; like snapshots, invalid entries are dropped and the rest applied. */
+export function validateTopologyDelta(raw: unknown): Validated<ApiTopologyDelta> {
+  if (!isRecord(raw)) throw new SchemaError("Delta is not a JSON object")
+  const version = checkVersion(raw)
+  const issues: string[] = []
+  const validateIp = (entry: unknown) =>
+    (typeof entry === "string" && normalizeIP(entry)) || invalid("removed node is not an ip")
+  const validateKey = (entry: unknown) => {
+    const source = isRecord(entry) && typeof entry.source === "string" ? normalizeIP(entry.source) : null
+    const target = isRecord(entry) && typeof entry.target === "string" ? normalizeIP(entry.target) : null
+    return source && target ? { source, target } : invalid("removed edge without source and target")
+  }
+
+  return {
+    value: {
+      upserted_nodes: collect(requireArray(raw, "upserted_nodes"), validateNode, issues),
+      removed_nodes: collect(requireArray(raw, "removed_nodes"), validateIp, issues),
+      upserted_edges: collect(requireArray(raw, "upserted_edges"), validateEdge, issues),
+      removed_edges: collect(requireArray(raw, "removed_edges"), validateKey, issues),
+      timestamp: timestampOf(raw),
+    },
+    version,
+    issues,
+  }
+}
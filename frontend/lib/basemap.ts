@@ -0,0 +1,24 @@
+import type { Feature, MultiPolygon, Polygon } from "geojson"
+import { feature } from "topojson-client"
+import type { GeometryCollection, Topology } from "topojson-specification"
+
+export type BasemapDetail = "110m" | "50m"
+
+export type CountryFeature = Feature<Polygon | MultiPolygon, { name?: string }>
+
+export const BASEMAP_DETAILS: { value: BasemapDetail; label: string }[] = [
+  { value: "110m", label: "Low detail" },
+  { value: "50m", label: "High detail" },
+]
+
+// The atlases ship with the app and are split into their own chunks, so the larger one is only
+// downloaded when chosen and nothing is fetched from a CDN
+const ATLASES: Record<BasemapDetail, () => Promise<{ default: unknown }>> = {
+  "110m": () => import("world-atlas/countries-110m.json"),
+  "50m": () => import("world-atlas/countries-50m.json"),
+}
+
+export async function loadBasemap(detail: BasemapDetail): Promise<CountryFeature[]> {
+  const world = (await ATLASES[detail]()).default as Topology<{ countries: GeometryCollection<{ name?: string }> }>
+  return feature(world, world.objects.countries).features as CountryFeature[]
+}
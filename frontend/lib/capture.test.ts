@@ -0,0 +1,319 @@
+import { describe, expect, it } from "vitest"
+import {
+  CaptureParseError,
+  createPacketAggregator,
+  parseCaptureFile,
+  parsePcap,
+  parsePcapng,
+  parseTcpdumpText,
+  replayCapture,
+} from "@/lib/capture"
+
+/** Builds a binary file field by field, in either byte order. */
+function writer(littleEndian = true) {
+  const bytes: number[] = []
+  const uint = (value: number, size: number) => {
+    const field = Array.from({ length: size }, (_, i) => (value / 2 ** (8 * i)) & 0xff)
+    bytes.push(...(littleEndian ? field : field.reverse()))
+  }
+  return {
+    u8: (value: number) => uint(value, 1),
+    u16: (value: number) => uint(value, 2),
+    u32: (value: number) => uint(value, 4),
+    raw: (data: number[]) => bytes.push(...data),
+    pad: () => {
+      while (bytes.length % 4) bytes.push(0)
+    },
+    length: () => bytes.length,
+    bytes: () => bytes,
+    buffer: () => new Uint8Array(bytes).buffer,
+  }
+}
+
+/** An IPv4 header and the first four bytes of a TCP/UDP header, in network byte order. */
+function ipv4(src: number[], dst: number[], protocol: number, port?: number, fragmentOffset = 0): number[] {
+  const packet = writer(false)
+  packet.raw([0x45, 0, 0, 24, 0, 0])
+  packet.u16(fragmentOffset)
+  packet.raw([64, protocol, 0, 0, ...src, ...dst])
+  if (port !== undefined) {
+    packet.u16(51000)
+    packet.u16(port)
+  }
+  return packet.bytes()
+}
+
+/** An IPv6 header with a hop-by-hop options header, or a fragment header for a later fragment, before the ports. */
+function ipv6(src: number[], dst: number[], protocol: number, port: number, laterFragment = false): number[] {
+  const packet = writer(false)
+  packet.raw([0x60, 0, 0, 0, 0, 16, laterFragment ? 44 : 0, 64, ...src, ...dst])
+  packet.raw([protocol, 0])
+  packet.u16(laterFragment ? 0x0100 : 0)
+  packet.raw([0, 0, 0, 0])
+  packet.u16(51000)
+  packet.u16(port)
+  return packet.bytes()
+}
+
+const address6 = (...tail: number[]) => [0x20, 0x01, 0x0d, 0xb8, ...new Array(12 - tail.length).fill(0), ...tail]
+
+function ethernet(payload: number[], vlan = false): number[] {
+  const frame = writer(false)
+  frame.raw(new Array(12).fill(0))
+  if (vlan) {
+    frame.u16(0x8100)
+    frame.u16(42)
+  }
+  frame.u16(payload[0] >> 4 === 6 ? 0x86dd : 0x0800)
+  frame.raw(payload)
+  return frame.bytes()
+}
+
+function pcap(frames: [number, number[]][], options: { littleEndian?: boolean; nano?: boolean; linkType?: number }) {
+  const { littleEndian = true, nano = false, linkType = 1 } = options
+  const file = writer(littleEndian)
+  file.u32(nano ? 0xa1b23c4d : 0xa1b2c3d4)
+  file.u16(2)
+  file.u16(4)
+  file.u32(0)
+  file.u32(0)
+  file.u32(65535)
+  file.u32(linkType)
+  frames.forEach(([timestamp, frame]) => {
+    const seconds = Math.floor(timestamp)
+    file.u32(seconds)
+    file.u32(Math.round((timestamp - seconds) * (nano ? 1e9 : 1e6)))
+    file.u32(frame.length)
+    file.u32(frame.length)
+    file.raw(frame)
+  })
+  return file.buffer()
+}
+
+const TCP = 6
+const UDP = 17
+const ICMP = 1
+
+describe("parsePcap", () => {
+  it("reads little-endian Ethernet captures, through VLAN tags", () => {
+    const buffer = pcap(
+      [
+        [1000.25, ethernet(ipv4([10, 0, 0, 5], [93, 184, 216, 34], TCP, 443))],
+        [1001.5, ethernet(ipv4([10, 0, 0, 5], [10, 0, 0, 2], UDP, 53), true)],
+      ],
+      {},
+    )
+    expect(parsePcap(buffer)).toEqual([
+      { timestamp: 1000.25, src: "10.0.0.5", dst: "93.184.216.34", protocol: "tcp", port: 443 },
+      { timestamp: 1001.5, src: "10.0.0.5", dst: "10.0.0.2", protocol: "udp", port: 53 },
+    ])
+  })
+
+  it("reads big-endian raw IP captures with nanosecond timestamps", () => {
+    const buffer = pcap([[50.000000001, ipv4([10, 0, 0, 1], [10, 0, 0, 9], ICMP)]], {
+      littleEndian: false,
+      nano: true,
+      linkType: 101,
+    })
+    const [packet] = parsePcap(buffer)
+    expect(packet).toMatchObject({ src: "10.0.0.1", dst: "10.0.0.9", protocol: "icmp", port: undefined })
+    expect(packet.timestamp).toBeCloseTo(50.000000001, 9)
+  })
+
+  it("drops ephemeral ports and the ports of later fragments", () => {
+    const buffer = pcap(
+      [
+        [1, ethernet(ipv4([10, 0, 0, 5], [10, 0, 0, 6], TCP, 40000))],
+        [2, ethernet(ipv4([10, 0, 0, 5], [10, 0, 0, 6], UDP, 53, 185))],
+      ],
+      {},
+    )
+    expect(parsePcap(buffer).map((packet) => packet.port)).toEqual([undefined, undefined])
+  })
+
+  it("reads IPv6, walking extension headers to the transport header", () => {
+    const buffer = pcap(
+      [
+        [1, ethernet(ipv6(address6(0, 0, 0, 0, 0, 0, 0, 5), address6(0, 0, 0, 0, 0, 0, 0, 0x35), UDP, 53))],
+        [2, ethernet(ipv6(address6(0, 0, 0, 0, 0, 0, 0, 5), address6(0, 0, 0, 0, 0, 0, 0, 0x35), UDP, 53, true))],
+      ],
+      {},
+    )
+    expect(parsePcap(buffer)).toEqual([
+      { timestamp: 1, src: "2001:db8::5", dst: "2001:db8::35", protocol: "udp", port: 53 },
+      { timestamp: 2, src: "2001:db8::5", dst: "2001:db8::35", protocol: "udp", port: undefined },
+    ])
+  })
+
+  it("skips frames that aren't IP", () => {
+    const arp = new Array(12).fill(0).concat([0x08, 0x06, 0, 1])
+    expect(parsePcap(pcap([[1, arp]], {}))).toEqual([])
+  })
+
+  it("rejects other files", () => {
+    expect(() => parsePcap(new ArrayBuffer(10))).toThrow(CaptureParseError)
+    expect(() => parsePcap(new ArrayBuffer(24))).toThrow("Not a pcap file")
+  })
+})
+
+/** A pcapng file with one Ethernet interface at millisecond resolution and an enhanced packet block per frame. */
+function pcapng(frames: [number, number[]][]) {
+  const file = writer(true)
+  const block = (type: number, body: (w: ReturnType<typeof writer>) => void) => {
+    const content = writer(true)
+    body(content)
+    content.pad()
+    file.u32(type)
+    file.u32(content.length() + 12)
+    file.raw(content.bytes())
+    file.u32(content.length() + 12)
+  }
+  block(0x0a0d0d0a, (w) => {
+    w.u32(0x1a2b3c4d)
+    w.u16(1)
+    w.u16(0)
+    w.u32(0xffffffff)
+    w.u32(0xffffffff)
+  })
+  block(1, (w) => {
+    w.u16(1)
+    w.u16(0)
+    w.u32(65535)
+    w.u16(9) // if_tsresol: 10^-3
+    w.u16(1)
+    w.u8(3)
+    w.pad()
+    w.u32(0)
+  })
+  frames.forEach(([milliseconds, frame]) =>
+    block(6, (w) => {
+      w.u32(0)
+      w.u32(Math.floor(milliseconds / 2 ** 32))
+      w.u32(milliseconds % 2 ** 32)
+      w.u32(frame.length)
+      w.u32(frame.length)
+      w.raw(frame)
+    }),
+  )
+  return file.buffer()
+}
+
+describe("parsePcapng", () => {
+  it("reads enhanced packet blocks using the interface's timestamp resolution", () => {
+    const buffer = pcapng([
+      [1700000000123, ethernet(ipv4([192, 168, 1, 10], [1, 1, 1, 1], UDP, 53))],
+      [1700000000500, ethernet(ipv4([1, 1, 1, 1], [192, 168, 1, 10], UDP))],
+    ])
+    expect(parsePcapng(buffer)).toEqual([
+      { timestamp: 1700000000.123, src: "192.168.1.10", dst: "1.1.1.1", protocol: "udp", port: 53 },
+      { timestamp: 1700000000.5, src: "1.1.1.1", dst: "192.168.1.10", protocol: "udp", port: undefined },
+    ])
+  })
+
+  it("rejects files without a section header", () => {
+    expect(() => parsePcapng(pcap([], {}))).toThrow("Not a pcapng file")
+  })
+})
+
+describe("parseTcpdumpText", () => {
+  it("reads epoch and time-of-day stamps, rolling over at midnight", () => {
+    const text = [
+      "1700000000.500000 IP 10.0.0.5.51000 > 10.0.0.2.53: UDP, length 32",
+      "23:59:59.000000 IP 10.0.0.5.51000 > 93.184.216.34.443: Flags [S], seq 1, length 0",
+      "00:00:01.250000 IP 10.0.0.1 > 10.0.0.5: ICMP echo reply, id 1, seq 1, length 64",
+      "not a packet",
+    ].join("\n")
+    const midnight = new Date(2024, 0, 1).getTime() / 1000
+    expect(parseTcpdumpText(text, new Date(2024, 0, 1, 12))).toEqual([
+      { timestamp: 1700000000.5, src: "10.0.0.5", dst: "10.0.0.2", protocol: "udp", port: 53 },
+      { timestamp: midnight + 86399, src: "10.0.0.5", dst: "93.184.216.34", protocol: "tcp", port: 443 },
+      { timestamp: midnight + 86401.25, src: "10.0.0.1", dst: "10.0.0.5", protocol: "icmp", port: undefined },
+    ])
+  })
+
+  it("takes decoded application protocols with ports to be UDP", () => {
+    const [packet] = parseTcpdumpText("1.0 IP 10.0.0.5.51000 > 10.0.0.2.53: 1234+ A? example.com. (29)")
+    expect(packet).toMatchObject({ protocol: "udp", port: 53 })
+  })
+})
+
+describe("parseCaptureFile", () => {
+  it("detects the format from the magic number and sorts packets by time", () => {
+    const buffer = pcap(
+      [
+        [2, ethernet(ipv4([10, 0, 0, 1], [10, 0, 0, 2], ICMP))],
+        [1, ethernet(ipv4([10, 0, 0, 2], [10, 0, 0, 1], ICMP))],
+      ],
+      { littleEndian: false },
+    )
+    const file = parseCaptureFile("trace.pcap", buffer)
+    expect(file.format).toBe("pcap")
+    expect(file.packets.map((packet) => packet.timestamp)).toEqual([1, 2])
+    expect(
+      parseCaptureFile("trace.pcapng", pcapng([[1, ethernet(ipv4([1, 1, 1, 1], [2, 2, 2, 2], TCP))]])).format,
+    ).toBe("pcapng")
+  })
+
+  it("falls back to tcpdump text and fails when there are no packets", () => {
+    const text = new TextEncoder().encode("1.0 IP 10.0.0.1 > 10.0.0.2: ICMP echo request\n").buffer
+    expect(parseCaptureFile("dump.txt", text).format).toBe("text")
+    expect(() => parseCaptureFile("empty.txt", new ArrayBuffer(0))).toThrow("No IP packets found in empty.txt")
+  })
+})
+
+describe("createPacketAggregator", () => {
+  it("counts nodes, edges and flows and forgets them once stale", () => {
+    const aggregator = createPacketAggregator(10)
+    aggregator.count({ timestamp: 1, src: "10.0.0.5", dst: "10.0.0.2", protocol: "udp", port: 53 })
+    aggregator.count({ timestamp: 2, src: "10.0.0.5", dst: "10.0.0.2", protocol: "udp", port: 53 })
+    aggregator.count({ timestamp: 5, src: "10.0.0.2", dst: "10.0.0.5", protocol: "udp" })
+
+    expect(aggregator.snapshot(6)).toEqual({
+      nodes: [
+        { ip: "10.0.0.5", first_seen: 1, last_seen: 5, packets: 3 },
+        { ip: "10.0.0.2", first_seen: 1, last_seen: 5, packets: 3 },
+      ],
+      edges: [
+        {
+          source: "10.0.0.5",
+          target: "10.0.0.2",
+          weight: 2,
+          flows: [{ protocol: "udp", port: 53, service: "dns", weight: 2 }],
+        },
+        {
+          source: "10.0.0.2",
+          target: "10.0.0.5",
+          weight: 1,
+          flows: [{ protocol: "udp", port: undefined, service: undefined, weight: 1 }],
+        },
+      ],
+      timestamp: 6,
+    })
+    expect(aggregator.snapshot(12).edges.map((edge) => edge.source)).toEqual(["10.0.0.2"])
+  })
+})
+
+describe("replayCapture", () => {
+  it("takes snapshots at regular steps with cumulative counts", () => {
+    const packets = [0, 0.5, 1.5, 3.2].map((offset) => ({
+      timestamp: 100 + offset,
+      src: "10.0.0.5",
+      dst: "10.0.0.2",
+      protocol: "tcp" as const,
+      port: 443,
+    }))
+    const snapshots = replayCapture(packets)
+    expect(snapshots.map((snapshot) => [snapshot.timestamp, snapshot.edges[0].weight])).toEqual([
+      [101, 2],
+      [102, 3],
+      [103, 3],
+      [104, 4],
+    ])
+  })
+
+  it("spreads long captures over at most the requested number of snapshots", () => {
+    const packets = [0, 1000].map((timestamp) => ({ timestamp, src: "a", dst: "b", protocol: "other" as const }))
+    expect(replayCapture(packets, { maxSnapshots: 10, staleThreshold: 2000 })).toHaveLength(11)
+    expect(replayCapture([])).toEqual([])
+  })
+})
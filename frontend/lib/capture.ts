@@ -0,0 +1,437 @@
+import { formatIPv4, formatIPv6, normalizeIP } from "@/lib/ip"
+import { EPHEMERAL_PORT_START, serviceName, type Protocol } from "@/lib/protocols"
+import { edgeKey, type ApiFlow, type ApiTopologyResponse } from "@/lib/topology"
+
+export interface CapturedPacket {
+  timestamp: number // unix seconds
+  src: string
+  dst: string
+  protocol: Protocol
+  port?: number // destination port, unless ephemeral
+}
+
+export interface CaptureFile {
+  name: string
+  format: "pcap" | "pcapng" | "text"
+  packets: CapturedPacket[]
+}
+
+export interface CaptureReplayOptions {
+  maxSnapshots?: number
+  staleThreshold?: number // seconds, matches the backend's STALE_THRESHOLD
+}
+
+// Link-layer header types (https://www.tcpdump.org/linktypes.html)
+const LINKTYPE_NULL = 0
+const LINKTYPE_ETHERNET = 1
+const LINKTYPE_RAW = 101
+const LINKTYPE_LOOP = 108
+const LINKTYPE_LINUX_SLL = 113
+const LINKTYPE_IPV4 = 228
+const LINKTYPE_IPV6 = 229
+const LINKTYPE_LINUX_SLL2 = 276
+// Some platforms write DLT_RAW as 12 or 14 instead of 101
+const LINKTYPE_RAW_ALIASES = [12, 14]
+
+const ETHERTYPE_IPV4 = 0x0800
+const ETHERTYPE_IPV6 = 0x86dd
+const ETHERTYPES_IP = [ETHERTYPE_IPV4, ETHERTYPE_IPV6]
+const ETHERTYPE_VLAN = [0x8100, 0x88a8, 0x9100]
+
+const PCAPNG_SECTION_HEADER = 0x0a0d0d0a
+const PCAPNG_INTERFACE_DESCRIPTION = 1
+const PCAPNG_PACKET = 2
+const PCAPNG_SIMPLE_PACKET = 3
+const PCAPNG_ENHANCED_PACKET = 6
+const PCAPNG_BYTE_ORDER_MAGIC = 0x1a2b3c4d
+const PCAPNG_OPTION_TSRESOL = 9
+
+const IP_PROTOCOLS: Record<number, Protocol> = { 1: "icmp", 6: "tcp", 17: "udp", 58: "icmp" }
+// Hop-by-hop, routing and destination options headers, which are skipped to reach the transport header
+const IPV6_EXTENSION_HEADERS = [0, 43, 60]
+const IPV6_FRAGMENT_HEADER = 44
+
+export class CaptureParseError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = "CaptureParseError"
+  }
+}
+
+function servicePort(port: number): number | undefined {
+  return port < EPHEMERAL_PORT_START ? port : undefined
+}
+
+function transportPort(view: DataView, protocol: Protocol, transport: number, end: number): number | undefined {
+  return (protocol === "tcp" || protocol === "udp") && transport + 4 <= end
+    ? servicePort(view.getUint16(transport + 2))
+    : undefined
+}
+
+/**
+ * Reads the IPv4 source, destination and protocol out of an IP header, with the destination port when the
+ * TCP or UDP header is in the captured bytes; null for anything but IPv4.
+ */
+function readIPv4(view: DataView, offset: number, end: number): Omit<CapturedPacket, "timestamp"> | null {
+  if (offset + 20 > end || view.getUint8(offset) >> 4 !== 4) return null
+  const protocol = IP_PROTOCOLS[view.getUint8(offset + 9)] ?? "other"
+  const headerLength = (view.getUint8(offset) & 0x0f) * 4
+  // Only the first fragment of a datagram carries the transport header
+  const firstFragment = (view.getUint16(offset + 6) & 0x1fff) === 0
+  const transport = offset + headerLength
+  return {
+    src: formatIPv4(view.getUint32(offset + 12)),
+    dst: formatIPv4(view.getUint32(offset + 16)),
+    protocol,
+    port: firstFragment ? transportPort(view, protocol, transport, end) : undefined,
+  }
+}
+
+function readIPv6Address(view: DataView, offset: number): string | null {
+  let value = BigInt(0)
+  for (let word = 0; word < 4; word++) {
+    value = (value << BigInt(32)) | BigInt(view.getUint32(offset + word * 4))
+  }
+  return normalizeIP(formatIPv6(value))
+}
+
+/**
+ * The IPv6 counterpart of `readIPv4`. Extension headers are walked to find the transport protocol; a
+ * fragment other than the first has no transport header, so no port.
+ */
+function readIPv6(view: DataView, offset: number, end: number): Omit<CapturedPacket, "timestamp"> | null {
+  if (offset + 40 > end || view.getUint8(offset) >> 4 !== 6) return null
+  const src = readIPv6Address(view, offset + 8)
+  const dst = readIPv6Address(view, offset + 24)
+  if (!src || !dst) return null
+
+  let nextHeader = view.getUint8(offset + 6)
+  let position = offset + 40
+  let firstFragment = true
+  while (position + 8 <= end) {
+    if (IPV6_EXTENSION_HEADERS.includes(nextHeader)) {
+      const length = (view.getUint8(position + 1) + 1) * 8
+      nextHeader = view.getUint8(position)
+      position += length
+    } else if (nextHeader === IPV6_FRAGMENT_HEADER) {
+      firstFragment = (view.getUint16(position + 2) & 0xfff8) === 0
+      nextHeader = view.getUint8(position)
+      position += 8
+    } else {
+      break
+    }
+  }
+
+  const protocol = IP_PROTOCOLS[nextHeader] ?? "other"
+  return { src, dst, protocol, port: firstFragment ? transportPort(view, protocol, position, end) : undefined }
+}
+
+function readIP(view: DataView, offset: number, end: number): Omit<CapturedPacket, "timestamp"> | null {
+  if (offset >= end) return null
+  return view.getUint8(offset) >> 4 === 6 ? readIPv6(view, offset, end) : readIPv4(view, offset, end)
+}
+
+/** Finds where the IP header starts for a frame of the given link type. */
+function networkOffset(view: DataView, linkType: number, offset: number, end: number): number | null {
+  switch (linkType) {
+    case LINKTYPE_ETHERNET: {
+      let position = offset + 12
+      if (position + 2 > end) return null
+      let etherType = view.getUint16(position)
+      while (ETHERTYPE_VLAN.includes(etherType) && position + 6 <= end) {
+        position += 4
+        etherType = view.getUint16(position)
+      }
+      return ETHERTYPES_IP.includes(etherType) ? position + 2 : null
+    }
+    case LINKTYPE_NULL:
+    case LINKTYPE_LOOP:
+      // 4-byte address family in the capturing host's byte order; only the IP version matters here
+      return offset + 4
+    case LINKTYPE_LINUX_SLL:
+      return offset + 16 <= end && ETHERTYPES_IP.includes(view.getUint16(offset + 14)) ? offset + 16 : null
+    case LINKTYPE_LINUX_SLL2:
+      return offset + 20 <= end && ETHERTYPES_IP.includes(view.getUint16(offset)) ? offset + 20 : null
+    case LINKTYPE_RAW:
+    case LINKTYPE_IPV4:
+    case LINKTYPE_IPV6:
+      return offset
+    default:
+      return LINKTYPE_RAW_ALIASES.includes(linkType) ? offset : null
+  }
+}
+
+function readFrame(
+  view: DataView,
+  linkType: number,
+  offset: number,
+  length: number,
+  timestamp: number,
+): CapturedPacket | null {
+  const end = Math.min(offset + length, view.byteLength)
+  const ipOffset = networkOffset(view, linkType, offset, end)
+  if (ipOffset === null) return null
+  const addresses = readIP(view, ipOffset, end)
+  return addresses ? { timestamp, ...addresses } : null
+}
+
+/** Classic libpcap format, in either byte order and with micro- or nanosecond timestamps. */
+export function parsePcap(buffer: ArrayBuffer): CapturedPacket[] {
+  const view = new DataView(buffer)
+  if (view.byteLength < 24) throw new CaptureParseError("File is too short to be a pcap capture")
+
+  const magic = view.getUint32(0, true)
+  const littleEndian = magic === 0xa1b2c3d4 || magic === 0xa1b23c4d
+  const bigEndianMagic = view.getUint32(0, false)
+  if (!littleEndian && bigEndianMagic !== 0xa1b2c3d4 && bigEndianMagic !== 0xa1b23c4d) {
+    throw new CaptureParseError("Not a pcap file")
+  }
+  const nanoseconds = (littleEndian ? magic : bigEndianMagic) === 0xa1b23c4d
+  const linkType = view.getUint32(20, littleEndian) & 0xffff
+
+  const packets: CapturedPacket[] = []
+  let offset = 24
+  while (offset + 16 <= view.byteLength) {
+    const seconds = view.getUint32(offset, littleEndian)
+    const fraction = view.getUint32(offset + 4, littleEndian)
+    const capturedLength = view.getUint32(offset + 8, littleEndian)
+    const timestamp = seconds + fraction / (nanoseconds ? 1e9 : 1e6)
+    const packet = readFrame(view, linkType, offset + 16, capturedLength, timestamp)
+    if (packet) packets.push(packet)
+    offset += 16 + capturedLength
+  }
+  return packets
+}
+
+/** pcapng: section, interface description and (enhanced/simple) packet blocks; everything else is skipped. */
+export function parsePcapng(buffer: ArrayBuffer): CapturedPacket[] {
+  const view = new DataView(buffer)
+  if (view.byteLength < 28 || view.getUint32(0, true) !== PCAPNG_SECTION_HEADER) {
+    throw new CaptureParseError("Not a pcapng file")
+  }
+
+  const packets: CapturedPacket[] = []
+  let littleEndian = true
+  let interfaces: { linkType: number; unitsPerSecond: number }[] = []
+  let lastTimestamp = 0
+  let offset = 0
+
+  while (offset + 12 <= view.byteLength) {
+    // The section header type reads the same in either byte order
+    const type = view.getUint32(offset, littleEndian)
+    if (type === PCAPNG_SECTION_HEADER) {
+      // Each section declares its own byte order and numbers its interfaces from zero
+      littleEndian = view.getUint32(offset + 8, true) === PCAPNG_BYTE_ORDER_MAGIC
+      interfaces = []
+    }
+    const length = view.getUint32(offset + 4, littleEndian)
+    if (length < 12 || offset + length > view.byteLength) break
+    const body = offset + 8
+
+    if (type === PCAPNG_INTERFACE_DESCRIPTION) {
+      interfaces.push({
+        linkType: view.getUint16(body, littleEndian),
+        unitsPerSecond: readTimestampResolution(view, body + 8, offset + length - 4, littleEndian),
+      })
+    } else if (type === PCAPNG_ENHANCED_PACKET || type === PCAPNG_PACKET) {
+      // The obsolete packet block has a 16-bit interface id followed by a 16-bit drop count
+      const interfaceId =
+        type === PCAPNG_PACKET ? view.getUint16(body, littleEndian) : view.getUint32(body, littleEndian)
+      const iface = interfaces[interfaceId]
+      if (iface) {
+        const high = view.getUint32(body + 4, littleEndian)
+        const low = view.getUint32(body + 8, littleEndian)
+        lastTimestamp = (high * 2 ** 32 + low) / iface.unitsPerSecond
+        const capturedLength = view.getUint32(body + 12, littleEndian)
+        const packet = readFrame(view, iface.linkType, body + 20, capturedLength, lastTimestamp)
+        if (packet) packets.push(packet)
+      }
+    } else if (type === PCAPNG_SIMPLE_PACKET && interfaces[0]) {
+      // Simple packet blocks carry no timestamp; reuse the previous one
+      const packet = readFrame(view, interfaces[0].linkType, body + 4, length - 16, lastTimestamp)
+      if (packet) packets.push(packet)
+    }
+
+    offset += length
+  }
+  return packets
+}
+
+function readTimestampResolution(view: DataView, offset: number, end: number, littleEndian: boolean): number {
+  while (offset + 4 <= end) {
+    const code = view.getUint16(offset, littleEndian)
+    const length = view.getUint16(offset + 2, littleEndian)
+    if (code === 0) break
+    if (code === PCAPNG_OPTION_TSRESOL && length >= 1) {
+      const value = view.getUint8(offset + 4)
+      // High bit set: negative power of two, otherwise negative power of ten
+      return value & 0x80 ? 2 ** (value & 0x7f) : 10 ** value
+    }
+    offset += 4 + Math.ceil(length / 4) * 4
+  }
+  return 1e6
+}
+
+// IPv4 or IPv6 address; tcpdump separates the port with a dot in both families
+const TCPDUMP_ADDRESS = String.raw`(\d+\.\d+\.\d+\.\d+|[0-9a-fA-F]*:[0-9a-fA-F:]*)`
+const TCPDUMP_LINE = new RegExp(
+  String.raw`^(?:(\d{4}-\d{2}-\d{2}) )?(\d+(?:\.\d+)?|\d{1,2}:\d{2}:\d{2}(?:\.\d+)?) .*?IP6? ` +
+    String.raw`${TCPDUMP_ADDRESS}(?:\.\d+)? > ${TCPDUMP_ADDRESS}(?:\.(\d+))?: (\S*)`,
+)
+
+/**
+ * The protocol from the first word after the addresses: "Flags" (or "tcp" with `-q`) for TCP, "UDP",
+ * "ICMP" or "ICMP6". Without `-q`, UDP is often decoded as the application protocol instead, so anything
+ * else that has ports is taken to be UDP.
+ */
+function textProtocol(word: string, hasPort: boolean): Protocol {
+  const name = word.replace(/,$/, "").toLowerCase()
+  if (name === "flags" || name === "tcp") return "tcp"
+  if (name === "udp" || name === "icmp") return name
+  if (name === "icmp6") return "icmp"
+  return hasPort ? "udp" : "other"
+}
+
+/**
+ * Parses `tcpdump -n` text output. Epoch (`-tt`) and dated (`-tttt`) timestamps are taken as-is;
+ * plain time-of-day stamps are placed on `baseDate`, rolling over to the next day at midnight.
+ */
+export function parseTcpdumpText(text: string, baseDate = new Date()): CapturedPacket[] {
+  const midnight = new Date(baseDate.getFullYear(), baseDate.getMonth(), baseDate.getDate()).getTime() / 1000
+  const packets: CapturedPacket[] = []
+  let dayOffset = 0
+  let previousTimeOfDay = -1
+
+  text.split(/\r?\n/).forEach((line) => {
+    const match = TCPDUMP_LINE.exec(line.trim())
+    if (!match) return
+    const [, date, time, srcText, dstText, port, word] = match
+    const src = normalizeIP(srcText)
+    const dst = normalizeIP(dstText)
+    if (!src || !dst) return
+    const protocol = textProtocol(word, port !== undefined)
+
+    let timestamp: number
+    if (!time.includes(":")) {
+      timestamp = parseFloat(time)
+    } else {
+      const [hours, minutes, seconds] = time.split(":").map(parseFloat)
+      const timeOfDay = hours * 3600 + minutes * 60 + seconds
+      if (date) {
+        timestamp = new Date(`${date}T00:00:00`).getTime() / 1000 + timeOfDay
+      } else {
+        if (timeOfDay < previousTimeOfDay) dayOffset += 86400
+        previousTimeOfDay = timeOfDay
+        timestamp = midnight + dayOffset + timeOfDay
+      }
+    }
+    packets.push({ timestamp, src, dst, protocol, port: port === undefined ? undefined : servicePort(parseInt(port)) })
+  })
+  return packets
+}
+
+/** Detects the format from the file's magic number, falling back to tcpdump text. */
+export function parseCaptureFile(name: string, buffer: ArrayBuffer): CaptureFile {
+  const view = new DataView(buffer)
+  const magic = view.byteLength >= 4 ? view.getUint32(0, false) : 0
+  let file: CaptureFile
+  if (magic === 0x0a0d0d0a) {
+    file = { name, format: "pcapng", packets: parsePcapng(buffer) }
+  } else if ([0xa1b2c3d4, 0xd4c3b2a1, 0xa1b23c4d, 0x4d3cb2a1].includes(magic)) {
+    file = { name, format: "pcap", packets: parsePcap(buffer) }
+  } else {
+    file = { name, format: "text", packets: parseTcpdumpText(new TextDecoder().decode(buffer)) }
+  }
+  if (file.packets.length === 0) throw new CaptureParseError(`No IP packets found in ${name}`)
+  file.packets.sort((a, b) => a.timestamp - b.timestamp)
+  return file
+}
+
+export interface PacketAggregator {
+  count: (packet: CapturedPacket) => void
+  snapshot: (now: number) => ApiTopologyResponse // nodes and edges seen within the stale threshold of `now`
+}
+
+/** Accumulates packets into nodes and edges the way the backend does. */
+export function createPacketAggregator(staleThreshold = 30): PacketAggregator {
+  const nodes = new Map<string, { first_seen: number; last_seen: number; packets: number }>()
+  const edges = new Map<
+    string,
+    { source: string; target: string; weight: number; lastActive: number; flows: Map<string, ApiFlow> }
+  >()
+
+  const snapshot = (now: number): ApiTopologyResponse => ({
+    nodes: Array.from(nodes, ([ip, node]) => ({ ip, ...node })).filter((node) => now - node.last_seen < staleThreshold),
+    edges: Array.from(edges.values())
+      .filter((edge) => now - edge.lastActive < staleThreshold)
+      .map(({ source, target, weight, flows }) => ({
+        source,
+        target,
+        weight,
+        flows: Array.from(flows.values(), (flow) => ({ ...flow })),
+      })),
+    timestamp: now,
+  })
+
+  const countFlow = (flows: Map<string, ApiFlow>, packet: CapturedPacket) => {
+    const key = `${packet.protocol}/${packet.port ?? ""}`
+    const flow = flows.get(key)
+    if (flow) {
+      flow.weight++
+    } else {
+      const { protocol, port } = packet
+      flows.set(key, { protocol, port, service: serviceName(protocol, port), weight: 1 })
+    }
+  }
+
+  const countNode = (ip: string, timestamp: number) => {
+    const node = nodes.get(ip)
+    if (node) {
+      node.last_seen = timestamp
+      node.packets++
+    } else {
+      nodes.set(ip, { first_seen: timestamp, last_seen: timestamp, packets: 1 })
+    }
+  }
+
+  const count = (packet: CapturedPacket) => {
+    countNode(packet.src, packet.timestamp)
+    countNode(packet.dst, packet.timestamp)
+    const key = edgeKey(packet.src, packet.dst)
+    if (!edges.has(key)) {
+      edges.set(key, { source: packet.src, target: packet.dst, weight: 0, lastActive: 0, flows: new Map() })
+    }
+    const edge = edges.get(key)!
+    edge.weight++
+    edge.lastActive = packet.timestamp
+    countFlow(edge.flows, packet)
+  }
+
+  return { count, snapshot }
+}
+
+/**
+ * Replays packets through the same aggregation the backend does and takes a snapshot at
+ * regular steps, so a capture gets the same shape of history a live session would.
+ */
+export function replayCapture(packets: CapturedPacket[], options: CaptureReplayOptions = {}): ApiTopologyResponse[] {
+  const { maxSnapshots = 3600, staleThreshold = 30 } = options
+  if (packets.length === 0) return []
+
+  const start = packets[0].timestamp
+  const end = packets[packets.length - 1].timestamp
+  const step = Math.max(1, (end - start) / maxSnapshots)
+  const aggregator = createPacketAggregator(staleThreshold)
+
+  const snapshots: ApiTopologyResponse[] = []
+  let next = start + step
+  packets.forEach((packet) => {
+    while (packet.timestamp >= next) {
+      snapshots.push(aggregator.snapshot(next))
+      next += step
+    }
+    aggregator.count(packet)
+  })
+  snapshots.push(aggregator.snapshot(next))
+  return snapshots
+}
@@ -0,0 +1,47 @@
+import { describe, expect, it } from "vitest"
+import { loadBasemap, type CountryFeature } from "@/lib/basemap"
+import { countryTraffic, createCountryLocator } from "@/lib/choropleth"
+import { link, node } from "@/lib/test-fixtures"
+import type { TopologyData } from "@/lib/topology"
+
+describe("createCountryLocator", async () => {
+  const locate = createCountryLocator(await loadBasemap("110m"))
+  const name = (long: number, lat: number) => locate(long, lat)?.properties.name ?? null
+
+  it("finds the country containing a point", () => {
+    expect(name(-122.17, 37.43)).toBe("United States of America")
+    expect(name(151.21, -33.87)).toBe("Australia")
+    expect(name(-30, 30)).toBeNull()
+  })
+
+  it("handles countries spanning the antimeridian", () => {
+    expect(name(-175, 66)).toBe("Russia")
+    expect(name(170, 66)).toBe("Russia")
+  })
+
+  it("gives the same answer from its cache", () => {
+    expect(locate(2.35, 48.86)).toBe(locate(2.35, 48.86))
+  })
+})
+
+describe("countryTraffic", () => {
+  const country = (name: string) =>
+    ({ type: "Feature", properties: { name }, geometry: null }) as unknown as CountryFeature
+  const [us, de] = [country("US"), country("DE")]
+  // Longitude stands in for the country here
+  const locate = (long: number) => (long < 0 ? us : long > 0 ? de : null)
+
+  const placed = (id: string, long: number, source: "database" | "hash" = "database") =>
+    node(id, { long, location: { lat: 0, long, source } })
+
+  it("counts each link once per country it touches and skips hashed placements", () => {
+    const topology: TopologyData = {
+      nodes: [placed("a", -1), placed("b", -2), placed("c", 1), placed("d", 2, "hash"), placed("e", 0)],
+      links: [link("a", "b", 5), link("a", "c", 2), link("c", "d", 1), link("e", "a", 3)],
+    }
+    const totals = countryTraffic(topology, locate)
+    expect(totals.get(us)).toEqual({ traffic: 10, nodes: 2 })
+    expect(totals.get(de)).toEqual({ traffic: 3, nodes: 1 })
+    expect(totals.size).toBe(2)
+  })
+})
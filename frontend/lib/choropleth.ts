@@ -0,0 +1,72 @@
+import * as d3 from "d3"
+import type { CountryFeature } from "@/lib/basemap"
+import type { TopologyData } from "@/lib/topology"
+
+export interface CountryTraffic {
+  traffic: number // total rate of the links with an endpoint in the country
+  nodes: number
+}
+
+/**
+ * Returns a function finding the country a point lies in. `d3.geoContains` is slow, so each country's
+ * bounding box is tested first and answers are cached per position.
+ */
+export function createCountryLocator(
+  countries: CountryFeature[],
+): (long: number, lat: number) => CountryFeature | null {
+  const bounds = countries.map((country) => d3.geoBounds(country))
+  const cache = new Map<string, CountryFeature | null>()
+
+  return (long, lat) => {
+    const key = `${long},${lat}`
+    const cached = cache.get(key)
+    if (cached !== undefined) return cached
+
+    const match =
+      countries.find((country, i) => {
+        const [[west, south], [east, north]] = bounds[i]
+        if (lat < south || lat > north) return false
+        // Boxes of countries spanning the antimeridian wrap around, with west > east
+        if (west <= east ? long < west || long > east : long < west && long > east) return false
+        return d3.geoContains(country, [long, lat])
+      }) ?? null
+    cache.set(key, match)
+    return match
+  }
+}
+
+/**
+ * Sums traffic per country. A link counts towards each country it touches, once even if both ends are
+ * in the same country. Nodes placed by hashing their IP have no real location and are left out.
+ */
+export function countryTraffic(
+  topology: TopologyData,
+  locate: (long: number, lat: number) => CountryFeature | null,
+): Map<CountryFeature, CountryTraffic> {
+  const totals = new Map<CountryFeature, CountryTraffic>()
+  const countryOf = new Map<string, CountryFeature>()
+  const entry = (country: CountryFeature) => {
+    let total = totals.get(country)
+    if (!total) {
+      total = { traffic: 0, nodes: 0 }
+      totals.set(country, total)
+    }
+    return total
+  }
+
+  topology.nodes.forEach((node) => {
+    if (node.location?.source === "hash") return
+    const country = locate(node.long, node.lat)
+    if (!country) return
+    countryOf.set(node.id, country)
+    entry(country).nodes++
+  })
+  topology.links.forEach((link) => {
+    const source = countryOf.get(link.source)
+    const target = countryOf.get(link.target)
+    if (source) entry(source).traffic += link.traffic
+    if (target && target !== source) entry(target).traffic += link.traffic
+  })
+
+  return totals
+}
@@ -0,0 +1,17 @@
+export const NEON_COLORS = {
+  router: "#00F3FF", // Electric Cyan for routers
+  endpoint: "#FF0099", // Hot Magenta for servers/clients
+  edgeIdle: "rgba(100, 149, 237, 0.2)", // Low opacity grey/blue
+  edgeActive: "#BD00FF", // Bright Purple for active connections
+  edgeAsymmetric: "#FF9900", // Amber for lopsided flows such as large uploads
+  warning: "#FFD400", // Yellow for nodes flagged by an anomaly rule
+  packet: "#39FF14", // Neon Green for packets (brightest)
+}
+
+// Active links when colouring by protocol; TCP keeps the usual link colour since it carries most traffic
+export const PROTOCOL_COLORS = {
+  tcp: NEON_COLORS.edgeActive,
+  udp: "#2D9CFF", // Azure
+  icmp: "#FF4D4D", // Coral red
+  other: "#B0B0B0", // Light grey for GRE, ESP and the rest
+}
@@ -0,0 +1,75 @@
+import { afterEach, describe, expect, it, vi } from "vitest"
+import {
+  isSourceUrl,
+  openTopologySource,
+  parseSimulatorUrl,
+  simulatorFromQuery,
+  simulatorSensor,
+  simulatorUrl,
+} from "@/lib/data-source"
+
+describe("parseSimulatorUrl", () => {
+  it("reads the scenario and seed", () => {
+    expect(parseSimulatorUrl("sim:ddos?seed=42")).toEqual({ scenario: "ddos", seed: 42 })
+    expect(parseSimulatorUrl("sim:churn")).toEqual({ scenario: "churn", seed: 1 })
+    expect(parseSimulatorUrl(simulatorUrl({ scenario: "port-scan", seed: 9 }))).toEqual({
+      scenario: "port-scan",
+      seed: 9,
+    })
+  })
+
+  it("rejects other URLs and unknown scenarios", () => {
+    expect(parseSimulatorUrl("http://localhost:5000")).toBeNull()
+    expect(parseSimulatorUrl("sim:constructor")).toBeNull()
+    expect(parseSimulatorUrl("not a url")).toBeNull()
+  })
+})
+
+describe("simulatorFromQuery", () => {
+  it("runs the office scenario for a bare ?simulate", () => {
+    expect(simulatorFromQuery("?simulate")).toEqual({ scenario: "office", seed: 1 })
+    expect(simulatorFromQuery("?simulate=ddos&seed=5")).toEqual({ scenario: "ddos", seed: 5 })
+  })
+
+  it("stays on live data otherwise", () => {
+    expect(simulatorFromQuery("")).toBeNull()
+    expect(simulatorFromQuery("?simulate=toString")).toBeNull()
+    expect(simulatorFromQuery("?simulate=__proto__")).toBeNull()
+  })
+})
+
+describe("simulatorSensor", () => {
+  it("names the sensor after the scenario and seed", () => {
+    expect(simulatorSensor({ scenario: "office", seed: 2 })).toMatchObject({
+      id: "sim-office-2",
+      name: "Office LAN (seed 2)",
+      url: "sim:office?seed=2",
+    })
+  })
+})
+
+describe("openTopologySource", () => {
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it("dispatches simulator URLs to the simulator, one snapshot per tick", () => {
+    vi.useFakeTimers()
+    const onSnapshot = vi.fn()
+    const onStatusChange = vi.fn()
+    const stream = openTopologySource("sim:office?seed=1", { pollInterval: 2500, onSnapshot, onStatusChange })
+    expect(onStatusChange).toHaveBeenCalledWith("live")
+    expect(onSnapshot).toHaveBeenCalledTimes(1)
+    vi.advanceTimersByTime(3000)
+    expect(onSnapshot).toHaveBeenCalledTimes(4)
+    stream.close()
+    vi.advanceTimersByTime(3000)
+    expect(onSnapshot).toHaveBeenCalledTimes(4)
+  })
+
+  it("recognises simulator and backend URLs", () => {
+    expect(isSourceUrl("sim:office")).toBe(true)
+    expect(isSourceUrl("https://sensor.example")).toBe(true)
+    expect(isSourceUrl("ftp://sensor.example")).toBe(false)
+  })
+})
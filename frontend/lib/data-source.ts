@@ -0,0 +1,128 @@
+import { API_SCHEMA_VERSION } from "@/lib/api-schema"
+import { SENSOR_COLORS, type Sensor } from "@/lib/sensors"
+import { checkHealth, type HealthResult } from "@/lib/settings"
+import { createSimulator, isScenario, SCENARIOS, SIMULATOR_TICK, type Scenario } from "@/lib/simulator"
+import { createTopologyStream, type TopologyStream, type TopologyStreamOptions } from "@/lib/topology-stream"
+
+export type TopologySourceOptions = Omit<TopologyStreamOptions, "baseUrl">
+
+/**
+ * Where a sensor's snapshots come from, chosen by its URL. Sources report through the same callbacks as
+ * the backend stream, so everything downstream treats them alike.
+ */
+export interface TopologySource {
+  accepts: (url: string) => boolean
+  open: (url: string, options: TopologySourceOptions) => TopologyStream
+  checkHealth: (url: string, headers: Record<string, string>) => Promise<HealthResult>
+}
+
+const SIMULATOR_PROTOCOL = "sim:"
+const DEFAULT_SEED = 1
+
+export interface SimulatorSettings {
+  scenario: Scenario
+  seed: number
+}
+
+/** Reads `sim:<scenario>?seed=<n>`; null for any other URL or an unknown scenario. */
+export function parseSimulatorUrl(url: string): SimulatorSettings | null {
+  let parsed: URL
+  try {
+    parsed = new URL(url)
+  } catch {
+    return null
+  }
+  if (parsed.protocol !== SIMULATOR_PROTOCOL) return null
+  const scenario = parsed.pathname || "office"
+  const seed = parseInt(parsed.searchParams.get("seed") ?? "", 10)
+  return isScenario(scenario) ? { scenario, seed: Number.isFinite(seed) ? seed : DEFAULT_SEED } : null
+}
+
+export function simulatorUrl({ scenario, seed }: SimulatorSettings): string {
+  return `${SIMULATOR_PROTOCOL}${scenario}?seed=${seed}`
+}
+
+export function simulatorName({ scenario, seed }: SimulatorSettings): string {
+  const label = SCENARIOS.find((option) => option.value === scenario)?.label ?? scenario
+  return `${label} (seed ${seed})`
+}
+
+/** A sensor fed by the simulator, e.g. to demo the app without a backend. */
+export function simulatorSensor(settings: SimulatorSettings, color = SENSOR_COLORS[0]): Sensor {
+  const { scenario, seed } = settings
+  return { id: `sim-${scenario}-${seed}`, name: simulatorName(settings), url: simulatorUrl(settings), color }
+}
+
+/**
+ * `?simulate=<scenario>&seed=<n>` in the page URL; a bare `?simulate` runs the office scenario. Null for an
+ * unknown scenario, which leaves the app on live data.
+ */
+export function simulatorFromQuery(search: string): SimulatorSettings | null {
+  const params = new URLSearchParams(search)
+  if (!params.has("simulate")) return null
+  const seed = params.get("seed") ?? DEFAULT_SEED
+  return parseSimulatorUrl(`${SIMULATOR_PROTOCOL}${params.get("simulate") || "office"}?seed=${seed}`)
+}
+
+/** Replays a scenario in real time, one snapshot per simulated second. */
+function openSimulator(url: string, options: TopologySourceOptions): TopologyStream {
+  const { onSnapshot, onStatusChange, onMessage, onDiagnostic } = options
+  const simulator = createSimulator(parseSimulatorUrl(url)!)
+
+  const tick = () => {
+    const data = simulator.next()
+    onDiagnostic?.({
+      type: "response",
+      url,
+      bytes: JSON.stringify(data).length,
+      schemaVersion: API_SCHEMA_VERSION,
+      issues: [],
+    })
+    onMessage?.(Date.now())
+    onSnapshot(data)
+  }
+
+  onStatusChange("live")
+  tick()
+  const timer = setInterval(tick, SIMULATOR_TICK)
+  return { close: () => clearInterval(timer) }
+}
+
+export const SIMULATOR_SOURCE: TopologySource = {
+  accepts: (url) => parseSimulatorUrl(url) !== null,
+  open: openSimulator,
+  checkHealth: async () => ({ ok: true, latency: 0, message: "Simulated" }),
+}
+
+export const BACKEND_SOURCE: TopologySource = {
+  accepts: (url) => /^https?:\/\//i.test(url),
+  open: (url, options) => createTopologyStream({ baseUrl: url, ...options }),
+  checkHealth,
+}
+
+export const TOPOLOGY_SOURCES = [SIMULATOR_SOURCE, BACKEND_SOURCE]
+
+function sourceFor(url: string, sources: TopologySource[]): TopologySource | null {
+  return sources.find((source) => source.accepts(url)) ?? null
+}
+
+export function isSourceUrl(url: string, sources = TOPOLOGY_SOURCES): boolean {
+  return sourceFor(url, sources) !== null
+}
+
+/** Opens whichever source accepts the URL; an unrecognised URL is handed to the backend stream. */
+export function openTopologySource(
+  url: string,
+  options: TopologySourceOptions,
+  sources = TOPOLOGY_SOURCES,
+): TopologyStream {
+  return (sourceFor(url, sources) ?? BACKEND_SOURCE).open(url, options)
+}
+
+export function checkSourceHealth(
+  url: string,
+  headers: Record<string, string>,
+  sources = TOPOLOGY_SOURCES,
+): Promise<HealthResult> {
+  return (sourceFor(url, sources) ?? BACKEND_SOURCE).checkHealth(url, headers)
+}
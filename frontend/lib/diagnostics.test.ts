@@ -0,0 +1,68 @@
+import { describe, expect, it } from "vitest"
+import { EMPTY_DIAGNOSTICS, formatBytes, recordDiagnostic } from "@/lib/diagnostics"
+
+const ENDPOINT = "http://sensor/api/topology"
+
+describe("recordDiagnostic", () => {
+  it("logs failures and keeps the last known status", () => {
+    const ok = recordDiagnostic(
+      EMPTY_DIAGNOSTICS,
+      { type: "response", url: ENDPOINT, status: 200, latency: 12, bytes: 100, schemaVersion: 1, issues: [] },
+      1000,
+    )
+    const failed = recordDiagnostic(
+      ok,
+      { type: "failure", url: ENDPOINT, reason: "network", message: "Unreachable" },
+      2000,
+    )
+    expect(failed).toMatchObject({ status: 200, latency: 12, lastSuccessAt: 1000 })
+    expect(failed.failure).toEqual({
+      at: 2000,
+      level: "error",
+      reason: "network",
+      message: "Unreachable",
+      url: ENDPOINT,
+    })
+    expect(failed.log).toEqual([failed.failure])
+  })
+
+  it("clears the failure on the next response and logs validation issues as warnings", () => {
+    const failed = recordDiagnostic(
+      EMPTY_DIAGNOSTICS,
+      { type: "failure", url: ENDPOINT, reason: "http", message: "HTTP 502", status: 502 },
+      1000,
+    )
+    const recovered = recordDiagnostic(
+      failed,
+      { type: "response", url: ENDPOINT, bytes: 10, schemaVersion: 1, issues: ["node without an ip"] },
+      2000,
+    )
+    expect(recovered.failure).toBeNull()
+    expect(recovered.status).toBe(502)
+    expect(recovered.log.map((entry) => [entry.level, entry.message])).toEqual([
+      ["warning", "node without an ip"],
+      ["error", "HTTP 502"],
+    ])
+  })
+
+  it("keeps only the most recent entries", () => {
+    let diagnostics = EMPTY_DIAGNOSTICS
+    for (let i = 0; i < 30; i++) {
+      diagnostics = recordDiagnostic(
+        diagnostics,
+        { type: "failure", url: ENDPOINT, reason: "cors", message: `${i}` },
+        i,
+      )
+    }
+    expect(diagnostics.log).toHaveLength(20)
+    expect(diagnostics.log[0].message).toBe("29")
+  })
+})
+
+describe("formatBytes", () => {
+  it("picks a unit", () => {
+    expect(formatBytes(512)).toBe("512 B")
+    expect(formatBytes(1536)).toBe("1.5 kB")
+    expect(formatBytes(3 * 1024 * 1024)).toBe("3.0 MB")
+  })
+})
@@ -0,0 +1,108 @@
+export type FailureReason = "network" | "cors" | "http" | "schema"
+
+export const FAILURE_LABELS: Record<FailureReason, string> = {
+  network: "network",
+  cors: "CORS",
+  http: "HTTP",
+  schema: "schema",
+}
+
+/** What a single request or stream message to a backend came back with. */
+export type DiagnosticEvent =
+  | {
+      type: "response"
+      url: string
+      status?: number // unknown for EventSource streams, which don't expose it
+      latency?: number // ms; only for requests, not for messages pushed on an open stream
+      bytes: number
+      schemaVersion: number
+      issues: string[] // entries dropped by validation
+    }
+  | {
+      type: "failure"
+      url: string
+      reason: FailureReason
+      message: string
+      status?: number
+    }
+
+export interface DiagnosticLogEntry {
+  at: number
+  level: "error" | "warning"
+  reason: FailureReason
+  message: string
+  url: string
+}
+
+export interface ConnectionDiagnostics {
+  status?: number
+  latency?: number
+  bytes?: number
+  schemaVersion?: number
+  lastSuccessAt?: number
+  failure: DiagnosticLogEntry | null // why the latest request failed; cleared by the next good response
+  log: DiagnosticLogEntry[] // most recent first
+}
+
+export const EMPTY_DIAGNOSTICS: ConnectionDiagnostics = { failure: null, log: [] }
+
+const LOG_SIZE = 20
+
+export function recordDiagnostic(
+  diagnostics: ConnectionDiagnostics,
+  event: DiagnosticEvent,
+  at = Date.now(),
+): ConnectionDiagnostics {
+  if (event.type === "failure") {
+    const entry: DiagnosticLogEntry = {
+      at,
+      level: "error",
+      reason: event.reason,
+      message: event.message,
+      url: event.url,
+    }
+    return {
+      ...diagnostics,
+      status: event.status ?? diagnostics.status,
+      failure: entry,
+      log: [entry, ...diagnostics.log].slice(0, LOG_SIZE),
+    }
+  }
+
+  const warnings = event.issues.map((message): DiagnosticLogEntry => ({
+    at,
+    level: "warning",
+    reason: "schema",
+    message,
+    url: event.url,
+  }))
+  return {
+    status: event.status ?? diagnostics.status,
+    latency: event.latency ?? diagnostics.latency,
+    bytes: event.bytes,
+    schemaVersion: event.schemaVersion,
+    lastSuccessAt: at,
+    failure: null,
+    log: warnings.length > 0 ? [...warnings, ...diagnostics.log].slice(0, LOG_SIZE) : diagnostics.log,
+  }
+}
+
+/**
+ * Works out why a request failed without a response. Browsers report a CORS rejection and an unreachable
+ * host as the same `TypeError`, so the URL is fetched again in `no-cors` mode: an opaque response means
+ * the server answered but didn't allow this origin.
+ */
+export async function classifyFetchFailure(url: string): Promise<FailureReason> {
+  try {
+    await fetch(url, { mode: "no-cors", cache: "no-store" })
+    return "cors"
+  } catch {
+    return "network"
+  }
+}
+
+export function formatBytes(bytes: number): string {
+  if (bytes >= 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`
+  if (bytes >= 1024) return `${(bytes / 1024).toFixed(1)} kB`
+  return `${bytes} B`
+}
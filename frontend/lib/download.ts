@@ -0,0 +1,12 @@
+export function downloadBlob(filename: string, blob: Blob) {
+  const url = URL.createObjectURL(blob)
+  const anchor = document.createElement("a")
+  anchor.href = url
+  anchor.download = filename
+  anchor.click()
+  URL.revokeObjectURL(url)
+}
+
+export function downloadText(filename: string, text: string, type: string) {
+  downloadBlob(filename, new Blob([text], { type }))
+}
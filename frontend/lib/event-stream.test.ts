@@ -0,0 +1,55 @@
+import { afterEach, describe, expect, it, vi } from "vitest"
+import { openEventStream } from "@/lib/event-stream"
+
+function streamResponse(chunks: string[], init?: ResponseInit): Response {
+  const body = new ReadableStream<Uint8Array>({
+    start(controller) {
+      const encoder = new TextEncoder()
+      chunks.forEach((chunk) => controller.enqueue(encoder.encode(chunk)))
+      controller.close()
+    },
+  })
+  return new Response(body, init)
+}
+
+/** Opens a stream with headers, so it's read through `fetch`, and collects events until it ends. */
+function collect(response: Response, types: string[]) {
+  vi.stubGlobal("fetch", vi.fn().mockResolvedValue(response))
+  const stream = openEventStream("http://sensor/api/stream", { Authorization: "Bearer token" })
+  const events: [string, string][] = []
+  types.forEach((type) => stream.addEventListener(type, (event) => events.push([type, event.data])))
+  return new Promise<{ events: [string, string][]; status?: number }>((resolve) =>
+    stream.onError((status) => resolve({ events, status })),
+  )
+}
+
+afterEach(() => {
+  vi.unstubAllGlobals()
+})
+
+describe("openEventStream", () => {
+  it("parses events split across chunks, skipping comments", async () => {
+    const { events } = await collect(
+      streamResponse([": keepalive\n\nevent: snap", 'shot\ndata: {"a":\n', "data: 1}\n\ndata: plain\r\n\r\n"]),
+      ["snapshot", "message"],
+    )
+    expect(events).toEqual([
+      ["snapshot", '{"a":\n1}'],
+      ["message", "plain"],
+    ])
+  })
+
+  it("doesn't end an event early when a CRLF is split across chunks", async () => {
+    const { events } = await collect(streamResponse(["data: a\r", "\ndata: b\r\n\r", "\n"]), ["message"])
+    expect(events).toEqual([["message", "a\nb"]])
+  })
+
+  it("sends the headers and reports the status of a failed response", async () => {
+    const { status } = await collect(streamResponse([], { status: 401 }), [])
+    expect(status).toBe(401)
+    expect(fetch).toHaveBeenCalledWith(
+      "http://sensor/api/stream",
+      expect.objectContaining({ headers: { Accept: "text/event-stream", Authorization: "Bearer token" } }),
+    )
+  })
+})
@@ -0,0 +1,88 @@
+export interface EventStream {
+  addEventListener: (type: string, listener: (event: MessageEvent) => void) => void
+  onError: (handler: (status?: number) => void) => void // status when the server answered with an error
+  close: () => void
+}
+
+/**
+ * Opens a Server-Sent Events stream. `EventSource` cannot send request headers, so when there are any
+ * the stream is read with `fetch` instead and parsed here; either way the caller sees the same events.
+ */
+export function openEventStream(url: string, headers: Record<string, string> = {}): EventStream {
+  if (Object.keys(headers).length === 0) {
+    const source = new EventSource(url)
+    return {
+      addEventListener: (type, listener) => source.addEventListener(type, listener as EventListener),
+      onError: (handler) => {
+        source.onerror = () => handler()
+      },
+      close: () => source.close(),
+    }
+  }
+
+  const listeners = new Map<string, ((event: MessageEvent) => void)[]>()
+  const controller = new AbortController()
+  let errorHandler: ((status?: number) => void) | null = null
+  let failed = false
+  let status: number | undefined
+
+  const fail = () => {
+    if (controller.signal.aborted || failed) return
+    failed = true
+    errorHandler?.(status)
+  }
+
+  const dispatch = (type: string, data: string) => {
+    listeners.get(type)?.forEach((listener) => listener(new MessageEvent(type, { data })))
+  }
+
+  const read = async () => {
+    const response = await fetch(url, {
+      headers: { Accept: "text/event-stream", ...headers },
+      signal: controller.signal,
+    })
+    if (!response.ok || !response.body) {
+      status = response.status
+      throw new Error(`HTTP ${response.status}`)
+    }
+    const reader = response.body.pipeThrough(new TextDecoderStream()).getReader()
+
+    let buffer = ""
+    let type = "message"
+    let data: string[] = []
+    for (;;) {
+      const { value, done } = await reader.read()
+      if (done) break
+      buffer += value
+      // A trailing "\r" may be the first half of a "\r\n" split across chunks, so it waits for the next one
+      const end = buffer.endsWith("\r") ? buffer.length - 1 : buffer.length
+      const lines = buffer.slice(0, end).split(/\r\n|\r|\n/)
+      buffer = (lines.pop() ?? "") + buffer.slice(end)
+      lines.forEach((line) => {
+        // A blank line ends the event; lines starting with ":" are comments such as keepalives
+        if (line === "") {
+          if (data.length > 0) dispatch(type, data.join("\n"))
+          type = "message"
+          data = []
+        } else if (!line.startsWith(":")) {
+          const colon = line.indexOf(":")
+          const field = colon === -1 ? line : line.slice(0, colon)
+          const value = colon === -1 ? "" : line.slice(colon + 1).replace(/^ /, "")
+          if (field === "event") type = value
+          else if (field === "data") data.push(value)
+        }
+      })
+    }
+  }
+
+  // The stream ending is treated as an error too, as it is by EventSource, so the caller reconnects
+  read().then(fail, fail)
+
+  return {
+    addEventListener: (type, listener) => listeners.set(type, [...(listeners.get(type) ?? []), listener]),
+    onError: (handler) => {
+      errorHandler = handler
+    },
+    close: () => controller.abort(),
+  }
+}
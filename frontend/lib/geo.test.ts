@@ -0,0 +1,97 @@
+import { describe, expect, it } from "vitest"
+import {
+  createDatabaseResolver,
+  createPrivateAddressResolver,
+  createResolverChain,
+  DEFAULT_HOME_SITE,
+  hashResolver,
+  parseGeoDatabase,
+  parseHomeSite,
+} from "@/lib/geo"
+
+describe("createDatabaseResolver", () => {
+  const resolver = createDatabaseResolver([
+    { cidr: "8.8.0.0/16", lat: 1, long: 1, country: "US" },
+    { cidr: "8.8.8.0/24", lat: 2, long: 2, city: "Mountain View", country: "US" },
+    { cidr: "2001:4860::/32", lat: 3, long: 3 },
+  ])
+
+  it("picks the longest matching prefix", () => {
+    expect(resolver.resolve("8.8.8.8")).toEqual({
+      lat: 2,
+      long: 2,
+      city: "Mountain View",
+      country: "US",
+      source: "database",
+    })
+    expect(resolver.resolve("8.8.4.4")).toMatchObject({ lat: 1, long: 1 })
+  })
+
+  it("looks up IPv6 addresses", () => {
+    expect(resolver.resolve("2001:4860:4860::8888")).toMatchObject({ lat: 3, long: 3 })
+  })
+
+  it("resolves nothing outside its networks", () => {
+    expect(resolver.resolve("1.1.1.1")).toBeNull()
+    expect(resolver.resolve("not an ip")).toBeNull()
+  })
+})
+
+describe("createResolverChain", () => {
+  it("takes the first resolver with an answer and falls back to the hash placement", () => {
+    const chain = createResolverChain([
+      createPrivateAddressResolver(),
+      createDatabaseResolver([{ cidr: "1.1.1.0/24", lat: -33.9, long: 151.2 }]),
+    ])
+    expect(chain.resolve("192.168.1.10")?.source).toBe("private")
+    expect(chain.resolve("1.1.1.1")?.source).toBe("database")
+    expect(chain.resolve("9.9.9.9")).toEqual(hashResolver.resolve("9.9.9.9"))
+  })
+})
+
+describe("createPrivateAddressResolver", () => {
+  it("places private addresses within two degrees of the home site", () => {
+    const location = createPrivateAddressResolver().resolve("10.1.2.3")!
+    expect(
+      Math.hypot(location.lat - DEFAULT_HOME_SITE.lat, location.long - DEFAULT_HOME_SITE.long),
+    ).toBeLessThanOrEqual(2)
+    expect(createPrivateAddressResolver().resolve("8.8.8.8")).toBeNull()
+  })
+})
+
+describe("parseGeoDatabase", () => {
+  it("reads GeoLite-style CSV with quoted fields", () => {
+    const csv = [
+      "network,latitude,longitude,city_name,country_iso_code",
+      '8.8.8.0/24,37.4,-122.1,"Mountain View, CA",US',
+      "1.1.1.0/24,not-a-number,151.2,,AU",
+      "",
+    ].join("\n")
+    expect(parseGeoDatabase(csv)).toEqual([
+      { cidr: "8.8.8.0/24", lat: 37.4, long: -122.1, city: "Mountain View, CA", country: "US", asn: undefined },
+    ])
+  })
+
+  it("reads JSON arrays and drops rows without coordinates", () => {
+    const json = JSON.stringify([
+      { network: "8.8.8.0/24", lat: "37.4", long: -122.1 },
+      { cidr: "1.1.1.0/24", lat: "x", long: 151.2 },
+    ])
+    expect(parseGeoDatabase(json)).toEqual([{ network: "8.8.8.0/24", cidr: "8.8.8.0/24", lat: 37.4, long: -122.1 }])
+  })
+
+  it("returns nothing when required CSV columns are missing", () => {
+    expect(parseGeoDatabase("network,city\n8.8.8.0/24,Somewhere")).toEqual([])
+  })
+})
+
+describe("parseHomeSite", () => {
+  it("parses coordinates with an optional city and country", () => {
+    expect(parseHomeSite("51.5, -0.12, London, GB")).toEqual({ lat: 51.5, long: -0.12, city: "London", country: "GB" })
+  })
+
+  it("falls back to the default site", () => {
+    expect(parseHomeSite(undefined)).toBe(DEFAULT_HOME_SITE)
+    expect(parseHomeSite("north,west")).toBe(DEFAULT_HOME_SITE)
+  })
+})
@@ -0,0 +1,222 @@
+import { isPrivateIP, maskAddress, parseCidr, parseIP, type IPVersion } from "@/lib/ip"
+
+export type GeoSource = "inventory" | "private" | "database" | "hash"
+
+export interface GeoLocation {
+  lat: number
+  long: number
+  city?: string
+  country?: string
+  asn?: string
+  source: GeoSource
+}
+
+export interface GeoResolver {
+  resolve: (ip: string) => GeoLocation | null
+}
+
+export interface GeoCidrEntry {
+  cidr: string
+  lat: number
+  long: number
+  city?: string
+  country?: string
+  asn?: string
+}
+
+export interface HomeSite {
+  lat: number
+  long: number
+  city?: string
+  country?: string
+}
+
+// Stanford, where CS144 routers usually live
+export const DEFAULT_HOME_SITE: HomeSite = { lat: 37.4275, long: -122.1697, city: "Stanford", country: "US" }
+
+function hashIP(ip: string): number {
+  // Simple hash function for deterministic randomness
+  let hash = 0
+  for (let i = 0; i < ip.length; i++) {
+    const char = ip.charCodeAt(i)
+    hash = (hash << 5) - hash + char
+    hash = hash & hash // Convert to 32bit integer
+  }
+  return hash
+}
+
+/** Last-resort placement: a deterministic but meaningless spot derived from the address. */
+export const hashResolver: GeoResolver = {
+  resolve: (ip) => {
+    const hash = hashIP(ip)
+
+    // Use hash to generate lat/long within reasonable bounds
+    // Lat: -60 to 70 (avoiding extreme polar regions)
+    // Long: -180 to 180
+    const hash1 = Math.abs(hash)
+    const hash2 = Math.abs((hash * 2654435761) & 0xffffffff) // Secondary hash
+
+    const lat = (hash1 % 13000) / 100 - 60 // Range: -60 to 70
+    const long = (hash2 % 36000) / 100 - 180 // Range: -180 to 180
+
+    return { lat, long, source: "hash" }
+  },
+}
+
+/** Clusters private, loopback and CGNAT addresses in a small ring around the home site. */
+export function createPrivateAddressResolver(home: HomeSite = DEFAULT_HOME_SITE): GeoResolver {
+  return {
+    resolve: (ip) => {
+      if (!isPrivateIP(ip)) return null
+      const hash = Math.abs(hashIP(ip))
+      const angle = ((hash % 360) * Math.PI) / 180
+      const radius = 0.5 + ((hash >> 9) % 150) / 100 // 0.5 to 2 degrees
+      return {
+        lat: home.lat + radius * Math.sin(angle),
+        long: home.long + radius * Math.cos(angle),
+        city: home.city,
+        country: home.country,
+        source: "private",
+      }
+    },
+  }
+}
+
+function createCidrResolver(entries: GeoCidrEntry[], source: GeoSource): GeoResolver {
+  // Bucket networks by family and prefix length so lookups are a longest-prefix match over at most
+  // 33 maps for IPv4 and 129 for IPv6
+  const buckets: Record<IPVersion, Map<number, Map<bigint, GeoCidrEntry>>> = { 4: new Map(), 6: new Map() }
+  entries.forEach((entry) => {
+    const cidr = parseCidr(entry.cidr)
+    if (!cidr) return
+    const family = buckets[cidr.version]
+    if (!family.has(cidr.prefix)) family.set(cidr.prefix, new Map())
+    family.get(cidr.prefix)!.set(cidr.network, entry)
+  })
+  const prefixes = {
+    4: Array.from(buckets[4].keys()).sort((a, b) => b - a),
+    6: Array.from(buckets[6].keys()).sort((a, b) => b - a),
+  }
+
+  return {
+    resolve: (ip) => {
+      const address = parseIP(ip)
+      if (!address) return null
+      for (const prefix of prefixes[address.version]) {
+        const network = maskAddress(address.value, prefix, address.version)
+        const entry = buckets[address.version].get(prefix)!.get(network)
+        if (entry) {
+          const { cidr: _cidr, ...location } = entry
+          return { ...location, source }
+        }
+      }
+      return null
+    },
+  }
+}
+
+/** Offline CIDR→location lookup, e.g. built from a GeoLite-style blocks file. */
+export function createDatabaseResolver(entries: GeoCidrEntry[]): GeoResolver {
+  return createCidrResolver(entries, "database")
+}
+
+/** Manually maintained placements that win over every other resolver. */
+export function createInventoryResolver(entries: GeoCidrEntry[]): GeoResolver {
+  return createCidrResolver(entries, "inventory")
+}
+
+/** Tries each resolver in order and falls back to the hash placement. */
+export function createResolverChain(resolvers: GeoResolver[]): GeoResolver {
+  return {
+    resolve: (ip) => {
+      for (const resolver of resolvers) {
+        const location = resolver.resolve(ip)
+        if (location) return location
+      }
+      return hashResolver.resolve(ip)
+    },
+  }
+}
+
+const CSV_COLUMNS: Record<keyof GeoCidrEntry, string[]> = {
+  cidr: ["network", "cidr"],
+  lat: ["latitude", "lat"],
+  long: ["longitude", "long", "lon", "lng"],
+  city: ["city", "city_name"],
+  country: ["country", "country_iso_code", "country_name"],
+  asn: ["asn", "autonomous_system_number"],
+}
+
+function splitCsvLine(line: string): string[] {
+  const fields: string[] = []
+  let current = ""
+  let quoted = false
+  for (const char of line) {
+    if (char === '"') quoted = !quoted
+    else if (char === "," && !quoted) {
+      fields.push(current)
+      current = ""
+    } else current += char
+  }
+  fields.push(current)
+  return fields.map((f) => f.trim())
+}
+
+/**
+ * Parses a location database. JSON is an array of {@link GeoCidrEntry}; CSV needs a header row
+ * with at least network, latitude and longitude columns (GeoLite2 blocks files work as-is).
+ */
+export function parseGeoDatabase(text: string): GeoCidrEntry[] {
+  const trimmed = text.trim()
+  if (trimmed.startsWith("[")) {
+    const rows: any[] = JSON.parse(trimmed)
+    return rows
+      .map((row) => ({ ...row, cidr: row.cidr ?? row.network, lat: Number(row.lat), long: Number(row.long) }))
+      .filter((row) => typeof row.cidr === "string" && !isNaN(row.lat) && !isNaN(row.long))
+  }
+
+  const [header, ...lines] = trimmed.split(/\r?\n/)
+  const columns = splitCsvLine(header).map((c) => c.toLowerCase())
+  const indexOf = (key: keyof GeoCidrEntry) => columns.findIndex((c) => CSV_COLUMNS[key].includes(c))
+  const index = {
+    cidr: indexOf("cidr"),
+    lat: indexOf("lat"),
+    long: indexOf("long"),
+    city: indexOf("city"),
+    country: indexOf("country"),
+    asn: indexOf("asn"),
+  }
+  if (index.cidr < 0 || index.lat < 0 || index.long < 0) return []
+
+  const entries: GeoCidrEntry[] = []
+  lines.forEach((line) => {
+    if (!line.trim()) return
+    const fields = splitCsvLine(line)
+    const lat = parseFloat(fields[index.lat])
+    const long = parseFloat(fields[index.long])
+    if (isNaN(lat) || isNaN(long)) return
+    entries.push({
+      cidr: fields[index.cidr],
+      lat,
+      long,
+      city: index.city >= 0 ? fields[index.city] || undefined : undefined,
+      country: index.country >= 0 ? fields[index.country] || undefined : undefined,
+      asn: index.asn >= 0 ? fields[index.asn] || undefined : undefined,
+    })
+  })
+  return entries
+}
+
+/** Parses `lat,long[,city[,country]]`, as used by NEXT_PUBLIC_HOME_SITE. */
+export function parseHomeSite(value: string | undefined): HomeSite {
+  if (!value) return DEFAULT_HOME_SITE
+  const [lat, long, city, country] = value.split(",").map((part) => part.trim())
+  const home = { lat: parseFloat(lat), long: parseFloat(long), city: city || undefined, country: country || undefined }
+  return isNaN(home.lat) || isNaN(home.long) ? DEFAULT_HOME_SITE : home
+}
+
+export async function fetchGeoDatabase(url: string): Promise<GeoCidrEntry[]> {
+  const response = await fetch(url)
+  if (!response.ok) throw new Error(`Failed to load geo database from ${url}: HTTP ${response.status}`)
+  return parseGeoDatabase(await response.text())
+}
@@ -0,0 +1,119 @@
+import { describe, expect, it } from "vitest"
+import {
+  addStaticLink,
+  createInventoryLookup,
+  EMPTY_INVENTORY,
+  parseInventory,
+  removeDevice,
+  upsertDevice,
+  type Inventory,
+} from "@/lib/inventory"
+import { transformApiResponse } from "@/lib/topology"
+
+describe("parseInventory", () => {
+  it("reads YAML, normalising addresses and roles and dropping invalid entries", () => {
+    const inventory = parseInventory(`
+devices:
+  - ip: 10.0.0.1
+    name: Core router
+    role: router
+    location: { lat: 37.4, lon: -122.1, city: Stanford }
+    tags: [core, 1]
+    static: true
+  - cidr: 2001:DB8:0:0::/64
+    name: Lab
+  - match: not-an-address
+links:
+  - { source: 10.0.0.1, target: 2001:db8::0001 }
+  - { source: 10.0.0.1, target: nowhere }
+`)
+    expect(inventory).toEqual({
+      devices: [
+        {
+          match: "10.0.0.1",
+          name: "Core router",
+          role: "Router",
+          location: { lat: 37.4, long: -122.1, city: "Stanford", country: undefined },
+          tags: ["core", "1"],
+          static: true,
+        },
+        { match: "2001:DB8:0:0::/64", name: "Lab" },
+      ],
+      links: [{ source: "10.0.0.1", target: "2001:db8::1" }],
+    })
+  })
+
+  it("takes a bare JSON list as the devices", () => {
+    expect(parseInventory('[{ "ip": "10.0.0.2" }]')).toEqual({ devices: [{ match: "10.0.0.2" }], links: [] })
+  })
+})
+
+describe("createInventoryLookup", () => {
+  it("prefers the most specific entry", () => {
+    const lookup = createInventoryLookup({
+      devices: [
+        { match: "10.0.0.0/8", name: "Campus" },
+        { match: "10.0.0.7", name: "Printer" },
+        { match: "10.0.0.0/24" },
+      ],
+      links: [],
+    })
+    expect(lookup("10.0.0.7")?.name).toBe("Printer")
+    expect(lookup("10.0.0.8")?.match).toBe("10.0.0.0/24")
+    expect(lookup("10.9.0.1")?.name).toBe("Campus")
+    expect(lookup("192.168.0.1")).toBeNull()
+  })
+})
+
+describe("inventory editing", () => {
+  it("replaces a device with the same match or appends a new one", () => {
+    const one = upsertDevice(EMPTY_INVENTORY, { match: "10.0.0.1", name: "a" })
+    const two = upsertDevice(one, { match: "10.0.0.2", name: "b" })
+    expect(upsertDevice(two, { match: "10.0.0.1", name: "c" }).devices.map((d) => d.name)).toEqual(["c", "b"])
+    expect(removeDevice(two, "10.0.0.1").devices.map((d) => d.name)).toEqual(["b"])
+  })
+
+  it("adds each static link once", () => {
+    const link = { source: "10.0.0.1", target: "10.0.0.2" }
+    const once = addStaticLink(EMPTY_INVENTORY, link)
+    expect(addStaticLink(once, { ...link })).toBe(once)
+  })
+})
+
+describe("transformApiResponse with an inventory", () => {
+  const inventory: Inventory = {
+    devices: [
+      { match: "10.0.0.1", name: "Core", role: "Server", location: { lat: 1, long: 2 } },
+      { match: "10.0.0.9", name: "Spare", static: true },
+    ],
+    links: [
+      { source: "10.0.0.1", target: "10.0.0.9" },
+      { source: "10.0.0.1", target: "10.0.0.5" },
+    ],
+  }
+
+  it("applies device details and adds static devices and links", () => {
+    const topology = transformApiResponse(
+      {
+        nodes: [
+          { ip: "10.0.0.1", packets: 5 },
+          { ip: "10.0.0.5", packets: 0 },
+        ],
+        edges: [{ source: "10.0.0.1", target: "10.0.0.5", weight: 5 }],
+        timestamp: 0,
+      },
+      { inventory },
+    )
+    expect(topology.nodes.map((n) => [n.name, n.role, n.status])).toEqual([
+      ["Core", "Server", "active"],
+      ["Node 10.0.0.5", "Client", "idle"],
+      ["Spare", "Client", "idle"],
+    ])
+    expect(topology.nodes[0]).toMatchObject({ lat: 1, long: 2, location: { source: "inventory" } })
+    // The observed link isn't duplicated by the inventory's
+    expect(topology.links.map((l) => [l.target, l.static ?? false])).toEqual([
+      ["node-10-0-0-5", false],
+      ["node-10-0-0-9", true],
+    ])
+  })
+})
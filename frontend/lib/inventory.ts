@@ -0,0 +1,127 @@
+import { parse as parseYaml } from "yaml"
+import { addressInCidr, isIPAddress, normalizeIP, parseCidr, parseIP } from "@/lib/ip"
+import type { NetworkNode } from "@/lib/topology"
+
+export interface InventoryDevice {
+  match: string // exact IP or CIDR
+  name?: string
+  role?: NetworkNode["role"]
+  location?: { lat: number; long: number; city?: string; country?: string }
+  tags?: string[]
+  static?: boolean // show even when the backend hasn't seen traffic for it (exact IPs only)
+}
+
+export interface InventoryLink {
+  source: string // IP
+  target: string // IP
+}
+
+export interface Inventory {
+  devices: InventoryDevice[]
+  links: InventoryLink[]
+}
+
+export type InventoryLookup = (ip: string) => InventoryDevice | null
+
+export const EMPTY_INVENTORY: Inventory = { devices: [], links: [] }
+
+const STORAGE_KEY = "144network.inventory"
+const ROLES: NetworkNode["role"][] = ["Router", "Server", "Client"]
+
+function normalizeDevice(raw: any): InventoryDevice | null {
+  const match = raw?.match ?? raw?.ip ?? raw?.cidr
+  if (typeof match !== "string" || !parseCidr(match)) return null
+
+  // Single addresses are matched against node IPs as text too, so they are kept in canonical form
+  const device: InventoryDevice = { match: normalizeIP(match) ?? match.trim() }
+  if (typeof raw.name === "string") device.name = raw.name
+  const role = ROLES.find((r) => r.toLowerCase() === String(raw.role ?? "").toLowerCase())
+  if (role) device.role = role
+  const lat = Number(raw.location?.lat)
+  const long = Number(raw.location?.long ?? raw.location?.lon)
+  if (!isNaN(lat) && !isNaN(long) && raw.location) {
+    device.location = { lat, long, city: raw.location.city, country: raw.location.country }
+  }
+  if (Array.isArray(raw.tags)) device.tags = raw.tags.map(String)
+  if (raw.static === true) device.static = true
+  return device
+}
+
+/** Parses an inventory file. JSON and YAML share the same shape: `{ devices: [...], links: [...] }`. */
+export function parseInventory(text: string): Inventory {
+  const trimmed = text.trim()
+  const raw: any = trimmed.startsWith("{") || trimmed.startsWith("[") ? JSON.parse(trimmed) : parseYaml(trimmed)
+  // A bare list is taken to be the device list
+  const devices: any[] = Array.isArray(raw) ? raw : (raw?.devices ?? [])
+  const links: any[] = Array.isArray(raw) ? [] : (raw?.links ?? [])
+
+  return {
+    devices: devices.map(normalizeDevice).filter((d): d is InventoryDevice => d !== null),
+    links: links
+      .filter((l) => isIPAddress(String(l?.source)) && isIPAddress(String(l?.target)))
+      .map((l) => ({ source: normalizeIP(String(l.source))!, target: normalizeIP(String(l.target))! })),
+  }
+}
+
+export function serializeInventory(inventory: Inventory): string {
+  return JSON.stringify(inventory, null, 2)
+}
+
+export async function fetchInventory(url: string): Promise<Inventory> {
+  const response = await fetch(url)
+  if (!response.ok) throw new Error(`Failed to load inventory from ${url}: HTTP ${response.status}`)
+  return parseInventory(await response.text())
+}
+
+export function loadStoredInventory(): Inventory {
+  if (typeof localStorage === "undefined") return EMPTY_INVENTORY
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY)
+    return stored ? parseInventory(stored) : EMPTY_INVENTORY
+  } catch {
+    return EMPTY_INVENTORY
+  }
+}
+
+export function saveStoredInventory(inventory: Inventory) {
+  if (typeof localStorage === "undefined") return
+  localStorage.setItem(STORAGE_KEY, serializeInventory(inventory))
+}
+
+/** Looks up the device entry for an IP; an exact match wins, then the most specific CIDR. */
+export function createInventoryLookup(inventory: Inventory): InventoryLookup {
+  const entries = inventory.devices
+    .map((device) => ({ device, cidr: parseCidr(device.match)! }))
+    .sort((a, b) => b.cidr.prefix - a.cidr.prefix)
+
+  return (ip) => {
+    const address = parseIP(ip)
+    if (!address) return null
+    const entry = entries.find(({ cidr }) => addressInCidr(address, cidr))
+    return entry?.device ?? null
+  }
+}
+
+/** Replaces the entry for `device.match` in place, or appends it. */
+export function upsertDevice(inventory: Inventory, device: InventoryDevice): Inventory {
+  const exists = inventory.devices.some((d) => d.match === device.match)
+  return {
+    ...inventory,
+    devices: exists
+      ? inventory.devices.map((d) => (d.match === device.match ? device : d))
+      : [...inventory.devices, device],
+  }
+}
+
+export function removeDevice(inventory: Inventory, match: string): Inventory {
+  return { ...inventory, devices: inventory.devices.filter((d) => d.match !== match) }
+}
+
+export function addStaticLink(inventory: Inventory, link: InventoryLink): Inventory {
+  const exists = inventory.links.some((l) => l.source === link.source && l.target === link.target)
+  return exists ? inventory : { ...inventory, links: [...inventory.links, link] }
+}
+
+export function removeStaticLink(inventory: Inventory, link: InventoryLink): Inventory {
+  return { ...inventory, links: inventory.links.filter((l) => l.source !== link.source || l.target !== link.target) }
+}
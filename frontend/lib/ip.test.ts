@@ -0,0 +1,123 @@
+import { describe, expect, it } from "vitest"
+import {
+  abbreviateIP,
+  formatCidr,
+  formatIPv6,
+  ipInCidr,
+  ipScope,
+  isPrivateIP,
+  normalizeIP,
+  parseCidr,
+  parseIPv4,
+  parseIPv6,
+} from "@/lib/ip"
+
+describe("parseIPv4", () => {
+  it("parses dotted quads and rejects anything else", () => {
+    expect(parseIPv4("192.168.1.10")).toBe(0xc0a8010a)
+    expect(parseIPv4("255.255.255.255")).toBe(0xffffffff)
+    ;["256.0.0.1", "1.2.3", "1.2.3.4.5", "1.2.3.x", "1.2.3.-4", "1.2.3.0004"].forEach((ip) =>
+      expect(parseIPv4(ip)).toBeNull(),
+    )
+  })
+})
+
+describe("parseIPv6", () => {
+  it("expands :: compression", () => {
+    expect(parseIPv6("::")).toBe(BigInt(0))
+    expect(parseIPv6("::1")).toBe(BigInt(1))
+    expect(parseIPv6("2001:db8::")).toBe(BigInt("0x20010db8000000000000000000000000"))
+    expect(parseIPv6("2001:DB8:0:0:8:800:200C:417A")).toBe(parseIPv6("2001:db8::8:800:200c:417a"))
+  })
+
+  it("accepts an embedded IPv4 tail and drops the zone", () => {
+    expect(parseIPv6("::ffff:192.0.2.1")).toBe(BigInt("0xffffc0000201"))
+    expect(parseIPv6("fe80::1%eth0")).toBe(parseIPv6("fe80::1"))
+  })
+
+  it("rejects malformed addresses", () => {
+    ;[
+      "1::2::3",
+      "1:2:3:4:5:6:7:8:9",
+      "1:2:3:4:5:6:7",
+      "1:2:3:4:5:6:7::8",
+      "12345::",
+      "g::1",
+      "::1.2.3.999",
+      "1.2.3.4",
+    ].forEach((ip) => expect(parseIPv6(ip)).toBeNull())
+  })
+})
+
+describe("formatIPv6", () => {
+  it("follows RFC 5952", () => {
+    const format = (ip: string) => formatIPv6(parseIPv6(ip)!)
+    expect(format("2001:0DB8:0000:0000:0000:0000:0000:0001")).toBe("2001:db8::1")
+    // Only runs of two or more zero groups are compressed, and the first of equally long runs
+    expect(format("2001:db8:0:1:1:1:1:1")).toBe("2001:db8:0:1:1:1:1:1")
+    expect(format("2001:0:0:1:0:0:1:1")).toBe("2001::1:0:0:1:1")
+    expect(format("2001:db8:0:0:1:0:0:0")).toBe("2001:db8:0:0:1::")
+    expect(format("0:0:0:0:0:0:0:0")).toBe("::")
+  })
+})
+
+describe("normalizeIP", () => {
+  it("gives one spelling per host", () => {
+    expect(normalizeIP(" 2001:DB8::0:1 ")).toBe("2001:db8::1")
+    expect(normalizeIP("::ffff:10.0.0.1")).toBe("10.0.0.1")
+    expect(normalizeIP("10.0.0.1")).toBe("10.0.0.1")
+    expect(normalizeIP("example.com")).toBeNull()
+  })
+})
+
+describe("parseCidr", () => {
+  it("masks the network for either family", () => {
+    expect(formatCidr(parseCidr("10.1.2.3/8")!)).toBe("10.0.0.0/8")
+    expect(formatCidr(parseCidr("2001:db8:abcd:12::5/48")!)).toBe("2001:db8:abcd::/48")
+    expect(formatCidr(parseCidr("2001:db8::1")!)).toBe("2001:db8::1/128")
+    expect(formatCidr(parseCidr("0.0.0.0/0")!)).toBe("0.0.0.0/0")
+  })
+
+  it("rejects bad prefixes", () => {
+    ;["10.0.0.0/33", "::/129", "10.0.0.0/x", "10.0.0.0/8/8", "10.0.0.0/"].forEach((cidr) =>
+      expect(parseCidr(cidr)).toBeNull(),
+    )
+  })
+})
+
+describe("ipInCidr", () => {
+  it("matches within the family only", () => {
+    expect(ipInCidr("2001:db8:1::5", parseCidr("2001:db8::/32")!)).toBe(true)
+    expect(ipInCidr("2001:db9::5", parseCidr("2001:db8::/32")!)).toBe(false)
+    expect(ipInCidr("10.0.0.1", parseCidr("::/0")!)).toBe(false)
+    expect(ipInCidr("10.255.0.1", parseCidr("10.0.0.0/8")!)).toBe(true)
+    expect(ipInCidr("not an ip", parseCidr("0.0.0.0/0")!)).toBe(false)
+  })
+})
+
+describe("ipScope", () => {
+  it("classifies special-purpose ranges", () => {
+    expect(ipScope("::1")).toBe("loopback")
+    expect(ipScope("fe80::1")).toBe("link-local")
+    expect(ipScope("fd12:3456::1")).toBe("unique-local")
+    expect(ipScope("100.64.1.1")).toBe("private")
+    expect(ipScope("ff02::1")).toBe("multicast")
+    expect(ipScope("2606:4700::1111")).toBe("global")
+  })
+
+  it("treats local scopes as private but not multicast", () => {
+    expect(isPrivateIP("fd00::1")).toBe(true)
+    expect(isPrivateIP("172.31.255.255")).toBe(true)
+    expect(isPrivateIP("172.32.0.1")).toBe(false)
+    expect(isPrivateIP("224.0.0.251")).toBe(false)
+  })
+})
+
+describe("abbreviateIP", () => {
+  it("keeps the routing prefix and the last group of long IPv6 addresses", () => {
+    expect(abbreviateIP("2001:db8:85a3:8d3:1319:8a2e:370:7334")).toBe("2001:db8:85a3:…:7334")
+    expect(abbreviateIP("2a00:1450:4009:81d::200e")).toBe("2a00:1450:4009:…:200e")
+    expect(abbreviateIP("2001:db8::1")).toBe("2001:db8::1")
+    expect(abbreviateIP("192.168.100.200", 10)).toBe("192.168.100.200")
+  })
+})
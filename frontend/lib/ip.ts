@@ -0,0 +1,197 @@
+export type IPVersion = 4 | 6
+
+/** An address as an unsigned integer: 32 bits for IPv4, 128 for IPv6. */
+export interface IPAddress {
+  version: IPVersion
+  value: bigint
+}
+
+export interface Cidr {
+  version: IPVersion
+  network: bigint
+  prefix: number
+}
+
+export type IPScope = "loopback" | "link-local" | "unique-local" | "private" | "multicast" | "global"
+
+const ADDRESS_BITS: Record<IPVersion, number> = { 4: 32, 6: 128 }
+// The target predates bigint literals
+const ZERO = BigInt(0)
+const GROUP_BITS = BigInt(16)
+const GROUP_MASK = BigInt(0xffff)
+const IPV4_BITS = BigInt(32)
+const IPV4_MASK = BigInt(0xffffffff)
+
+export function parseIPv4(ip: string): number | null {
+  const parts = ip.trim().split(".")
+  if (parts.length !== 4) return null
+  let value = 0
+  for (const part of parts) {
+    if (!/^\d{1,3}$/.test(part)) return null
+    const octet = parseInt(part, 10)
+    if (octet > 255) return null
+    value = value * 256 + octet
+  }
+  return value
+}
+
+export function formatIPv4(value: number): string {
+  return [24, 16, 8, 0].map((shift) => Math.floor(value / 2 ** shift) % 256).join(".")
+}
+
+/**
+ * Parses any textual IPv6 form: `::` compression, an embedded IPv4 tail (`::ffff:192.0.2.1`) and a zone
+ * suffix (`fe80::1%eth0`), which is dropped since it only means something on the capturing host.
+ */
+export function parseIPv6(ip: string): bigint | null {
+  let text = ip.trim().toLowerCase().replace(/%.*$/, "")
+  if (!text.includes(":")) return null
+
+  // An embedded IPv4 address stands in for the last two groups
+  const lastColon = text.lastIndexOf(":")
+  const tail = text.slice(lastColon + 1)
+  if (tail.includes(".")) {
+    const ipv4 = parseIPv4(tail)
+    if (ipv4 === null) return null
+    text = `${text.slice(0, lastColon + 1)}${(ipv4 >>> 16).toString(16)}:${(ipv4 & 0xffff).toString(16)}`
+  }
+
+  const halves = text.split("::")
+  if (halves.length > 2) return null
+  const head = halves[0] ? halves[0].split(":") : []
+  const rest = halves.length === 2 && halves[1] ? halves[1].split(":") : []
+  const missing = 8 - head.length - rest.length
+  if (halves.length === 2 ? missing < 1 : missing !== 0) return null
+
+  const groups = [...head, ...Array<string>(missing).fill("0"), ...rest]
+  let value = ZERO
+  for (const group of groups) {
+    if (!/^[0-9a-f]{1,4}$/.test(group)) return null
+    value = (value << GROUP_BITS) | BigInt(parseInt(group, 16))
+  }
+  return value
+}
+
+/** RFC 5952 text: lowercase, leading zeros dropped and the longest run of two or more zero groups as `::`. */
+export function formatIPv6(value: bigint): string {
+  const groups = Array.from({ length: 8 }, (_, i) => Number((value >> BigInt(112 - i * 16)) & GROUP_MASK))
+
+  let bestStart = -1
+  let bestLength = 1
+  for (let start = 0; start < 8;) {
+    if (groups[start] !== 0) {
+      start++
+      continue
+    }
+    let end = start
+    while (end < 8 && groups[end] === 0) end++
+    if (end - start > bestLength) {
+      bestStart = start
+      bestLength = end - start
+    }
+    start = end
+  }
+
+  const hex = groups.map((group) => group.toString(16))
+  if (bestStart === -1) return hex.join(":")
+  return `${hex.slice(0, bestStart).join(":")}::${hex.slice(bestStart + bestLength).join(":")}`
+}
+
+export function parseIP(ip: string): IPAddress | null {
+  const ipv4 = parseIPv4(ip)
+  if (ipv4 !== null) return { version: 4, value: BigInt(ipv4) }
+  const ipv6 = parseIPv6(ip)
+  return ipv6 === null ? null : { version: 6, value: ipv6 }
+}
+
+export function formatIP(address: IPAddress): string {
+  return address.version === 4 ? formatIPv4(Number(address.value)) : formatIPv6(address.value)
+}
+
+// ::ffff:0:0/96
+const IPV4_MAPPED_PREFIX = GROUP_MASK
+
+/**
+ * The canonical text of an address, so the same host is always one node however it was written.
+ * IPv4-mapped IPv6 addresses (`::ffff:a.b.c.d`) become plain IPv4, which is how the host is known.
+ */
+export function normalizeIP(ip: string): string | null {
+  const address = parseIP(ip)
+  if (!address) return null
+  if (address.version === 6 && address.value >> IPV4_BITS === IPV4_MAPPED_PREFIX) {
+    return formatIPv4(Number(address.value & IPV4_MASK))
+  }
+  return formatIP(address)
+}
+
+export function isIPAddress(ip: string): boolean {
+  return parseIP(ip) !== null
+}
+
+/** The network part of `value`, keeping the top `prefix` of the family's bits. */
+export function maskAddress(value: bigint, prefix: number, version: IPVersion): bigint {
+  const hostBits = BigInt(ADDRESS_BITS[version] - prefix)
+  return (value >> hostBits) << hostBits
+}
+
+/** Parses `address/n` for either family; a bare address is a single-host network. */
+export function parseCidr(cidr: string): Cidr | null {
+  const [address, prefixText, ...extra] = cidr.trim().split("/")
+  if (extra.length > 0) return null
+  const ip = parseIP(address)
+  if (!ip) return null
+  const bits = ADDRESS_BITS[ip.version]
+  const prefix = prefixText === undefined ? bits : /^\d+$/.test(prefixText) ? parseInt(prefixText, 10) : NaN
+  if (isNaN(prefix) || prefix > bits) return null
+  return { version: ip.version, network: maskAddress(ip.value, prefix, ip.version), prefix }
+}
+
+export function formatCidr(cidr: Cidr): string {
+  return `${formatIP({ version: cidr.version, value: cidr.network })}/${cidr.prefix}`
+}
+
+export function addressInCidr(address: IPAddress, cidr: Cidr): boolean {
+  return address.version === cidr.version && maskAddress(address.value, cidr.prefix, cidr.version) === cidr.network
+}
+
+export function ipInCidr(ip: string, cidr: Cidr): boolean {
+  const address = parseIP(ip)
+  return address !== null && addressInCidr(address, cidr)
+}
+
+function cidrs(list: string[]): Cidr[] {
+  return list.map(parseCidr).filter((c): c is Cidr => c !== null)
+}
+
+const SCOPE_RANGES: [IPScope, Cidr[]][] = [
+  ["loopback", cidrs(["127.0.0.0/8", "::1/128"])],
+  ["link-local", cidrs(["169.254.0.0/16", "fe80::/10"])],
+  ["unique-local", cidrs(["fc00::/7"])],
+  ["private", cidrs(["10.0.0.0/8", "172.16.0.0/12", "192.168.0.0/16", "100.64.0.0/10"])],
+  ["multicast", cidrs(["224.0.0.0/4", "ff00::/8"])],
+]
+
+/** Where an address is reachable from; anything not in a special-purpose range is global. */
+export function ipScope(ip: string): IPScope {
+  const address = parseIP(ip)
+  if (!address) return "global"
+  return SCOPE_RANGES.find(([, ranges]) => ranges.some((range) => addressInCidr(address, range)))?.[0] ?? "global"
+}
+
+/** RFC1918, CGNAT (RFC6598), loopback, link-local and IPv6 unique local addresses. */
+export function isPrivateIP(ip: string): boolean {
+  const scope = ipScope(ip)
+  return scope !== "global" && scope !== "multicast"
+}
+
+/**
+ * Shortens long IPv6 addresses for labels by keeping the routing prefix and the interface's last group,
+ * e.g. `2001:db8:85a3:…:7334`. IPv4 and short IPv6 addresses are returned unchanged.
+ */
+export function abbreviateIP(ip: string, maxLength = 20): string {
+  if (ip.length <= maxLength || !ip.includes(":")) return ip
+  const [network, host] = ip.split("::")
+  const groups = network.split(":")
+  const last = (host ?? network).split(":").pop()
+  return `${groups.slice(0, 3).join(":")}:…:${last}`
+}
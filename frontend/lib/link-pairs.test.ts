@@ -0,0 +1,37 @@
+import { describe, expect, it } from "vitest"
+import { isPairActive, isPairAsymmetric, mergeLinkPairs, pairTraffic, type LinkPair } from "@/lib/link-pairs"
+import { link } from "@/lib/test-fixtures"
+
+function pair(forward: number, reverse: number): LinkPair {
+  return { key: "a<>b", source: "a", target: "b", forward, reverse, links: [] }
+}
+
+describe("mergeLinkPairs", () => {
+  it("merges both directions into one pair keyed by the lower id", () => {
+    const links = [link("b", "a", 3), link("a", "b", 1), link("a", "c", 2)]
+    expect(mergeLinkPairs(links)).toEqual([
+      { key: "a<>b", source: "a", target: "b", forward: 1, reverse: 3, links: [links[0], links[1]] },
+      { key: "a<>c", source: "a", target: "c", forward: 2, reverse: 0, links: [links[2]] },
+    ])
+  })
+})
+
+describe("isPairAsymmetric", () => {
+  it("flags a busy direction dwarfing the other", () => {
+    expect(isPairAsymmetric(pair(40, 5))).toBe(true)
+    expect(isPairAsymmetric(pair(1, 40))).toBe(true)
+    expect(isPairAsymmetric(pair(20, 10))).toBe(false)
+  })
+
+  it("ignores trickles", () => {
+    expect(isPairAsymmetric(pair(0.5, 0))).toBe(false)
+  })
+})
+
+describe("pairTraffic", () => {
+  it("sums both directions", () => {
+    expect(pairTraffic(pair(1.5, 2))).toBe(3.5)
+    expect(isPairActive(pair(0, 0))).toBe(false)
+    expect(isPairActive(pair(0, 0.1))).toBe(true)
+  })
+})
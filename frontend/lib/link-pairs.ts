@@ -0,0 +1,49 @@
+import type { NetworkLink } from "@/lib/topology"
+import { isRateActive } from "@/lib/traffic-rates"
+
+/** A→B and B→A merged into one undirected link; `source` is the lower node id. */
+export interface LinkPair {
+  key: string
+  source: string
+  target: string
+  forward: number // packets/s source→target
+  reverse: number // packets/s target→source
+  links: NetworkLink[] // the directed links this pair was built from
+}
+
+// A pair is asymmetric when one direction carries this many times the other
+const ASYMMETRY_RATIO = 4
+// ...and the busier direction is at least this busy, so trickles aren't flagged
+const ASYMMETRY_MIN_RATE = 1
+
+export function mergeLinkPairs(links: NetworkLink[]): LinkPair[] {
+  const pairs = new Map<string, LinkPair>()
+
+  links.forEach((link) => {
+    const isForward = link.source <= link.target
+    const [source, target] = isForward ? [link.source, link.target] : [link.target, link.source]
+    const key = `${source}<>${target}`
+    if (!pairs.has(key)) pairs.set(key, { key, source, target, forward: 0, reverse: 0, links: [] })
+
+    const pair = pairs.get(key)!
+    if (isForward) pair.forward += link.traffic
+    else pair.reverse += link.traffic
+    pair.links.push(link)
+  })
+
+  return Array.from(pairs.values())
+}
+
+export function pairTraffic(pair: LinkPair): number {
+  return pair.forward + pair.reverse
+}
+
+export function isPairAsymmetric(pair: LinkPair): boolean {
+  const busier = Math.max(pair.forward, pair.reverse)
+  const quieter = Math.min(pair.forward, pair.reverse)
+  return busier >= ASYMMETRY_MIN_RATE && busier >= ASYMMETRY_RATIO * Math.max(quieter, ASYMMETRY_MIN_RATE / 10)
+}
+
+export function isPairActive(pair: LinkPair): boolean {
+  return isRateActive(pairTraffic(pair))
+}
@@ -0,0 +1,57 @@
+import { describe, expect, it } from "vitest"
+import { computeLogicalLayout, curvedLinkPoint } from "@/lib/logical-layout"
+import { node } from "@/lib/test-fixtures"
+import type { TopologyData } from "@/lib/topology"
+
+const topology: TopologyData = {
+  nodes: [
+    node("r", { role: "Router" }),
+    node("s1", { role: "Server" }),
+    node("s2", { role: "Server" }),
+    ...Array.from({ length: 12 }, (_, i) => node(`c${i}`, { role: "Client" })),
+  ],
+  links: [
+    { source: "s1", target: "r", traffic: 1, packets: 1 },
+    { source: "s2", target: "r", traffic: 1, packets: 1 },
+    { source: "c0", target: "ghost", traffic: 1, packets: 1 },
+    ...Array.from({ length: 12 }, (_, i) => ({ source: `c${i}`, target: i % 2 ? "s1" : "s2", traffic: 1, packets: 1 })),
+  ],
+}
+
+const VIEW = { width: 800, height: 600 }
+
+describe("computeLogicalLayout", () => {
+  it("places every node inside the view margins", () => {
+    const positions = computeLogicalLayout(topology, { ...VIEW, hierarchical: false })
+    expect(positions.size).toBe(topology.nodes.length)
+    positions.forEach(([x, y]) => {
+      expect(x).toBeGreaterThanOrEqual(40 - 1e-9)
+      expect(x).toBeLessThanOrEqual(760 + 1e-9)
+      expect(y).toBeGreaterThanOrEqual(40 - 1e-9)
+      expect(y).toBeLessThanOrEqual(560 + 1e-9)
+    })
+  })
+
+  it("stacks routers above servers above clients in hierarchical mode", () => {
+    const positions = computeLogicalLayout(topology, { ...VIEW, hierarchical: true })
+    const y = (id: string) => positions.get(id)![1]
+    const clients = topology.nodes.filter((n) => n.role === "Client").map((n) => y(n.id))
+    expect(y("r")).toBeLessThan(Math.min(y("s1"), y("s2")))
+    expect(Math.max(y("s1"), y("s2"))).toBeLessThan(Math.min(...clients))
+  })
+
+  it("is deterministic", () => {
+    const options = { ...VIEW, hierarchical: false }
+    expect(computeLogicalLayout(topology, options)).toEqual(computeLogicalLayout(topology, options))
+  })
+})
+
+describe("curvedLinkPoint", () => {
+  it("runs from source to target along a bowed curve", () => {
+    expect(curvedLinkPoint([0, 0], [100, 0], 0)).toEqual([0, 0])
+    expect(curvedLinkPoint([0, 0], [100, 0], 1)).toEqual([100, 0])
+    const [x, y] = curvedLinkPoint([0, 0], [100, 0], 0.5)
+    expect(x).toBeCloseTo(50)
+    expect(y).toBeCloseTo(7.5)
+  })
+})
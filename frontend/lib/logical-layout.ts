@@ -0,0 +1,107 @@
+import * as d3 from "d3"
+import type { NetworkNode, TopologyData } from "@/lib/topology"
+
+export type LayoutPositions = Map<string, [number, number]>
+
+export interface LogicalLayoutOptions {
+  width: number
+  height: number
+  hierarchical: boolean
+  previous?: LayoutPositions // seeds the simulation so an update nudges the graph instead of reshuffling it
+}
+
+// Ticks the simulation is run for before positions are read; it is never left running
+const LAYOUT_TICKS = 300
+const LAYOUT_MARGIN = 40
+
+interface SimNode extends d3.SimulationNodeDatum {
+  id: string
+  tier: number
+}
+
+/** Routers at the top, servers below them, then clients; clusters sit on the tier of their role. */
+function tierOf(node: NetworkNode): number {
+  return node.role === "Router" ? 0 : node.role === "Server" ? 1 : 2
+}
+
+/**
+ * Lays the topology out as a force-directed graph in view coordinates, ignoring geography.
+ * In hierarchical mode each role is pulled onto its own horizontal band.
+ */
+export function computeLogicalLayout(topology: TopologyData, options: LogicalLayoutOptions): LayoutPositions {
+  const { width, height, hierarchical, previous } = options
+  const innerHeight = height - LAYOUT_MARGIN * 2
+  const tierY = (tier: number) => LAYOUT_MARGIN + (innerHeight * (tier + 0.5)) / 3
+
+  const nodes: SimNode[] = topology.nodes.map((node, i) => {
+    const seeded = previous?.get(node.id)
+    const tier = tierOf(node)
+    // Unseeded nodes start on a phyllotaxis spiral, which d3 would also use, but centred on the view
+    const angle = i * Math.PI * (3 - Math.sqrt(5))
+    const radius = 10 * Math.sqrt(i + 0.5)
+    return {
+      id: node.id,
+      tier,
+      x: seeded?.[0] ?? width / 2 + radius * Math.cos(angle),
+      y: seeded?.[1] ?? (hierarchical ? tierY(tier) : height / 2 + radius * Math.sin(angle)),
+    }
+  })
+  const ids = new Set(nodes.map((n) => n.id))
+  const links = topology.links
+    .filter((link) => ids.has(link.source) && ids.has(link.target) && link.source !== link.target)
+    .map((link) => ({ source: link.source, target: link.target }))
+
+  const simulation = d3
+    .forceSimulation(nodes)
+    .force(
+      "link",
+      d3
+        .forceLink<SimNode, { source: string; target: string }>(links)
+        .id((d) => d.id)
+        .distance(40),
+    )
+    .force("charge", d3.forceManyBody().strength(-60).distanceMax(300))
+    .force("collide", d3.forceCollide(12))
+    .force("x", d3.forceX(width / 2).strength(0.05))
+    .force(
+      "y",
+      hierarchical ? d3.forceY<SimNode>((d) => tierY(d.tier)).strength(0.6) : d3.forceY(height / 2).strength(0.05),
+    )
+    .stop()
+
+  // A seeded layout only needs to settle the changes, so start it cooler
+  if (previous && previous.size > 0) simulation.alpha(0.3)
+  simulation.tick(LAYOUT_TICKS)
+
+  // Fit into the view, keeping the aspect ratio so the graph isn't distorted
+  const xs = nodes.map((n) => n.x!)
+  const ys = nodes.map((n) => n.y!)
+  const [minX, maxX] = [Math.min(...xs), Math.max(...xs)]
+  const [minY, maxY] = [Math.min(...ys), Math.max(...ys)]
+  const scale = Math.min(
+    1,
+    (width - LAYOUT_MARGIN * 2) / Math.max(1, maxX - minX),
+    (height - LAYOUT_MARGIN * 2) / Math.max(1, maxY - minY),
+  )
+  const centerX = (minX + maxX) / 2
+  const centerY = (minY + maxY) / 2
+
+  return new Map(
+    nodes.map((n) => [n.id, [width / 2 + (n.x! - centerX) * scale, height / 2 + (n.y! - centerY) * scale]]),
+  )
+}
+
+/** Points along a gently curved line between two view positions, bowing to the left of travel. */
+export function curvedLinkPoint(
+  source: [number, number],
+  target: [number, number],
+  t: number,
+  bend = 0.15,
+): [number, number] {
+  const [x0, y0] = source
+  const [x1, y1] = target
+  const controlX = (x0 + x1) / 2 - (y1 - y0) * bend
+  const controlY = (y0 + y1) / 2 + (x1 - x0) * bend
+  const u = 1 - t
+  return [u * u * x0 + 2 * u * t * controlX + t * t * x1, u * u * y0 + 2 * u * t * controlY + t * t * y1]
+}
@@ -0,0 +1,64 @@
+import { describe, expect, it } from "vitest"
+import { nodeSightings, nodeTrafficSeries, summarizePeers } from "@/lib/node-stats"
+import { link, node } from "@/lib/test-fixtures"
+import type { TopologyData } from "@/lib/topology"
+import type { HistoryEntry } from "@/lib/topology-history"
+
+describe("summarizePeers", () => {
+  it("sums traffic in each direction per peer, busiest first", () => {
+    const topology: TopologyData = {
+      nodes: [node("a"), node("b"), node("c")],
+      links: [
+        link("a", "b", 1, { sensors: ["s1"] }),
+        link("b", "a", 2, { sensors: ["s2"] }),
+        link("c", "a", 10),
+        link("b", "c", 50),
+      ],
+    }
+    expect(summarizePeers(topology, "a")).toEqual([
+      { node: topology.nodes[2], inbound: 10, outbound: 0, sensors: undefined },
+      { node: topology.nodes[1], inbound: 2, outbound: 1, sensors: ["s1", "s2"] },
+    ])
+  })
+
+  it("skips links to nodes that aren't in the topology", () => {
+    const topology: TopologyData = { nodes: [node("a")], links: [link("a", "x", 1)] }
+    expect(summarizePeers(topology, "a")).toEqual([])
+  })
+})
+
+function entry(timestamp: number, ips: string[], rate: number): HistoryEntry {
+  return {
+    snapshot: {
+      nodes: ips.map((ip) => ({ ip, packets: 1 })),
+      edges: [
+        { source: "10.0.0.1", target: "10.0.0.2", weight: 1 },
+        { source: "10.0.0.2", target: "10.0.0.1", weight: 1 },
+      ],
+      timestamp,
+    },
+    rates: new Map([
+      ["10.0.0.1>10.0.0.2", { count: 1, timestamp, rate }],
+      ["10.0.0.2>10.0.0.1", { count: 1, timestamp, rate: rate / 2 }],
+    ]),
+  }
+}
+
+describe("nodeTrafficSeries", () => {
+  it("keeps the most recent entries, split by direction", () => {
+    const entries = [1, 2, 3].map((t) => entry(t, ["10.0.0.1", "10.0.0.2"], t * 10))
+    expect(nodeTrafficSeries(entries, "10.0.0.1", 2)).toEqual({
+      timestamps: [2, 3],
+      inbound: [10, 15],
+      outbound: [20, 30],
+    })
+  })
+})
+
+describe("nodeSightings", () => {
+  it("finds the first and last entries containing the address", () => {
+    const entries = [entry(1, ["10.0.0.2"], 0), entry(2, ["10.0.0.1"], 0), entry(3, ["10.0.0.1"], 0), entry(4, [], 0)]
+    expect(nodeSightings(entries, "10.0.0.1")).toEqual({ firstSeen: 2, lastSeen: 3 })
+    expect(nodeSightings(entries, "10.0.0.9")).toEqual({})
+  })
+})
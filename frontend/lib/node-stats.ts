@@ -0,0 +1,66 @@
+import { unionSensors } from "@/lib/sensors"
+import type { HistoryEntry } from "@/lib/topology-history"
+import { edgeKey, type NetworkNode, type TopologyData } from "@/lib/topology"
+
+export interface PeerSummary {
+  node: NetworkNode
+  inbound: number // packets/s from the peer to the node
+  outbound: number // packets/s from the node to the peer
+  sensors?: string[] // sensors that observed traffic in either direction
+}
+
+export interface TrafficSeries {
+  timestamps: number[]
+  inbound: number[]
+  outbound: number[]
+}
+
+/** Every node linked to `nodeId`, busiest first. */
+export function summarizePeers(topology: TopologyData, nodeId: string): PeerSummary[] {
+  const nodeById = new Map(topology.nodes.map((n) => [n.id, n]))
+  const peers = new Map<string, PeerSummary>()
+
+  const peer = (id: string) => {
+    if (!peers.has(id)) peers.set(id, { node: nodeById.get(id)!, inbound: 0, outbound: 0 })
+    return peers.get(id)!
+  }
+
+  topology.links.forEach((link) => {
+    const outbound = link.source === nodeId && nodeById.has(link.target)
+    const inbound = !outbound && link.target === nodeId && nodeById.has(link.source)
+    if (!outbound && !inbound) return
+    const summary = peer(outbound ? link.target : link.source)
+    if (outbound) summary.outbound += link.traffic
+    else summary.inbound += link.traffic
+    summary.sensors = unionSensors(summary.sensors, link.sensors)
+  })
+
+  return Array.from(peers.values()).sort((a, b) => b.inbound + b.outbound - (a.inbound + a.outbound))
+}
+
+/** Inbound/outbound packets/s for `ip` across the most recent `limit` history entries. */
+export function nodeTrafficSeries(entries: HistoryEntry[], ip: string, limit = 120): TrafficSeries {
+  const series: TrafficSeries = { timestamps: [], inbound: [], outbound: [] }
+
+  entries.slice(-limit).forEach(({ snapshot, rates }) => {
+    let inbound = 0
+    let outbound = 0
+    snapshot.edges.forEach((edge) => {
+      const rate = rates.get(edgeKey(edge.source, edge.target))?.rate ?? 0
+      if (edge.source === ip) outbound += rate
+      if (edge.target === ip) inbound += rate
+    })
+    series.timestamps.push(snapshot.timestamp)
+    series.inbound.push(inbound)
+    series.outbound.push(outbound)
+  })
+
+  return series
+}
+
+/** First and last history timestamps at which `ip` was present. */
+export function nodeSightings(entries: HistoryEntry[], ip: string): { firstSeen?: number; lastSeen?: number } {
+  const seen = entries.filter(({ snapshot }) => snapshot.nodes.some((n) => n.ip === ip))
+  if (seen.length === 0) return {}
+  return { firstSeen: seen[0].snapshot.timestamp, lastSeen: seen[seen.length - 1].snapshot.timestamp }
+}
@@ -0,0 +1,51 @@
+import { describe, expect, it } from "vitest"
+import { tracePath } from "@/lib/path-trace"
+import { link, node } from "@/lib/test-fixtures"
+import type { TopologyData } from "@/lib/topology"
+
+// a - b - d is short and idle; a - c - e - d is longer but busy
+const topology: TopologyData = {
+  nodes: ["a", "b", "c", "d", "e", "island"].map((id) => node(id)),
+  links: [
+    link("a", "b", 0),
+    link("b", "d", 0),
+    link("a", "c", 50),
+    link("c", "a", 30),
+    link("e", "c", 40),
+    link("e", "d", 60),
+  ],
+}
+
+const route = (from: string, to: string, metric: "hops" | "traffic", data = topology) =>
+  tracePath(data, from, to, metric)?.nodes.map((n) => n.id) ?? null
+
+describe("tracePath", () => {
+  it("finds the fewest hops, following links either way", () => {
+    expect(route("a", "d", "hops")).toEqual(["a", "b", "d"])
+    expect(route("d", "a", "hops")).toEqual(["d", "b", "a"])
+  })
+
+  it("prefers busy links when weighting by traffic", () => {
+    expect(route("a", "d", "traffic")).toEqual(["a", "c", "e", "d"])
+  })
+
+  it("reports each hop's traffic in the direction of the path", () => {
+    const path = tracePath(topology, "a", "d", "traffic")!
+    expect(path.hops.map((hop) => [hop.from.id, hop.to.id, hop.forward, hop.reverse])).toEqual([
+      ["a", "c", 50, 30],
+      ["c", "e", 0, 40],
+      ["e", "d", 60, 0],
+    ])
+    expect(path.pairKeys).toEqual(new Set(["a<>c", "c<>e", "d<>e"]))
+  })
+
+  it("ignores links only declared in the inventory", () => {
+    const withStatic = { ...topology, links: [...topology.links, link("a", "island", 0, { static: true })] }
+    expect(route("a", "island", "hops", withStatic)).toBeNull()
+  })
+
+  it("returns a single-node path from a node to itself and null for unknown nodes", () => {
+    expect(route("a", "a", "hops")).toEqual(["a"])
+    expect(route("a", "nowhere", "hops")).toBeNull()
+  })
+})
@@ -0,0 +1,97 @@
+import { mergeLinkPairs, type LinkPair } from "@/lib/link-pairs"
+import type { NetworkNode, TopologyData } from "@/lib/topology"
+
+export type PathMetric = "hops" | "traffic"
+
+export const PATH_METRIC_LABELS: Record<PathMetric, string> = {
+  hops: "Fewest hops",
+  traffic: "Busiest links",
+}
+
+export interface PathHop {
+  from: NetworkNode
+  to: NetworkNode
+  forward: number // packets/s in the direction of the path
+  reverse: number // packets/s back along it
+  pair: LinkPair
+}
+
+export interface TracedPath {
+  nodes: NetworkNode[] // source first, destination last
+  hops: PathHop[]
+  pairKeys: Set<string> // the `LinkPair` keys along the path, for highlighting
+}
+
+// Stands in for the rate of an idle link when weighting by traffic, so idle links are a last resort
+const IDLE_RATE = 0.01
+
+function hopCost(pair: LinkPair, metric: PathMetric): number {
+  return metric === "hops" ? 1 : 1 / (pair.forward + pair.reverse + IDLE_RATE)
+}
+
+/**
+ * The shortest path between two nodes over observed links, by hop count or preferring busy links, where
+ * a hop costs the inverse of its traffic. Links are followed either way, since replies take the same
+ * route back; links declared only in the inventory are left out. Null when the nodes aren't connected.
+ */
+export function tracePath(
+  topology: TopologyData,
+  sourceId: string,
+  targetId: string,
+  metric: PathMetric,
+): TracedPath | null {
+  const nodeById = new Map(topology.nodes.map((node) => [node.id, node]))
+  if (!nodeById.has(sourceId) || !nodeById.has(targetId)) return null
+
+  const neighbours = new Map<string, { id: string; pair: LinkPair }[]>()
+  const connect = (from: string, to: string, pair: LinkPair) => {
+    if (!neighbours.has(from)) neighbours.set(from, [])
+    neighbours.get(from)!.push({ id: to, pair })
+  }
+  mergeLinkPairs(topology.links.filter((link) => !link.static)).forEach((pair) => {
+    if (!nodeById.has(pair.source) || !nodeById.has(pair.target)) return
+    connect(pair.source, pair.target, pair)
+    connect(pair.target, pair.source, pair)
+  })
+
+  // Dijkstra with a linear scan for the closest node, which is plenty for a few hundred nodes
+  const distance = new Map<string, number>([[sourceId, 0]])
+  const previous = new Map<string, { id: string; pair: LinkPair }>()
+  const done = new Set<string>()
+  while (!done.has(targetId)) {
+    let current: string | null = null
+    distance.forEach((d, id) => {
+      if (!done.has(id) && (current === null || d < distance.get(current)!)) current = id
+    })
+    if (current === null) return null
+    const from: string = current
+    done.add(from)
+    neighbours.get(from)?.forEach(({ id, pair }) => {
+      const d = distance.get(from)! + hopCost(pair, metric)
+      if (d < (distance.get(id) ?? Infinity)) {
+        distance.set(id, d)
+        previous.set(id, { id: from, pair })
+      }
+    })
+  }
+
+  const hops: PathHop[] = []
+  for (let id = targetId; id !== sourceId;) {
+    const step = previous.get(id)!
+    const forward = step.pair.source === step.id
+    hops.unshift({
+      from: nodeById.get(step.id)!,
+      to: nodeById.get(id)!,
+      forward: forward ? step.pair.forward : step.pair.reverse,
+      reverse: forward ? step.pair.reverse : step.pair.forward,
+      pair: step.pair,
+    })
+    id = step.id
+  }
+
+  return {
+    nodes: [nodeById.get(sourceId)!, ...hops.map((hop) => hop.to)],
+    hops,
+    pairKeys: new Set(hops.map((hop) => hop.pair.key)),
+  }
+}
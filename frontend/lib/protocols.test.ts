@@ -0,0 +1,90 @@
+import { describe, expect, it } from "vitest"
+import {
+  carriesProtocol,
+  dominantProtocol,
+  flowLabel,
+  flowsFromApi,
+  mergeFlows,
+  nodeServices,
+  normalizeProtocol,
+} from "@/lib/protocols"
+import { link } from "@/lib/test-fixtures"
+
+describe("normalizeProtocol", () => {
+  it("folds ICMPv6 into ICMP and anything unknown into other", () => {
+    expect(normalizeProtocol("TCP")).toBe("tcp")
+    expect(normalizeProtocol("ipv6-icmp")).toBe("icmp")
+    expect(normalizeProtocol("gre")).toBe("other")
+  })
+})
+
+describe("flowsFromApi", () => {
+  it("names well-known services the backend left out and merges duplicates, busiest first", () => {
+    expect(
+      flowsFromApi([
+        { protocol: "udp", port: 53, weight: 2 },
+        { protocol: "TCP", port: 443, service: null, weight: 5 },
+        { protocol: "tcp", port: 443, weight: 1 },
+        { protocol: "gre", port: null, weight: 3 },
+      ]),
+    ).toEqual([
+      { protocol: "tcp", port: 443, service: "https", packets: 6 },
+      { protocol: "other", port: undefined, service: undefined, packets: 3 },
+      { protocol: "udp", port: 53, service: "dns", packets: 2 },
+    ])
+    expect(flowsFromApi(undefined)).toBeUndefined()
+  })
+})
+
+describe("flowLabel", () => {
+  it("prefers the service name, then protocol and port", () => {
+    expect(flowLabel({ protocol: "tcp", port: 443, service: "https" })).toBe("https")
+    expect(flowLabel({ protocol: "tcp", port: 9999 })).toBe("tcp/9999")
+    expect(flowLabel({ protocol: "icmp" })).toBe("ICMP")
+  })
+})
+
+describe("mergeFlows", () => {
+  it("is undefined only when no list reports flows", () => {
+    expect(mergeFlows([undefined, undefined])).toBeUndefined()
+    expect(mergeFlows([undefined, []])).toEqual([])
+  })
+})
+
+describe("dominantProtocol and carriesProtocol", () => {
+  const links = [
+    link("a", "b", 0, { flows: [{ protocol: "udp", port: 53, packets: 4 }] }),
+    link("a", "c", 0, {
+      flows: [
+        { protocol: "tcp", port: 443, packets: 3 },
+        { protocol: "tcp", port: 80, packets: 2 },
+      ],
+    }),
+    link("a", "d"),
+  ]
+
+  it("sums packets per protocol across links", () => {
+    expect(dominantProtocol(links)).toBe("tcp")
+    expect(dominantProtocol([links[2]])).toBeNull()
+  })
+
+  it("keeps links without protocol information", () => {
+    const enabled = { tcp: false, udp: true, icmp: true, other: true }
+    expect(links.map((l) => carriesProtocol(l, enabled))).toEqual([true, false, true])
+  })
+})
+
+describe("nodeServices", () => {
+  it("splits the services a node answers on from those it uses, counting peers", () => {
+    const links = [
+      link("c1", "srv", 0, { flows: [{ protocol: "tcp", port: 443, service: "https", packets: 5 }] }),
+      link("c2", "srv", 0, { flows: [{ protocol: "tcp", port: 443, service: "https", packets: 2 }] }),
+      link("srv", "c1", 0, { flows: [{ protocol: "tcp", packets: 7 }] }),
+      link("srv", "db", 0, { flows: [{ protocol: "tcp", port: 5432, service: "postgresql", packets: 1 }] }),
+    ]
+    expect(nodeServices("srv", links)).toEqual({
+      exposed: [{ protocol: "tcp", port: 443, label: "https", packets: 7, peers: 2 }],
+      consumed: [{ protocol: "tcp", port: 5432, label: "postgresql", packets: 1, peers: 1 }],
+    })
+  })
+})
@@ -0,0 +1,181 @@
+import type { ApiFlow, NetworkLink } from "@/lib/topology"
+
+export type Protocol = "tcp" | "udp" | "icmp" | "other"
+
+export const PROTOCOLS: Protocol[] = ["tcp", "udp", "icmp", "other"]
+
+export const PROTOCOL_LABELS: Record<Protocol, string> = {
+  tcp: "TCP",
+  udp: "UDP",
+  icmp: "ICMP",
+  other: "Other",
+}
+
+/** Traffic of one protocol to one destination port along a link. */
+export interface LinkFlow {
+  protocol: Protocol
+  port?: number // absent for portless protocols and for ephemeral ports, which are usually replies
+  service?: string
+  packets: number
+}
+
+export interface ServiceUsage {
+  protocol: Protocol
+  port: number
+  label: string
+  packets: number
+  peers: number
+}
+
+// Ports from here up are the ephemeral range Linux hands out to clients (IANA's starts at 49152), so
+// they name a connection rather than a service; the backend and capture parser drop them the same way
+export const EPHEMERAL_PORT_START = 32768
+
+// Named locally for captures and for backends that leave `service` out
+const WELL_KNOWN_SERVICES: Record<string, string> = {
+  "tcp/20": "ftp-data",
+  "tcp/21": "ftp",
+  "tcp/22": "ssh",
+  "tcp/23": "telnet",
+  "tcp/25": "smtp",
+  "tcp/53": "dns",
+  "udp/53": "dns",
+  "udp/67": "dhcp",
+  "udp/68": "dhcp",
+  "udp/69": "tftp",
+  "tcp/80": "http",
+  "tcp/110": "pop3",
+  "udp/123": "ntp",
+  "tcp/143": "imap",
+  "udp/161": "snmp",
+  "udp/162": "snmp-trap",
+  "tcp/179": "bgp",
+  "tcp/389": "ldap",
+  "tcp/443": "https",
+  "udp/443": "quic",
+  "tcp/445": "smb",
+  "udp/500": "isakmp",
+  "udp/514": "syslog",
+  "tcp/587": "submission",
+  "tcp/636": "ldaps",
+  "tcp/853": "dns-over-tls",
+  "tcp/993": "imaps",
+  "tcp/995": "pop3s",
+  "udp/1194": "openvpn",
+  "tcp/1433": "mssql",
+  "udp/1900": "ssdp",
+  "tcp/3306": "mysql",
+  "tcp/3389": "rdp",
+  "udp/4500": "ipsec-nat-t",
+  "tcp/5432": "postgresql",
+  "udp/5353": "mdns",
+  "tcp/5672": "amqp",
+  "tcp/6379": "redis",
+  "tcp/6443": "kube-api",
+  "tcp/8080": "http-alt",
+  "tcp/8443": "https-alt",
+  "tcp/9092": "kafka",
+  "udp/51820": "wireguard",
+}
+
+export function normalizeProtocol(name: string): Protocol {
+  const protocol = name.toLowerCase()
+  if (protocol === "icmp6" || protocol === "ipv6-icmp") return "icmp"
+  return protocol === "tcp" || protocol === "udp" || protocol === "icmp" ? protocol : "other"
+}
+
+export function serviceName(protocol: Protocol, port?: number): string | undefined {
+  return port === undefined ? undefined : WELL_KNOWN_SERVICES[`${protocol}/${port}`]
+}
+
+export function flowLabel(flow: { protocol: Protocol; port?: number; service?: string }): string {
+  if (flow.service) return flow.service
+  return flow.port === undefined ? PROTOCOL_LABELS[flow.protocol] : `${flow.protocol}/${flow.port}`
+}
+
+function flowKey(flow: { protocol: Protocol; port?: number }): string {
+  return `${flow.protocol}/${flow.port ?? ""}`
+}
+
+/** Sums flows with the same protocol and port, e.g. across a cluster's links; busiest first. */
+export function mergeFlows(lists: (LinkFlow[] | undefined)[]): LinkFlow[] | undefined {
+  if (lists.every((flows) => !flows)) return undefined
+  const merged = new Map<string, LinkFlow>()
+  lists.forEach((flows) =>
+    flows?.forEach((flow) => {
+      const key = flowKey(flow)
+      const existing = merged.get(key)
+      if (existing) existing.packets += flow.packets
+      else merged.set(key, { ...flow })
+    }),
+  )
+  return Array.from(merged.values()).sort((a, b) => b.packets - a.packets)
+}
+
+/** Converts an edge's flows from the API, naming services the backend didn't. */
+export function flowsFromApi(flows: ApiFlow[] | undefined): LinkFlow[] | undefined {
+  if (!flows) return undefined
+  return mergeFlows([
+    flows.map((flow) => {
+      const protocol = normalizeProtocol(flow.protocol)
+      const port = flow.port ?? undefined
+      return { protocol, port, service: flow.service ?? serviceName(protocol, port), packets: flow.weight }
+    }),
+  ])
+}
+
+/** The protocol carrying the most packets over the given links, or null when none report protocols. */
+export function dominantProtocol(links: NetworkLink[]): Protocol | null {
+  const totals = new Map<Protocol, number>()
+  links.forEach((link) =>
+    link.flows?.forEach((flow) => totals.set(flow.protocol, (totals.get(flow.protocol) ?? 0) + flow.packets)),
+  )
+  let dominant: Protocol | null = null
+  totals.forEach((packets, protocol) => {
+    if (dominant === null || packets > totals.get(dominant)!) dominant = protocol
+  })
+  return dominant
+}
+
+/** Whether a link carries any of the enabled protocols; links that don't report protocols always do. */
+export function carriesProtocol(link: NetworkLink, enabled: Record<Protocol, boolean>): boolean {
+  return !link.flows || link.flows.length === 0 || link.flows.some((flow) => enabled[flow.protocol])
+}
+
+/**
+ * The services a node answers on (flows arriving at a known port) and those it uses (flows it sends to
+ * one), with how many peers each involves.
+ */
+export function nodeServices(
+  nodeId: string,
+  links: NetworkLink[],
+): { exposed: ServiceUsage[]; consumed: ServiceUsage[] } {
+  const collect = (side: "source" | "target") => {
+    const usage = new Map<string, ServiceUsage & { peerIds: Set<string> }>()
+    links.forEach((link) => {
+      if (link[side] !== nodeId) return
+      const peer = side === "source" ? link.target : link.source
+      link.flows?.forEach((flow) => {
+        if (flow.port === undefined) return
+        const key = flowKey(flow)
+        if (!usage.has(key)) {
+          usage.set(key, {
+            protocol: flow.protocol,
+            port: flow.port,
+            label: flowLabel(flow),
+            packets: 0,
+            peers: 0,
+            peerIds: new Set(),
+          })
+        }
+        const entry = usage.get(key)!
+        entry.packets += flow.packets
+        entry.peerIds.add(peer)
+      })
+    })
+    return Array.from(usage.values())
+      .map(({ peerIds, ...entry }) => ({ ...entry, peers: peerIds.size }))
+      .sort((a, b) => b.packets - a.packets)
+  }
+  return { exposed: collect("target"), consumed: collect("source") }
+}
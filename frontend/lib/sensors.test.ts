@@ -0,0 +1,133 @@
+import { describe, expect, it } from "vitest"
+import {
+  combineSensorStatuses,
+  configuredSensors,
+  mergeSensorRates,
+  mergeSensorSnapshots,
+  parseSensors,
+  SENSOR_COLORS,
+} from "@/lib/sensors"
+import type { ApiTopologyResponse } from "@/lib/topology"
+import { updateEdgeRates, type RateTable } from "@/lib/traffic-rates"
+
+describe("parseSensors", () => {
+  it("fills in defaults, trims URLs and de-duplicates ids", () => {
+    const sensors = parseSensors(
+      JSON.stringify([
+        { id: "core", url: " http://core:5000/ " },
+        { id: "core", name: "Edge", url: "http://edge:5000", color: "#fff" },
+        { name: "No URL" },
+      ]),
+    )
+    expect(sensors).toEqual([
+      { id: "core", name: "http://core:5000", url: "http://core:5000", color: SENSOR_COLORS[0] },
+      { id: "core-2", name: "Edge", url: "http://edge:5000", color: "#fff" },
+    ])
+  })
+
+  it("falls back to the default sensor when the configuration is unusable", () => {
+    const fallback = [{ id: "default", name: "Default", url: "http://localhost:5000", color: SENSOR_COLORS[0] }]
+    expect(configuredSensors(undefined, "http://localhost:5000")).toEqual(fallback)
+    expect(configuredSensors("{not json", "http://localhost:5000")).toEqual(fallback)
+    expect(configuredSensors("[]", "http://localhost:5000")).toEqual(fallback)
+  })
+})
+
+describe("mergeSensorSnapshots", () => {
+  it("tags provenance and takes the largest count any sensor reported", () => {
+    const merged = mergeSensorSnapshots(
+      new Map<string, ApiTopologyResponse>([
+        [
+          "a",
+          {
+            nodes: [{ ip: "10.0.0.1", packets: 10, first_seen: 5, last_seen: 20 }],
+            edges: [
+              {
+                source: "10.0.0.1",
+                target: "10.0.0.2",
+                weight: 10,
+                flows: [{ protocol: "tcp", port: 443, weight: 10 }],
+              },
+            ],
+            timestamp: 1000,
+          },
+        ],
+        [
+          "b",
+          {
+            nodes: [
+              { ip: "10.0.0.1", packets: 7, first_seen: 2, last_seen: 25 },
+              { ip: "10.0.0.2", packets: 3 },
+            ],
+            edges: [
+              {
+                source: "10.0.0.1",
+                target: "10.0.0.2",
+                weight: 7,
+                flows: [
+                  { protocol: "tcp", port: 443, weight: 12 },
+                  { protocol: "udp", port: 53, weight: 1 },
+                ],
+              },
+            ],
+            timestamp: 5000,
+          },
+        ],
+      ]),
+      42,
+    )
+
+    expect(merged).toEqual({
+      nodes: [
+        { ip: "10.0.0.1", packets: 10, first_seen: 2, last_seen: 25, sensors: ["a", "b"] },
+        { ip: "10.0.0.2", packets: 3, sensors: ["b"] },
+      ],
+      edges: [
+        {
+          source: "10.0.0.1",
+          target: "10.0.0.2",
+          weight: 10,
+          flows: [
+            { protocol: "tcp", port: 443, weight: 12 },
+            { protocol: "udp", port: 53, weight: 1 },
+          ],
+          sensors: ["a", "b"],
+        },
+      ],
+      timestamp: 42,
+    })
+  })
+})
+
+describe("mergeSensorRates", () => {
+  it("keeps steady rates from sensors whose clocks disagree", () => {
+    const snapshot = (timestamp: number, weight: number): ApiTopologyResponse => ({
+      nodes: [],
+      edges: [{ source: "10.0.0.1", target: "10.0.0.2", weight }],
+      timestamp,
+    })
+    // Both see 10 packets/s, but one clock runs an hour ahead and counts started at different times
+    let ahead: RateTable = new Map()
+    let behind: RateTable = new Map()
+    let merged: RateTable = new Map()
+    for (let t = 0; t < 60; t++) {
+      ahead = updateEdgeRates(ahead, snapshot(3600 + t, 5000 + 10 * t))
+      behind = updateEdgeRates(behind, snapshot(t, 10 * t))
+      merged = mergeSensorRates([ahead, behind])
+    }
+    expect(merged.get("10.0.0.1>10.0.0.2")!.rate).toBeCloseTo(10, 1)
+  })
+
+  it("takes the highest rate per edge", () => {
+    const table = (rate: number): RateTable => new Map([["a>b", { count: 0, timestamp: 0, rate }]])
+    expect(mergeSensorRates([table(2), table(5), table(3)]).get("a>b")!.rate).toBe(5)
+    expect(mergeSensorRates([]).size).toBe(0)
+  })
+})
+
+describe("combineSensorStatuses", () => {
+  it("reports the healthiest sensor's status", () => {
+    expect(combineSensorStatuses(["disconnected", "polling", "reconnecting"])).toBe("polling")
+    expect(combineSensorStatuses([])).toBe("disconnected")
+  })
+})
@@ -0,0 +1,169 @@
+import { edgeKey, type ApiEdge, type ApiFlow, type ApiNode, type ApiTopologyResponse } from "@/lib/topology"
+import type { StreamStatus } from "@/lib/topology-stream"
+import type { RateTable } from "@/lib/traffic-rates"
+
+export interface Sensor {
+  id: string
+  name: string
+  url: string // base URL of the capture backend
+  color: string
+}
+
+const STORAGE_KEY = "144network.sensors"
+
+// Assigned to sensors in order; picked to stay distinct from the role and link colours
+export const SENSOR_COLORS = ["#7DD3FC", "#FCA5A5", "#86EFAC", "#FDE68A", "#C4B5FD", "#F9A8D4", "#FDBA74"]
+
+export function defaultSensors(baseUrl: string): Sensor[] {
+  return [{ id: "default", name: "Default", url: baseUrl, color: SENSOR_COLORS[0] }]
+}
+
+/** Sensors from a JSON list such as `NEXT_PUBLIC_SENSORS`, or the single default sensor if unset or invalid. */
+export function configuredSensors(json: string | undefined, baseUrl: string): Sensor[] {
+  if (!json) return defaultSensors(baseUrl)
+  try {
+    const sensors = parseSensors(json)
+    return sensors.length > 0 ? sensors : defaultSensors(baseUrl)
+  } catch {
+    return defaultSensors(baseUrl)
+  }
+}
+
+export function createSensorId(): string {
+  return `sensor-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`
+}
+
+function normalizeSensor(raw: any, index: number): Sensor | null {
+  if (typeof raw?.url !== "string" || raw.url.trim() === "") return null
+  const url = raw.url.trim().replace(/\/+$/, "")
+  return {
+    id: typeof raw.id === "string" && raw.id ? raw.id : `sensor-${index}`,
+    name: typeof raw.name === "string" && raw.name ? raw.name : url,
+    url,
+    color: typeof raw.color === "string" && raw.color ? raw.color : SENSOR_COLORS[index % SENSOR_COLORS.length],
+  }
+}
+
+/** Parses a JSON list of sensors, dropping entries without a URL and giving duplicate ids a suffix. */
+export function parseSensors(text: string): Sensor[] {
+  const raw = JSON.parse(text)
+  if (!Array.isArray(raw)) return []
+  const seen = new Set<string>()
+  return raw
+    .map(normalizeSensor)
+    .filter((sensor): sensor is Sensor => sensor !== null)
+    .map((sensor) => {
+      let id = sensor.id
+      for (let n = 2; seen.has(id); n++) id = `${sensor.id}-${n}`
+      seen.add(id)
+      return { ...sensor, id }
+    })
+}
+
+export function loadStoredSensors(fallback: Sensor[]): Sensor[] {
+  if (typeof localStorage === "undefined") return fallback
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY)
+    const sensors = stored ? parseSensors(stored) : []
+    return sensors.length > 0 ? sensors : fallback
+  } catch {
+    return fallback
+  }
+}
+
+export function saveStoredSensors(sensors: Sensor[]) {
+  if (typeof localStorage === "undefined") return
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(sensors))
+}
+
+export function unionSensors(a: string[] | undefined, b: string[] | undefined): string[] | undefined {
+  if (!a) return b
+  if (!b) return a
+  return Array.from(new Set([...a, ...b]))
+}
+
+/**
+ * Combines the latest snapshot of each sensor into one, tagging every node and edge with the sensors
+ * that reported it. Sensors on different links of the same path will often see the same flow, so
+ * counts are the largest any one sensor reported rather than the sum, which would double count.
+ * Each backend stamps its snapshots with its own clock, so the merge takes the caller's `timestamp`
+ * (the time it was received) instead.
+ */
+export function mergeSensorSnapshots(
+  snapshots: Map<string, ApiTopologyResponse>,
+  timestamp: number,
+): ApiTopologyResponse {
+  const nodes = new Map<string, ApiNode>()
+  const edges = new Map<string, ApiEdge>()
+
+  snapshots.forEach((snapshot, sensorId) => {
+    snapshot.nodes.forEach((node) => {
+      const existing = nodes.get(node.ip)
+      if (!existing) {
+        nodes.set(node.ip, { ...node, sensors: [sensorId] })
+        return
+      }
+      existing.packets = Math.max(existing.packets, node.packets)
+      existing.first_seen = minDefined(existing.first_seen, node.first_seen)
+      existing.last_seen = maxDefined(existing.last_seen, node.last_seen)
+      existing.sensors!.push(sensorId)
+    })
+    snapshot.edges.forEach((edge) => {
+      const key = edgeKey(edge.source, edge.target)
+      const existing = edges.get(key)
+      if (!existing) {
+        edges.set(key, { ...edge, sensors: [sensorId] })
+        return
+      }
+      existing.weight = Math.max(existing.weight, edge.weight)
+      existing.flows = mergeApiFlows(existing.flows, edge.flows)
+      existing.sensors!.push(sensorId)
+    })
+  })
+
+  return { nodes: Array.from(nodes.values()), edges: Array.from(edges.values()), timestamp }
+}
+
+/**
+ * Rates are diffed per sensor, against that sensor's previous snapshot and clock, and only then
+ * combined; like edge weights, each edge takes the highest rate any sensor saw.
+ */
+export function mergeSensorRates(tables: RateTable[]): RateTable {
+  const merged: RateTable = new Map()
+  tables.forEach((table) =>
+    table.forEach((rate, key) => {
+      const existing = merged.get(key)
+      if (!existing || rate.rate > existing.rate) merged.set(key, rate)
+    }),
+  )
+  return merged
+}
+
+/** Per protocol and port, like edge weights, the largest count any sensor reported. */
+function mergeApiFlows(a: ApiFlow[] | undefined, b: ApiFlow[] | undefined): ApiFlow[] | undefined {
+  if (!a || !b) return a ?? b
+  const key = (flow: ApiFlow) => `${flow.protocol}/${flow.port ?? ""}`
+  const merged = new Map(a.map((flow) => [key(flow), { ...flow }]))
+  b.forEach((flow) => {
+    const existing = merged.get(key(flow))
+    if (existing) existing.weight = Math.max(existing.weight, flow.weight)
+    else merged.set(key(flow), { ...flow })
+  })
+  return Array.from(merged.values())
+}
+
+function minDefined(a: number | undefined, b: number | undefined): number | undefined {
+  return a === undefined ? b : b === undefined ? a : Math.min(a, b)
+}
+
+function maxDefined(a: number | undefined, b: number | undefined): number | undefined {
+  return a === undefined ? b : b === undefined ? a : Math.max(a, b)
+}
+
+// Most to least healthy; the overall status is the healthiest of any sensor
+const STATUS_ORDER: StreamStatus[] = ["live", "polling", "reconnecting", "connecting", "disconnected"]
+
+export function combineSensorStatuses(statuses: StreamStatus[]): StreamStatus {
+  if (statuses.length === 0) return "disconnected"
+  return STATUS_ORDER.find((status) => statuses.includes(status)) ?? "disconnected"
+}
@@ -0,0 +1,74 @@
+import { afterEach, describe, expect, it, vi } from "vitest"
+import { authHeaders, checkHealth, DEFAULT_SETTINGS, normalizeSettings } from "@/lib/settings"
+
+describe("normalizeSettings", () => {
+  it("keeps valid settings", () => {
+    const settings = {
+      pollInterval: 1000,
+      staleAfter: 30,
+      auth: { mode: "basic", token: "", username: "admin", password: "secret" },
+    }
+    expect(normalizeSettings(settings)).toEqual(settings)
+  })
+
+  it("replaces values below the input minimums with the defaults", () => {
+    expect(normalizeSettings({ pollInterval: 10, staleAfter: 0 })).toMatchObject({
+      pollInterval: DEFAULT_SETTINGS.pollInterval,
+      staleAfter: DEFAULT_SETTINGS.staleAfter,
+    })
+    expect(normalizeSettings({ pollInterval: 500, staleAfter: 1 })).toMatchObject({ pollInterval: 500, staleAfter: 1 })
+  })
+
+  it("ignores malformed values", () => {
+    expect(
+      normalizeSettings({ pollInterval: "soon", staleAfter: Infinity, auth: { mode: "kerberos", token: 5 } }),
+    ).toEqual(DEFAULT_SETTINGS)
+    expect(normalizeSettings(null)).toEqual(DEFAULT_SETTINGS)
+  })
+})
+
+describe("authHeaders", () => {
+  it("builds bearer and UTF-8 basic credentials", () => {
+    expect(authHeaders({ mode: "token", token: "abc", username: "", password: "" })).toEqual({
+      Authorization: "Bearer abc",
+    })
+    expect(authHeaders({ mode: "basic", token: "", username: "zoë", password: "pw" })).toEqual({
+      Authorization: `Basic ${Buffer.from("zoë:pw").toString("base64")}`,
+    })
+  })
+
+  it("sends nothing without credentials", () => {
+    expect(authHeaders({ mode: "token", token: "", username: "", password: "" })).toEqual({})
+    expect(authHeaders(DEFAULT_SETTINGS.auth)).toEqual({})
+  })
+})
+
+describe("checkHealth", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals()
+  })
+
+  const respond = (response: Response | Error) =>
+    vi.stubGlobal(
+      "fetch",
+      vi.fn(() => (response instanceof Error ? Promise.reject(response) : Promise.resolve(response))),
+    )
+
+  it("reports a healthy backend", async () => {
+    respond(Response.json({ status: "ok" }))
+    await expect(checkHealth("http://sensor", {})).resolves.toMatchObject({ ok: true, message: "OK" })
+    expect(fetch).toHaveBeenCalledWith("http://sensor/api/health", expect.anything())
+  })
+
+  it("explains failures", async () => {
+    respond(new Response(null, { status: 401 }))
+    await expect(checkHealth("http://sensor", {})).resolves.toMatchObject({
+      ok: false,
+      message: "Rejected credentials (HTTP 401)",
+    })
+    respond(new Response("<html>", { status: 200 }))
+    await expect(checkHealth("http://sensor", {})).resolves.toMatchObject({ ok: false, message: "Unexpected response" })
+    respond(new TypeError("fetch failed"))
+    await expect(checkHealth("http://sensor", {})).resolves.toMatchObject({ ok: false, message: "Unreachable" })
+  })
+})
@@ -0,0 +1,99 @@
+export type AuthMode = "none" | "token" | "basic"
+
+export interface ConnectionSettings {
+  pollInterval: number // ms between polls when the stream is unavailable
+  staleAfter: number // seconds without a message before the HUD marks the data as stale
+  auth: {
+    mode: AuthMode
+    token: string
+    username: string
+    password: string
+  }
+}
+
+export interface HealthResult {
+  ok: boolean
+  latency: number // ms
+  message: string
+}
+
+export const DEFAULT_SETTINGS: ConnectionSettings = {
+  pollInterval: 2500,
+  staleAfter: 10,
+  auth: { mode: "none", token: "", username: "", password: "" },
+}
+
+// Credentials are kept alongside the other settings in plain localStorage, like the rest of the app's state
+const STORAGE_KEY = "144network.settings"
+const HEALTH_TIMEOUT = 5000
+
+// The smallest values the settings inputs allow, so a typo can't poll a backend nonstop
+export const MIN_POLL_INTERVAL = 500
+export const MIN_STALE_AFTER = 1
+
+function numberAtLeast(value: unknown, min: number, fallback: number): number {
+  const number = Number(value)
+  return Number.isFinite(number) && number >= min ? number : fallback
+}
+
+export function normalizeSettings(raw: any): ConnectionSettings {
+  const auth = raw?.auth ?? {}
+  return {
+    pollInterval: numberAtLeast(raw?.pollInterval, MIN_POLL_INTERVAL, DEFAULT_SETTINGS.pollInterval),
+    staleAfter: numberAtLeast(raw?.staleAfter, MIN_STALE_AFTER, DEFAULT_SETTINGS.staleAfter),
+    auth: {
+      mode: ["token", "basic"].includes(auth.mode) ? auth.mode : "none",
+      token: typeof auth.token === "string" ? auth.token : "",
+      username: typeof auth.username === "string" ? auth.username : "",
+      password: typeof auth.password === "string" ? auth.password : "",
+    },
+  }
+}
+
+export function loadStoredSettings(): ConnectionSettings {
+  if (typeof localStorage === "undefined") return DEFAULT_SETTINGS
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY)
+    return stored ? normalizeSettings(JSON.parse(stored)) : DEFAULT_SETTINGS
+  } catch {
+    return DEFAULT_SETTINGS
+  }
+}
+
+export function saveStoredSettings(settings: ConnectionSettings) {
+  if (typeof localStorage === "undefined") return
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(settings))
+}
+
+/** The `Authorization` header for the configured credentials; empty when there are none. */
+export function authHeaders(auth: ConnectionSettings["auth"]): Record<string, string> {
+  if (auth.mode === "token" && auth.token) return { Authorization: `Bearer ${auth.token}` }
+  if (auth.mode === "basic" && auth.username) {
+    const credentials = new TextEncoder().encode(`${auth.username}:${auth.password}`)
+    return { Authorization: `Basic ${btoa(String.fromCharCode(...Array.from(credentials)))}` }
+  }
+  return {}
+}
+
+/** Calls `/api/health` on a backend, reporting whether it answered, how fast, and why not. */
+export async function checkHealth(baseUrl: string, headers: Record<string, string>): Promise<HealthResult> {
+  const start = performance.now()
+  const controller = new AbortController()
+  const timeout = setTimeout(() => controller.abort(), HEALTH_TIMEOUT)
+  try {
+    const response = await fetch(`${baseUrl}/api/health`, { headers, signal: controller.signal })
+    const latency = Math.round(performance.now() - start)
+    if (response.status === 401 || response.status === 403) {
+      return { ok: false, latency, message: `Rejected credentials (HTTP ${response.status})` }
+    }
+    if (!response.ok) return { ok: false, latency, message: `HTTP ${response.status}` }
+    const body = await response.json().catch(() => null)
+    return { ok: body?.status === "ok", latency, message: body?.status === "ok" ? "OK" : "Unexpected response" }
+  } catch {
+    const latency = Math.round(performance.now() - start)
+    const message = controller.signal.aborted ? "Timed out" : "Unreachable"
+    return { ok: false, latency, message }
+  } finally {
+    clearTimeout(timeout)
+  }
+}
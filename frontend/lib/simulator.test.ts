@@ -0,0 +1,54 @@
+import { describe, expect, it } from "vitest"
+import { createRandom, createSimulator, isScenario, SCENARIOS } from "@/lib/simulator"
+
+describe("createRandom", () => {
+  it("repeats for a seed and stays in [0, 1)", () => {
+    const a = createRandom(7)
+    const b = createRandom(7)
+    const values = Array.from({ length: 1000 }, () => a())
+    expect(values.slice(0, 5)).toEqual(Array.from({ length: 5 }, () => b()))
+    expect(values.every((value) => value >= 0 && value < 1)).toBe(true)
+    expect(createRandom(8)()).not.toBe(values[0])
+  })
+})
+
+describe("isScenario", () => {
+  it("accepts only listed scenarios", () => {
+    expect(SCENARIOS.every((scenario) => isScenario(scenario.value))).toBe(true)
+    expect(isScenario("constructor")).toBe(false)
+    expect(isScenario("toString")).toBe(false)
+    expect(isScenario("")).toBe(false)
+  })
+})
+
+describe("createSimulator", () => {
+  it.each(SCENARIOS.map((scenario) => scenario.value))("replays %s identically for a seed", (scenario) => {
+    const run = () => {
+      const simulator = createSimulator({ scenario, seed: 3, start: 1000 })
+      return Array.from({ length: 20 }, () => simulator.next())
+    }
+    const snapshots = run()
+    expect(snapshots).toEqual(run())
+    expect(snapshots.map((snapshot) => snapshot.timestamp)).toEqual(Array.from({ length: 20 }, (_, i) => 1001 + i))
+    expect(snapshots[19].nodes.length).toBeGreaterThan(0)
+  })
+
+  it("only ever increases edge counts", () => {
+    const simulator = createSimulator({ scenario: "office", seed: 1, start: 0 })
+    let previous = new Map<string, number>()
+    for (let i = 0; i < 30; i++) {
+      const weights = new Map(simulator.next().edges.map((edge) => [`${edge.source}>${edge.target}`, edge.weight]))
+      weights.forEach((weight, key) => expect(weight).toBeGreaterThanOrEqual(previous.get(key) ?? 0))
+      previous = weights
+    }
+  })
+
+  it("sends the port scan to the web server once it starts", () => {
+    const simulator = createSimulator({ scenario: "port-scan", seed: 1, start: 0 })
+    const snapshots = Array.from({ length: 30 }, () => simulator.next())
+    const scanned = (i: number) =>
+      snapshots[i].edges.find((e) => e.source === "203.0.113.66" && e.target === "10.0.0.20")
+    expect(scanned(5)).toBeUndefined()
+    expect(scanned(29)!.flows!.length).toBeGreaterThan(100)
+  })
+})
@@ -0,0 +1,244 @@
+import { createPacketAggregator, type CapturedPacket } from "@/lib/capture"
+import { formatIPv6, parseIPv6 } from "@/lib/ip"
+import type { Protocol } from "@/lib/protocols"
+import type { ApiTopologyResponse } from "@/lib/topology"
+
+export type Scenario = "office" | "port-scan" | "ddos" | "churn"
+
+export const SCENARIOS: { value: Scenario; label: string; description: string }[] = [
+  { value: "office", label: "Office LAN", description: "Workstations talking to local servers and the internet" },
+  { value: "port-scan", label: "Port scan", description: "An outside host sweeping the LAN and probing server ports" },
+  { value: "ddos", label: "DDoS burst", description: "Recurring floods from hundreds of sources at the web server" },
+  { value: "churn", label: "Node churn", description: "Short-lived IPv4 and IPv6 guests joining and leaving" },
+]
+
+export interface SimulatorOptions {
+  scenario: Scenario
+  seed: number
+  start?: number // unix seconds of the first tick; defaults to now
+}
+
+export interface Simulator {
+  next: () => ApiTopologyResponse // the topology after one more second of traffic
+}
+
+/** One second of simulated traffic. */
+interface Tick {
+  elapsed: number // seconds since the simulation started
+  random: () => number
+  send: (src: string, dst: string, protocol: Protocol, port: number | undefined, packets: number) => void
+}
+
+type ScenarioStep = (tick: Tick) => void
+
+export const SIMULATOR_TICK = 1000 // ms between snapshots
+
+// A private LAN; outside hosts are well-known public services, except the scanner's documentation address
+const ROUTER = "10.0.0.1"
+const DNS_SERVER = "10.0.0.2"
+const FILE_SERVER = "10.0.0.10"
+const WEB_SERVER = "10.0.0.20"
+const WORKSTATIONS = Array.from({ length: 14 }, (_, i) => `10.0.0.${100 + i}`)
+const UPSTREAM_DNS = "1.1.1.1"
+const NTP_SERVER = "162.159.200.1"
+const INTERNET = ["142.250.72.14", "151.101.1.69", "104.16.132.229", "13.107.42.14", "52.84.150.11", "17.253.144.10"]
+const INTERNET_V6 = ["2606:4700::6810:84e5", "2a00:1450:4009:81d::200e", "2620:1ec:c11::200"]
+const SCANNER = "203.0.113.66"
+const GUEST_ROUTER_V6 = "2001:db8:0:1::1"
+const GUEST_PREFIX_V6 = parseIPv6("2001:db8:0:1::")!
+// First octets of the botnet's sources, all in publicly routed space
+const BOTNET_OCTETS = [23, 31, 37, 45, 46, 62, 77, 81, 91, 103, 110, 116, 177, 185, 186, 190, 195, 201, 212, 218]
+
+/** mulberry32: small and fast, random enough for traffic while staying reproducible from the seed. */
+export function createRandom(seed: number): () => number {
+  let state = seed >>> 0
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0
+    let t = state
+    t = Math.imul(t ^ (t >>> 15), t | 1)
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+}
+
+function randomInt(random: () => number, min: number, max: number): number {
+  return min + Math.floor(random() * (max - min + 1))
+}
+
+function pick<T>(random: () => number, items: T[]): T {
+  return items[Math.floor(random() * items.length)]
+}
+
+/** A request and its replies; replies go back to the client's ephemeral port, so they carry no port. */
+function exchange(
+  tick: Tick,
+  client: string,
+  server: string,
+  protocol: Protocol,
+  port: number | undefined,
+  packets: number,
+) {
+  tick.send(client, server, protocol, port, Math.ceil(packets / 2))
+  tick.send(server, client, protocol, undefined, Math.floor(packets / 2))
+}
+
+/** Lookups, web browsing, file shares and the intranet; `activity` scales how busy the office is. */
+function officeTraffic(tick: Tick, workstations: string[], activity = 1) {
+  const { random } = tick
+  workstations.forEach((workstation) => {
+    if (random() > 0.6 * activity) return
+    exchange(tick, workstation, DNS_SERVER, "udp", 53, 2)
+    exchange(tick, workstation, pick(random, INTERNET), "tcp", 443, randomInt(random, 6, 40))
+    if (random() < 0.15) exchange(tick, workstation, FILE_SERVER, "tcp", 445, randomInt(random, 10, 80))
+    if (random() < 0.2) exchange(tick, workstation, WEB_SERVER, "tcp", 443, randomInt(random, 4, 20))
+  })
+  if (random() < 0.5) exchange(tick, DNS_SERVER, UPSTREAM_DNS, "udp", 53, randomInt(random, 2, 6))
+  if (tick.elapsed % 16 === 0) exchange(tick, ROUTER, NTP_SERVER, "udp", 123, 2)
+  if (random() < 0.3) exchange(tick, WEB_SERVER, FILE_SERVER, "tcp", 445, randomInt(random, 4, 12))
+}
+
+function office(): ScenarioStep {
+  return (tick) => officeTraffic(tick, WORKSTATIONS)
+}
+
+const SCAN_START = 10 // seconds of normal traffic before the scan begins
+const SCAN_PORTS = 1024
+const SCAN_RATE = 48 // ports per second
+
+/** A ping sweep of the LAN, then SYNs to every well-known port of each server that answered, then again. */
+function portScan(): ScenarioStep {
+  const hosts = [ROUTER, DNS_SERVER, FILE_SERVER, WEB_SERVER, ...WORKSTATIONS]
+  const targets = [WEB_SERVER, FILE_SERVER]
+  const sweepLength = Math.ceil(hosts.length / 4)
+  const cycle = sweepLength + targets.length * Math.ceil(SCAN_PORTS / SCAN_RATE)
+
+  return (tick) => {
+    officeTraffic(tick, WORKSTATIONS)
+    if (tick.elapsed < SCAN_START) return
+    const position = (tick.elapsed - SCAN_START) % cycle
+    if (position < sweepLength) {
+      hosts.slice(position * 4, position * 4 + 4).forEach((host) => exchange(tick, SCANNER, host, "icmp", undefined, 2))
+      return
+    }
+    const probe = (position - sweepLength) * SCAN_RATE
+    const target = targets[Math.floor(probe / SCAN_PORTS)]
+    for (let port = (probe % SCAN_PORTS) + 1; port <= Math.min(SCAN_PORTS, (probe % SCAN_PORTS) + SCAN_RATE); port++) {
+      // A SYN and the target's RST (or SYN-ACK, for the few open ports)
+      exchange(tick, SCANNER, target, "tcp", port, 2)
+    }
+  }
+}
+
+const DDOS_PERIOD = 60 // seconds from the start of one burst to the next
+const DDOS_OFFSET = 15 // seconds of normal traffic before the first burst
+const DDOS_DURATION = 20
+const BOTNET_SIZE = 300
+const BOTNET_ACTIVE = 0.4 // share of the botnet sending in any one second of a burst
+
+function botAddress(random: () => number): string {
+  const octets = [randomInt(random, 0, 255), randomInt(random, 0, 255), randomInt(random, 1, 254)]
+  return [pick(random, BOTNET_OCTETS), ...octets].join(".")
+}
+
+/** Bursts of SYN and UDP floods from a fixed botnet at the web server, which slows the office down. */
+function ddos(random: () => number): ScenarioStep {
+  const botnet = Array.from({ length: BOTNET_SIZE }, () => botAddress(random))
+
+  return (tick) => {
+    const phase = (tick.elapsed - DDOS_OFFSET + DDOS_PERIOD) % DDOS_PERIOD
+    const attacking = tick.elapsed >= DDOS_OFFSET && phase < DDOS_DURATION
+    officeTraffic(tick, WORKSTATIONS, attacking ? 0.5 : 1)
+    if (!attacking) return
+    // Ramps up over the first few seconds of each burst
+    const intensity = Math.min(1, (phase + 1) / 4)
+    botnet.forEach((bot) => {
+      if (tick.random() > BOTNET_ACTIVE * intensity) return
+      if (tick.random() < 0.7) tick.send(bot, WEB_SERVER, "tcp", 443, randomInt(tick.random, 4, 12))
+      else tick.send(bot, WEB_SERVER, "udp", undefined, randomInt(tick.random, 8, 24))
+    })
+    tick.send(WEB_SERVER, ROUTER, "icmp", undefined, randomInt(tick.random, 5, 15))
+  }
+}
+
+const GUEST_ARRIVALS = 0.8 // guests joining per second, on average
+const GUEST_LIFETIME = [5, 25] // seconds a guest stays active
+
+interface Guest {
+  ip: string
+  leavesAt: number
+}
+
+function guestAddress(random: () => number): string {
+  if (random() < 0.5) return `10.0.1.${randomInt(random, 2, 254)}`
+  // SLAAC-style random interface identifier in the guest /64
+  const interfaceId = Array.from({ length: 4 }, () => BigInt(randomInt(random, 0, 0xffff))).reduce(
+    (value, group) => (value << BigInt(16)) | group,
+    BigInt(0),
+  )
+  return formatIPv6(GUEST_PREFIX_V6 | interfaceId)
+}
+
+/** A quiet office plus guests on dual-stack Wi-Fi who browse for a little while and leave. */
+function churn(): ScenarioStep {
+  const guests: Guest[] = []
+
+  return (tick) => {
+    const { random } = tick
+    officeTraffic(tick, WORKSTATIONS.slice(0, 5))
+    for (let arrivals = GUEST_ARRIVALS; random() < arrivals; arrivals--) {
+      const ip = guestAddress(random)
+      if (guests.some((guest) => guest.ip === ip)) continue
+      guests.push({ ip, leavesAt: tick.elapsed + randomInt(random, GUEST_LIFETIME[0], GUEST_LIFETIME[1]) })
+    }
+    for (let i = guests.length - 1; i >= 0; i--) {
+      if (guests[i].leavesAt <= tick.elapsed) guests.splice(i, 1)
+    }
+    guests.forEach((guest) => {
+      if (random() < 0.3) return
+      const ipv6 = guest.ip.includes(":")
+      exchange(tick, guest.ip, pick(random, ipv6 ? INTERNET_V6 : INTERNET), "tcp", 443, randomInt(random, 4, 30))
+      if (ipv6 && random() < 0.2) exchange(tick, guest.ip, GUEST_ROUTER_V6, "icmp", undefined, 2)
+      if (!ipv6 && random() < 0.3) exchange(tick, guest.ip, DNS_SERVER, "udp", 53, 2)
+    })
+  }
+}
+
+const SCENARIO_STEPS: Record<Scenario, (random: () => number) => ScenarioStep> = {
+  office,
+  "port-scan": portScan,
+  ddos,
+  churn,
+}
+
+export function isScenario(value: string): value is Scenario {
+  return SCENARIOS.some((scenario) => scenario.value === value)
+}
+
+/**
+ * Generates traffic one second at a time and aggregates it like the backend would, so the same
+ * scenario and seed always produce the same sequence of snapshots (offset by `start`).
+ */
+export function createSimulator(options: SimulatorOptions): Simulator {
+  const { scenario, seed, start = Math.floor(Date.now() / 1000) } = options
+  const random = createRandom(seed)
+  const step = SCENARIO_STEPS[scenario](random)
+  const aggregator = createPacketAggregator()
+  let elapsed = 0
+
+  return {
+    next: () => {
+      const time = start + elapsed
+      const packets: CapturedPacket[] = []
+      step({
+        elapsed,
+        random,
+        send: (src, dst, protocol, port, count) => {
+          for (let i = 0; i < count; i++) packets.push({ timestamp: time + random(), src, dst, protocol, port })
+        },
+      })
+      packets.sort((a, b) => a.timestamp - b.timestamp).forEach(aggregator.count)
+      elapsed++
+      return aggregator.snapshot(time + 1)
+    },
+  }
+}
@@ -0,0 +1,10 @@
+import type { NetworkLink, NetworkNode } from "@/lib/topology"
+
+/** An active client at 0,0 named after its address, for tests that only care about a few fields. */
+export function node(ip: string, extra: Partial<NetworkNode> = {}): NetworkNode {
+  return { id: ip, name: ip, ip, role: "Client", lat: 0, long: 0, status: "active", ...extra }
+}
+
+export function link(source: string, target: string, traffic = 0, extra: Partial<NetworkLink> = {}): NetworkLink {
+  return { source, target, traffic, packets: 0, ...extra }
+}
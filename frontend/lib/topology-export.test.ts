@@ -0,0 +1,85 @@
+import { describe, expect, it } from "vitest"
+import type { TopologyData } from "@/lib/topology"
+import {
+  exportTopologyData,
+  linksToCSV,
+  nodesToCSV,
+  pickTopology,
+  topologyToDOT,
+  topologyToGraphML,
+  topologyToJSON,
+} from "@/lib/topology-export"
+
+const topology: TopologyData = {
+  nodes: [
+    { id: "a", name: 'Core "1", east', ip: "10.0.0.1", role: "Router", lat: 1, long: 2, status: "active", packets: 9 },
+    { id: "b", name: "R&D <lab>", ip: "10.0.0.2", role: "Client", lat: 3, long: 4, status: "idle", tags: ["x", "y"] },
+  ],
+  links: [
+    {
+      source: "a",
+      target: "b",
+      traffic: 1.23456,
+      packets: 9,
+      flows: [{ protocol: "tcp", port: 443, service: "https", packets: 9 }],
+    },
+    { source: "b", target: "a", traffic: 0, packets: 0, static: true },
+  ],
+}
+
+describe("CSV export", () => {
+  it("quotes fields containing commas or quotes", () => {
+    expect(nodesToCSV(topology).split("\n")).toEqual([
+      "id,name,ip,role,status,lat,long,city,country,asn,packets,tags",
+      'a,"Core ""1"", east",10.0.0.1,Router,active,1,2,,,,9,',
+      "b,R&D <lab>,10.0.0.2,Client,idle,3,4,,,,,x;y",
+      "",
+    ])
+  })
+
+  it("lists links with their endpoints' addresses and flows", () => {
+    expect(linksToCSV(topology).split("\n")).toEqual([
+      "source,target,source_ip,target_ip,traffic,packets,static,flows",
+      "a,b,10.0.0.1,10.0.0.2,1.235,9,false,https:9",
+      "b,a,10.0.0.2,10.0.0.1,0.000,0,true,",
+      "",
+    ])
+  })
+})
+
+describe("graph formats", () => {
+  it("escapes XML in GraphML and skips missing attributes", () => {
+    const graphml = topologyToGraphML(topology)
+    expect(graphml).toContain('<data key="n_name">R&amp;D &lt;lab&gt;</data>')
+    expect(graphml).toContain('<edge id="e1" source="b" target="a">')
+    expect(graphml.match(/key="n_packets"/g)).toHaveLength(1)
+  })
+
+  it("escapes quotes in DOT and dashes static links", () => {
+    const dot = topologyToDOT(topology)
+    expect(dot).toContain('label="Core \\"1\\", east\\n10.0.0.1"')
+    expect(dot).toContain('"b" -> "a" [traffic=0.000, packets=0, style=dashed];')
+  })
+
+  it("stamps JSON with the export time", () => {
+    expect(JSON.parse(topologyToJSON(topology, 0))).toMatchObject({ exportedAt: "1970-01-01T00:00:00.000Z" })
+  })
+})
+
+describe("exportTopologyData", () => {
+  it("splits CSV into node and link files", () => {
+    expect(exportTopologyData(topology, "csv", "snap").map((file) => file.filename)).toEqual([
+      "snap-nodes.csv",
+      "snap-links.csv",
+    ])
+  })
+})
+
+describe("pickTopology", () => {
+  it("keeps only the filtered nodes and links", () => {
+    expect(pickTopology(topology, new Set(["a"]), new Set([topology.links[0]]))).toEqual({
+      nodes: [topology.nodes[0]],
+      links: [topology.links[0]],
+    })
+  })
+})
@@ -0,0 +1,259 @@
+import { NEON_COLORS } from "@/lib/colors"
+import { flowLabel } from "@/lib/protocols"
+import type { NetworkLink, NetworkNode, TopologyData } from "@/lib/topology"
+
+export type ImageExportFormat = "svg" | "png"
+export type DataExportFormat = "json" | "csv" | "graphml" | "dot"
+export type ExportFormat = ImageExportFormat | DataExportFormat
+
+export interface ExportedFile {
+  filename: string
+  content: string
+  type: string
+}
+
+const SVG_NS = "http://www.w3.org/2000/svg"
+
+/** Keeps the nodes and links that passed the filter, as produced by `applyTopologyFilter`. */
+export function pickTopology(topology: TopologyData, nodeIds: Set<string>, links: Set<NetworkLink>): TopologyData {
+  return {
+    nodes: topology.nodes.filter((node) => nodeIds.has(node.id)),
+    links: topology.links.filter((link) => links.has(link)),
+  }
+}
+
+function csvField(value: unknown): string {
+  const text = value === undefined || value === null ? "" : String(value)
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+function csvRows(rows: unknown[][]): string {
+  return rows.map((row) => row.map(csvField).join(",")).join("\n") + "\n"
+}
+
+function xmlEscape(value: unknown): string {
+  return String(value).replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;")
+}
+
+function dotString(value: unknown): string {
+  return `"${String(value).replace(/\\/g, "\\\\").replace(/"/g, '\\"').replace(/\n/g, "\\n")}"`
+}
+
+function nodeIps(topology: TopologyData): Map<string, string> {
+  return new Map(topology.nodes.map((node) => [node.id, node.ip]))
+}
+
+export function topologyToJSON(topology: TopologyData, exportedAt = Date.now()): string {
+  return JSON.stringify({ exportedAt: new Date(exportedAt).toISOString(), ...topology }, null, 2)
+}
+
+export function nodesToCSV(topology: TopologyData): string {
+  return csvRows([
+    ["id", "name", "ip", "role", "status", "lat", "long", "city", "country", "asn", "packets", "tags"],
+    ...topology.nodes.map((node) => [
+      node.id,
+      node.name,
+      node.ip,
+      node.role,
+      node.status,
+      node.lat,
+      node.long,
+      node.location?.city,
+      node.location?.country,
+      node.location?.asn,
+      node.packets,
+      node.tags?.join(";"),
+    ]),
+  ])
+}
+
+export function linksToCSV(topology: TopologyData): string {
+  const ips = nodeIps(topology)
+  return csvRows([
+    ["source", "target", "source_ip", "target_ip", "traffic", "packets", "static", "flows"],
+    ...topology.links.map((link) => [
+      link.source,
+      link.target,
+      ips.get(link.source),
+      ips.get(link.target),
+      link.traffic.toFixed(3),
+      link.packets,
+      link.static ? "true" : "false",
+      // e.g. "https:120;dns:4;ICMP:2"
+      link.flows?.map((flow) => `${flowLabel(flow)}:${flow.packets}`).join(";"),
+    ]),
+  ])
+}
+
+const GRAPHML_NODE_KEYS: [keyof NetworkNode, string][] = [
+  ["name", "string"],
+  ["ip", "string"],
+  ["role", "string"],
+  ["status", "string"],
+  ["lat", "double"],
+  ["long", "double"],
+  ["packets", "long"],
+]
+const GRAPHML_LINK_KEYS: [keyof NetworkLink, string][] = [
+  ["traffic", "double"],
+  ["packets", "long"],
+]
+
+export function topologyToGraphML(topology: TopologyData): string {
+  const keys = [
+    ...GRAPHML_NODE_KEYS.map(
+      ([name, type]) => `  <key id="n_${name}" for="node" attr.name="${name}" attr.type="${type}"/>`,
+    ),
+    ...GRAPHML_LINK_KEYS.map(
+      ([name, type]) => `  <key id="e_${name}" for="edge" attr.name="${name}" attr.type="${type}"/>`,
+    ),
+  ]
+  const data = <T>(prefix: string, keys: [keyof T, string][], item: T) =>
+    keys
+      .filter(([name]) => item[name] !== undefined)
+      .map(([name]) => `      <data key="${prefix}_${String(name)}">${xmlEscape(item[name])}</data>`)
+  const nodes = topology.nodes.map((node) =>
+    [`    <node id="${xmlEscape(node.id)}">`, ...data("n", GRAPHML_NODE_KEYS, node), "    </node>"].join("\n"),
+  )
+  const edges = topology.links.map((link, i) =>
+    [
+      `    <edge id="e${i}" source="${xmlEscape(link.source)}" target="${xmlEscape(link.target)}">`,
+      ...data("e", GRAPHML_LINK_KEYS, link),
+      "    </edge>",
+    ].join("\n"),
+  )
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<graphml xmlns="http://graphml.graphdrawing.org/xmlns">',
+    ...keys,
+    '  <graph id="topology" edgedefault="directed">',
+    ...nodes,
+    ...edges,
+    "  </graph>",
+    "</graphml>",
+    "",
+  ].join("\n")
+}
+
+export function topologyToDOT(topology: TopologyData): string {
+  const nodes = topology.nodes.map((node) => {
+    const attrs = [
+      `label=${dotString(`${node.name}\n${node.ip}`)}`,
+      `role=${dotString(node.role)}`,
+      `status=${dotString(node.status)}`,
+      `lat=${node.lat}`,
+      `long=${node.long}`,
+      `shape=${node.role === "Router" ? "box" : "ellipse"}`,
+      `color=${dotString(node.role === "Router" ? NEON_COLORS.router : NEON_COLORS.endpoint)}`,
+    ]
+    if (node.packets !== undefined) attrs.push(`packets=${node.packets}`)
+    return `  ${dotString(node.id)} [${attrs.join(", ")}];`
+  })
+  const edges = topology.links.map(
+    (link) =>
+      `  ${dotString(link.source)} -> ${dotString(link.target)} [traffic=${link.traffic.toFixed(3)}, packets=${link.packets}${link.static ? ", style=dashed" : ""}];`,
+  )
+  return ["digraph topology {", ...nodes, ...edges, "}", ""].join("\n")
+}
+
+/** Serialises `topology` into the files for a data format; CSV produces one file for nodes and one for links. */
+export function exportTopologyData(topology: TopologyData, format: DataExportFormat, basename: string): ExportedFile[] {
+  switch (format) {
+    case "json":
+      return [{ filename: `${basename}.json`, content: topologyToJSON(topology), type: "application/json" }]
+    case "csv":
+      return [
+        { filename: `${basename}-nodes.csv`, content: nodesToCSV(topology), type: "text/csv" },
+        { filename: `${basename}-links.csv`, content: linksToCSV(topology), type: "text/csv" },
+      ]
+    case "graphml":
+      return [{ filename: `${basename}.graphml`, content: topologyToGraphML(topology), type: "application/xml" }]
+    case "dot":
+      return [{ filename: `${basename}.dot`, content: topologyToDOT(topology), type: "text/vnd.graphviz" }]
+  }
+}
+
+export interface SvgSnapshotOptions {
+  width: number
+  height: number
+  background?: string
+  hudLines?: string[] // drawn top-left together with the role legend when given
+}
+
+/** Returns a standalone copy of the rendered globe; every style the view uses is set as an attribute. */
+export function serializeSvgSnapshot(svg: SVGSVGElement, options: SvgSnapshotOptions): string {
+  const { width, height, background = "#000000", hudLines } = options
+  const clone = svg.cloneNode(true) as SVGSVGElement
+  clone.setAttribute("xmlns", SVG_NS)
+  clone.setAttribute("width", String(width))
+  clone.setAttribute("height", String(height))
+  clone.setAttribute("viewBox", `0 0 ${width} ${height}`)
+  clone.removeAttribute("class")
+
+  const backdrop = document.createElementNS(SVG_NS, "rect")
+  backdrop.setAttribute("width", String(width))
+  backdrop.setAttribute("height", String(height))
+  backdrop.setAttribute("fill", background)
+  clone.insertBefore(backdrop, clone.firstChild)
+
+  if (hudLines) {
+    const hud = document.createElementNS(SVG_NS, "g")
+    hud.setAttribute("font-family", "monospace")
+    hud.setAttribute("font-size", "11")
+    hud.setAttribute("fill", "#a3a3a3")
+    const lines: [string, string | null][] = [
+      ...hudLines.map((line): [string, string | null] => [line, null]),
+      ["Router", NEON_COLORS.router],
+      ["Server / Client", NEON_COLORS.endpoint],
+    ]
+    lines.forEach(([line, swatch], i) => {
+      const y = 20 + i * 15
+      const text = document.createElementNS(SVG_NS, "text")
+      text.setAttribute("x", swatch ? "28" : "16")
+      text.setAttribute("y", String(y))
+      text.textContent = line
+      hud.appendChild(text)
+      if (swatch) {
+        const dot = document.createElementNS(SVG_NS, "circle")
+        dot.setAttribute("cx", "20")
+        dot.setAttribute("cy", String(y - 4))
+        dot.setAttribute("r", "4")
+        dot.setAttribute("fill", swatch)
+        hud.appendChild(dot)
+      }
+    })
+    clone.appendChild(hud)
+  }
+
+  return new XMLSerializer().serializeToString(clone)
+}
+
+/** Rasterises an SVG snapshot at `scale`×, drawing `overlay` (e.g. the packet canvas) on top. */
+export function rasterizeSvg(
+  svgText: string,
+  width: number,
+  height: number,
+  scale: number,
+  overlay?: HTMLCanvasElement | null,
+): Promise<Blob> {
+  return new Promise((resolve, reject) => {
+    const url = URL.createObjectURL(new Blob([svgText], { type: "image/svg+xml" }))
+    const image = new Image()
+    image.onload = () => {
+      URL.revokeObjectURL(url)
+      const canvas = document.createElement("canvas")
+      canvas.width = Math.round(width * scale)
+      canvas.height = Math.round(height * scale)
+      const context = canvas.getContext("2d")!
+      context.drawImage(image, 0, 0, canvas.width, canvas.height)
+      if (overlay) context.drawImage(overlay, 0, 0, canvas.width, canvas.height)
+      canvas.toBlob((blob) => (blob ? resolve(blob) : reject(new Error("PNG encoding failed"))), "image/png")
+    }
+    image.onerror = () => {
+      URL.revokeObjectURL(url)
+      reject(new Error("Could not render SVG snapshot"))
+    }
+    image.src = url
+  })
+}
@@ -0,0 +1,91 @@
+import { describe, expect, it } from "vitest"
+import { link, node } from "@/lib/test-fixtures"
+import type { TopologyData } from "@/lib/topology"
+import {
+  applyTopologyFilter,
+  DEFAULT_FILTER,
+  isFilterActive,
+  parseCidrList,
+  type TopologyFilter,
+} from "@/lib/topology-filter"
+
+const topology: TopologyData = {
+  nodes: [
+    node("10.0.0.1", { role: "Router", name: "Core router" }),
+    node("10.0.0.5"),
+    node("10.0.1.9", { role: "Server" }),
+    node("8.8.8.8", { role: "Server" }),
+  ],
+  links: [link("10.0.0.5", "10.0.0.1", 4), link("10.0.0.1", "8.8.8.8", 2), link("10.0.1.9", "10.0.0.1", 0.5)],
+}
+
+const filter = (overrides: Partial<TopologyFilter>) =>
+  applyTopologyFilter(topology, { ...DEFAULT_FILTER, ...overrides })
+const ids = (overrides: Partial<TopologyFilter>) => [...filter(overrides).nodeIds]
+
+describe("applyTopologyFilter", () => {
+  it("keeps everything with the default filter", () => {
+    const result = filter({})
+    expect(result.nodeIds.size).toBe(4)
+    expect(result.links.size).toBe(3)
+  })
+
+  it("matches the query against names and addresses, ignoring case", () => {
+    expect(ids({ query: "8.8" })).toEqual(["8.8.8.8"])
+    expect(ids({ query: "  CORE " })).toEqual(["10.0.0.1"])
+    expect(ids({ query: "10.0.0" })).toEqual(["10.0.0.1", "10.0.0.5"])
+  })
+
+  it("applies include and exclude CIDR lists", () => {
+    expect(ids({ include: "10.0.0.0/24, 8.8.8.8/32" })).toEqual(["10.0.0.1", "10.0.0.5", "8.8.8.8"])
+    expect(ids({ include: "10.0.0.0/16", exclude: "10.0.0.0/24" })).toEqual(["10.0.1.9"])
+  })
+
+  it("filters by role and by the traffic summed over a node's links", () => {
+    expect(ids({ roles: { Router: true, Server: false, Client: true } })).toEqual(["10.0.0.1", "10.0.0.5"])
+    expect(ids({ minTraffic: 2 })).toEqual(["10.0.0.1", "10.0.0.5", "8.8.8.8"])
+  })
+
+  it("hides what only excluded sensors observed", () => {
+    const observed: TopologyData = {
+      nodes: [node("10.0.0.1", { sensors: ["a"] }), node("10.0.0.2", { sensors: ["a", "b"] }), node("10.0.0.3")],
+      links: [link("10.0.0.1", "10.0.0.2", 1, { sensors: ["a"] }), link("10.0.0.2", "10.0.0.3", 1, { sensors: ["b"] })],
+    }
+    const result = applyTopologyFilter(observed, { ...DEFAULT_FILTER, excludedSensors: ["a"] })
+    expect([...result.nodeIds]).toEqual(["10.0.0.2", "10.0.0.3"])
+    expect([...result.links]).toEqual([observed.links[1]])
+  })
+
+  it("hides links carrying none of the enabled protocols", () => {
+    const udpOnly = { tcp: false, udp: true, icmp: false, other: false }
+    const withFlows: TopologyData = {
+      nodes: topology.nodes,
+      links: [
+        link("10.0.0.5", "10.0.0.1", 1, { flows: [{ protocol: "tcp", port: 443, packets: 1 }] }),
+        link("10.0.0.1", "8.8.8.8", 1, { flows: [{ protocol: "udp", port: 53, packets: 1 }] }),
+      ],
+    }
+    expect([...applyTopologyFilter(withFlows, { ...DEFAULT_FILTER, protocols: udpOnly }).links]).toEqual([
+      withFlows.links[1],
+    ])
+  })
+
+  it("keeps links touching at least one matching node", () => {
+    const { links } = filter({ query: "8.8.8.8" })
+    expect([...links]).toEqual([topology.links[1]])
+  })
+})
+
+describe("parseCidrList", () => {
+  it("splits on commas and whitespace and drops invalid entries", () => {
+    expect(parseCidrList("10.0.0.0/8,  bogus\n192.168.1.0/24").map((cidr) => cidr.prefix)).toEqual([8, 24])
+  })
+})
+
+describe("isFilterActive", () => {
+  it("ignores blank and invalid settings", () => {
+    expect(isFilterActive(DEFAULT_FILTER)).toBe(false)
+    expect(isFilterActive({ ...DEFAULT_FILTER, query: "  ", include: "bogus" })).toBe(false)
+    expect(isFilterActive({ ...DEFAULT_FILTER, minTraffic: 1 })).toBe(true)
+  })
+})
@@ -0,0 +1,91 @@
+import { ipInCidr, parseCidr, type Cidr } from "@/lib/ip"
+import { carriesProtocol, type Protocol } from "@/lib/protocols"
+import type { NetworkLink, NetworkNode, TopologyData } from "@/lib/topology"
+
+export interface TopologyFilter {
+  query: string
+  include: string // comma/space separated CIDRs; empty includes everything
+  exclude: string
+  roles: Record<NetworkNode["role"], boolean>
+  minTraffic: number // packets/s summed over a node's links
+  excludedSensors: string[] // hides what only these sensors observed
+  protocols: Record<Protocol, boolean> // hides links carrying none of the enabled protocols
+}
+
+export const DEFAULT_FILTER: TopologyFilter = {
+  query: "",
+  include: "",
+  exclude: "",
+  roles: { Router: true, Server: true, Client: true },
+  minTraffic: 0,
+  excludedSensors: [],
+  protocols: { tcp: true, udp: true, icmp: true, other: true },
+}
+
+export interface FilterResult {
+  nodeIds: Set<string>
+  links: Set<NetworkLink>
+}
+
+export function parseCidrList(text: string): Cidr[] {
+  return text
+    .split(/[\s,]+/)
+    .filter(Boolean)
+    .map(parseCidr)
+    .filter((c): c is Cidr => c !== null)
+}
+
+export function isFilterActive(filter: TopologyFilter): boolean {
+  return (
+    filter.query.trim() !== "" ||
+    parseCidrList(filter.include).length > 0 ||
+    parseCidrList(filter.exclude).length > 0 ||
+    Object.values(filter.roles).some((enabled) => !enabled) ||
+    filter.minTraffic > 0 ||
+    filter.excludedSensors.length > 0 ||
+    Object.values(filter.protocols).some((enabled) => !enabled)
+  )
+}
+
+/**
+ * Works out which nodes match the filter and which links touch a matching node.
+ * Nothing is removed from the topology; callers dim whatever is not in the result.
+ */
+export function applyTopologyFilter(topology: TopologyData, filter: TopologyFilter): FilterResult {
+  const query = filter.query.trim().toLowerCase()
+  const include = parseCidrList(filter.include)
+  const exclude = parseCidrList(filter.exclude)
+  // Anything without provenance (inventory devices, captures) is never hidden by sensor
+  const seenByIncludedSensor = (sensors?: string[]) =>
+    !sensors || sensors.some((sensor) => !filter.excludedSensors.includes(sensor))
+
+  const nodeTraffic = new Map<string, number>()
+  topology.links.forEach((link) => {
+    nodeTraffic.set(link.source, (nodeTraffic.get(link.source) ?? 0) + link.traffic)
+    nodeTraffic.set(link.target, (nodeTraffic.get(link.target) ?? 0) + link.traffic)
+  })
+
+  const nodeIds = new Set<string>()
+  topology.nodes.forEach((node) => {
+    // A cluster's `ip` is its prefix or ASN, so address ranges are checked against its members instead
+    const ips = node.cluster?.memberIPs ?? [node.ip]
+    if (query && !node.name.toLowerCase().includes(query) && !node.ip.toLowerCase().includes(query)) return
+    if (include.length > 0 && !ips.some((ip) => include.some((cidr) => ipInCidr(ip, cidr)))) return
+    if (ips.every((ip) => exclude.some((cidr) => ipInCidr(ip, cidr)))) return
+    if (!filter.roles[node.role]) return
+    if ((nodeTraffic.get(node.id) ?? 0) < filter.minTraffic) return
+    if (!seenByIncludedSensor(node.sensors)) return
+    nodeIds.add(node.id)
+  })
+
+  const links = new Set(
+    topology.links.filter(
+      (link) =>
+        (nodeIds.has(link.source) || nodeIds.has(link.target)) &&
+        seenByIncludedSensor(link.sensors) &&
+        carriesProtocol(link, filter.protocols),
+    ),
+  )
+
+  return { nodeIds, links }
+}
@@ -0,0 +1,56 @@
+import { describe, expect, it } from "vitest"
+import {
+  createSnapshotHistory,
+  DEFAULT_HISTORY_SIZE,
+  parseHistorySize,
+  type HistoryEntry,
+} from "@/lib/topology-history"
+
+function entry(timestamp: number): HistoryEntry {
+  return { snapshot: { nodes: [], edges: [], timestamp }, rates: new Map() }
+}
+
+const timestamps = (entries: HistoryEntry[]) => entries.map((e) => e.snapshot.timestamp)
+
+describe("createSnapshotHistory", () => {
+  it("drops the oldest entries once full", () => {
+    const history = createSnapshotHistory(3)
+    ;[1, 2, 3, 4, 5].forEach((t) => history.push(entry(t)))
+    expect(history.size()).toBe(3)
+    expect(timestamps(history.entries())).toEqual([3, 4, 5])
+    expect(history.range()).toEqual({ start: 3, end: 5 })
+  })
+
+  it("ignores entries that don't move forward in time", () => {
+    const history = createSnapshotHistory(5)
+    ;[10, 12, 12, 11, 13].forEach((t) => history.push(entry(t)))
+    expect(timestamps(history.entries())).toEqual([10, 12, 13])
+  })
+
+  it("finds the latest entry at or before a time", () => {
+    const history = createSnapshotHistory(4)
+    ;[10, 20, 30, 40, 50].forEach((t) => history.push(entry(t)))
+    expect(history.at(35)?.snapshot.timestamp).toBe(30)
+    expect(history.at(40)?.snapshot.timestamp).toBe(40)
+    expect(history.at(99)?.snapshot.timestamp).toBe(50)
+    // Before the oldest entry it returns the oldest one
+    expect(history.at(5)?.snapshot.timestamp).toBe(20)
+  })
+
+  it("is empty to begin with", () => {
+    const history = createSnapshotHistory(2)
+    expect(history.at(0)).toBeNull()
+    expect(history.range()).toBeNull()
+    expect(history.entries()).toEqual([])
+  })
+})
+
+describe("parseHistorySize", () => {
+  it("accepts positive integers", () => {
+    expect(parseHistorySize("600")).toBe(600)
+  })
+
+  it.each([undefined, "", "abc", "0", "-5", "12.5", "Infinity"])("falls back to the default for %j", (value) => {
+    expect(parseHistorySize(value)).toBe(DEFAULT_HISTORY_SIZE)
+  })
+})
@@ -0,0 +1,111 @@
+import type { ApiTopologyResponse } from "@/lib/topology"
+import type { RateTable } from "@/lib/traffic-rates"
+
+export interface HistoryEntry {
+  snapshot: ApiTopologyResponse
+  rates: RateTable
+}
+
+export interface SnapshotHistory {
+  push: (entry: HistoryEntry) => void
+  /** Latest entry at or before `timestamp`, or the oldest entry if `timestamp` predates them all. */
+  at: (timestamp: number) => HistoryEntry | null
+  range: () => { start: number; end: number } | null
+  entries: () => HistoryEntry[]
+  size: () => number
+}
+
+export const DEFAULT_HISTORY_SIZE = 1800 // snapshots, i.e. half an hour at one per second
+
+/** Reads a configured history size; anything but a positive integer falls back to the default. */
+export function parseHistorySize(value: string | undefined): number {
+  const size = Number(value)
+  return Number.isInteger(size) && size > 0 ? size : DEFAULT_HISTORY_SIZE
+}
+
+/** Fixed-capacity ring buffer of snapshots, ordered by snapshot timestamp. */
+export function createSnapshotHistory(capacity: number): SnapshotHistory {
+  const buffer: (HistoryEntry | undefined)[] = new Array(capacity)
+  let head = 0 // index of the oldest entry
+  let count = 0
+
+  const get = (i: number) => buffer[(head + i) % capacity]!
+
+  const push = (entry: HistoryEntry) => {
+    // Snapshots arrive in order; drop anything that would go backwards in time
+    if (count > 0 && entry.snapshot.timestamp <= get(count - 1).snapshot.timestamp) return
+    if (count < capacity) {
+      buffer[(head + count) % capacity] = entry
+      count++
+    } else {
+      buffer[head] = entry
+      head = (head + 1) % capacity
+    }
+  }
+
+  const at = (timestamp: number) => {
+    if (count === 0) return null
+    let lo = 0
+    let hi = count - 1
+    while (lo < hi) {
+      const mid = Math.ceil((lo + hi) / 2)
+      if (get(mid).snapshot.timestamp <= timestamp) lo = mid
+      else hi = mid - 1
+    }
+    return get(lo)
+  }
+
+  return {
+    push,
+    at,
+    range: () => (count === 0 ? null : { start: get(0).snapshot.timestamp, end: get(count - 1).snapshot.timestamp }),
+    entries: () => Array.from({ length: count }, (_, i) => get(i)),
+    size: () => count,
+  }
+}
+
+const DB_NAME = "144network-history"
+const STORE_NAME = "snapshots"
+
+function openHistoryDatabase(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, 1)
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore(STORE_NAME)
+    }
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+}
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+}
+
+/** Persists snapshots to IndexedDB keyed by timestamp so history survives a reload. */
+export interface HistoryStore {
+  load: () => Promise<HistoryEntry[]>
+  save: (entry: HistoryEntry) => Promise<void>
+  /** Deletes every entry older than `timestamp`. */
+  prune: (timestamp: number) => Promise<void>
+  close: () => void
+}
+
+export async function openHistoryStore(): Promise<HistoryStore> {
+  const db = await openHistoryDatabase()
+  const store = (mode: IDBTransactionMode) => db.transaction(STORE_NAME, mode).objectStore(STORE_NAME)
+
+  return {
+    load: () => requestToPromise(store("readonly").getAll() as IDBRequest<HistoryEntry[]>),
+    save: async (entry) => {
+      await requestToPromise(store("readwrite").put(entry, entry.snapshot.timestamp))
+    },
+    prune: async (timestamp) => {
+      await requestToPromise(store("readwrite").delete(IDBKeyRange.upperBound(timestamp, true)))
+    },
+    close: () => db.close(),
+  }
+}
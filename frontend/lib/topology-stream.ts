@@ -0,0 +1,236 @@
+import { SchemaError, validateTopologyDelta, validateTopologyResponse, type Validated } from "@/lib/api-schema"
+import { classifyFetchFailure, type DiagnosticEvent, type FailureReason } from "@/lib/diagnostics"
+import { openEventStream, type EventStream } from "@/lib/event-stream"
+import { applyTopologyDelta, type ApiTopologyResponse } from "@/lib/topology"
+
+export type StreamStatus = "connecting" | "live" | "reconnecting" | "polling" | "disconnected"
+
+export interface TopologyStreamOptions {
+  baseUrl: string
+  pollInterval: number
+  headers?: Record<string, string> // sent with every request, e.g. an Authorization header
+  onSnapshot: (data: ApiTopologyResponse) => void
+  onStatusChange: (status: StreamStatus) => void
+  onMessage?: (receivedAt: number) => void
+  onDiagnostic?: (event: DiagnosticEvent) => void
+}
+
+export interface TopologyStream {
+  close: () => void
+}
+
+const BACKOFF_BASE = 500
+const BACKOFF_MAX = 15000
+// Consecutive failed stream attempts before we fall back to polling
+const MAX_STREAM_ATTEMPTS = 5
+// While polling, how often to try upgrading back to the stream
+const STREAM_RETRY_INTERVAL = 30000
+
+function backoffDelay(attempt: number): number {
+  const delay = Math.min(BACKOFF_MAX, BACKOFF_BASE * 2 ** attempt)
+  return delay / 2 + Math.random() * (delay / 2)
+}
+
+/**
+ * EventSource hides why a stream failed to open, so the health endpoint is asked instead: it answers with
+ * the same status, CORS headers and reachability the stream would have.
+ */
+async function diagnoseStreamFailure(
+  baseUrl: string,
+  headers: Record<string, string>,
+): Promise<{ reason: FailureReason; message: string; status?: number }> {
+  const url = `${baseUrl}/api/health`
+  try {
+    const response = await fetch(url, { headers, cache: "no-store" })
+    if (!response.ok) return { reason: "http", message: `HTTP ${response.status}`, status: response.status }
+    return { reason: "network", message: "Stream failed to open, but the backend is reachable" }
+  } catch {
+    return { reason: await classifyFetchFailure(url), message: "Stream failed to open" }
+  }
+}
+
+/**
+ * Subscribes to `/api/stream` (Server-Sent Events) and keeps a local snapshot up to date
+ * from incremental deltas. Reconnects with exponential backoff and falls back to polling
+ * `/api/topology` when the stream is unavailable.
+ */
+export function createTopologyStream(options: TopologyStreamOptions): TopologyStream {
+  const { baseUrl, pollInterval, headers = {}, onSnapshot, onStatusChange, onMessage, onDiagnostic } = options
+  const topologyUrl = `${baseUrl}/api/topology`
+  const streamUrl = `${baseUrl}/api/stream`
+
+  let snapshot: ApiTopologyResponse | null = null
+  let source: EventStream | null = null
+  let attempt = 0
+  let closed = false
+  let reconnectTimer: ReturnType<typeof setTimeout> | null = null
+  let pollTimer: ReturnType<typeof setInterval> | null = null
+  let upgradeTimer: ReturnType<typeof setTimeout> | null = null
+
+  const emit = (data: ApiTopologyResponse) => {
+    snapshot = data
+    onMessage?.(Date.now())
+    onSnapshot(data)
+  }
+
+  const stopPolling = () => {
+    if (pollTimer) clearInterval(pollTimer)
+    if (upgradeTimer) clearTimeout(upgradeTimer)
+    pollTimer = null
+    upgradeTimer = null
+  }
+
+  /** Parses and validates a payload, reporting its size and anything dropped along the way. */
+  const accept = <T>(
+    url: string,
+    text: string,
+    validate: (raw: unknown) => Validated<T>,
+    response: { status?: number; latency?: number } = {},
+  ): T | null => {
+    try {
+      const { value, version, issues } = validate(JSON.parse(text))
+      const bytes = new TextEncoder().encode(text).length
+      onDiagnostic?.({ type: "response", url, ...response, bytes, schemaVersion: version, issues })
+      return value
+    } catch (error) {
+      if (!(error instanceof SchemaError || error instanceof SyntaxError)) throw error
+      onDiagnostic?.({ type: "failure", url, reason: "schema", message: error.message, status: response.status })
+      return null
+    }
+  }
+
+  const fail = (event: Omit<Extract<DiagnosticEvent, { type: "failure" }>, "type">) =>
+    onDiagnostic?.({ type: "failure", ...event })
+
+  const poll = async () => {
+    const start = performance.now()
+    let response: Response
+    try {
+      response = await fetch(topologyUrl, { headers })
+    } catch (error) {
+      // A poll still in flight when the stream went live has nothing to report
+      if (closed || pollTimer === null) return
+      onStatusChange("disconnected")
+      const reason = await classifyFetchFailure(topologyUrl)
+      if (!closed && pollTimer !== null) fail({ url: topologyUrl, reason, message: String(error) })
+      return
+    }
+    if (closed || pollTimer === null) return
+    const latency = Math.round(performance.now() - start)
+    if (!response.ok) {
+      onStatusChange("disconnected")
+      fail({ url: topologyUrl, reason: "http", message: `HTTP ${response.status}`, status: response.status })
+      return
+    }
+    const text = await response.text().catch(() => null)
+    if (closed || pollTimer === null) return
+    const data =
+      text === null ? null : accept(topologyUrl, text, validateTopologyResponse, { status: response.status, latency })
+    if (!data) {
+      if (text === null) fail({ url: topologyUrl, reason: "network", message: "Response body was cut off" })
+      onStatusChange("disconnected")
+      return
+    }
+    onStatusChange("polling")
+    emit(data)
+  }
+
+  const startPolling = () => {
+    if (pollTimer) return
+    onStatusChange("polling")
+    poll()
+    pollTimer = setInterval(poll, pollInterval)
+    if (typeof EventSource !== "undefined") {
+      upgradeTimer = setTimeout(() => {
+        attempt = 0
+        connect()
+      }, STREAM_RETRY_INTERVAL)
+    }
+  }
+
+  const scheduleReconnect = () => {
+    if (closed) return
+    if (attempt >= MAX_STREAM_ATTEMPTS) {
+      startPolling()
+      return
+    }
+    onStatusChange("reconnecting")
+    reconnectTimer = setTimeout(connect, backoffDelay(attempt))
+    attempt++
+  }
+
+  const connect = () => {
+    if (closed) return
+    if (typeof EventSource === "undefined") {
+      startPolling()
+      return
+    }
+
+    if (!pollTimer) onStatusChange(attempt === 0 ? "connecting" : "reconnecting")
+    const start = performance.now()
+    let opened = false
+    const stream = openEventStream(streamUrl, headers)
+    source = stream
+
+    // A payload that fails validation leaves the local snapshot unusable, so the stream is dropped and
+    // reopened for a fresh snapshot, the same as after a network error
+    const reject = () => {
+      stream.close()
+      if (source !== stream) return
+      source = null
+      if (pollTimer) upgradeTimer = setTimeout(connect, STREAM_RETRY_INTERVAL)
+      else scheduleReconnect()
+    }
+
+    stream.addEventListener("snapshot", (event) => {
+      // Only the first message's latency says anything about the connection; later ones are pushed
+      const latency = opened ? undefined : Math.round(performance.now() - start)
+      opened = true
+      const data = accept(streamUrl, event.data, validateTopologyResponse, { latency })
+      if (!data) return reject()
+      attempt = 0
+      stopPolling()
+      onStatusChange("live")
+      emit(data)
+    })
+
+    stream.addEventListener("delta", (event) => {
+      if (!snapshot) return
+      const delta = accept(streamUrl, event.data, validateTopologyDelta)
+      if (!delta) return reject()
+      emit(applyTopologyDelta(snapshot, delta))
+    })
+
+    stream.onError(async (status) => {
+      stream.close()
+      if (source !== stream) return
+      source = null
+      if (status !== undefined) {
+        fail({ url: streamUrl, reason: "http", message: `HTTP ${status}`, status })
+      } else if (opened) {
+        fail({ url: streamUrl, reason: "network", message: "Stream closed" })
+      } else {
+        const failure = await diagnoseStreamFailure(baseUrl, headers)
+        if (!closed) fail({ url: streamUrl, ...failure })
+      }
+      if (closed) return
+      if (pollTimer) {
+        // Upgrade attempt failed, stay on polling and try again later
+        upgradeTimer = setTimeout(connect, STREAM_RETRY_INTERVAL)
+        return
+      }
+      scheduleReconnect()
+    })
+  }
+
+  connect()
+
+  return {
+    close: () => {
+      closed = true
+      source?.close()
+      if (reconnectTimer) clearTimeout(reconnectTimer)
+      stopPolling()
+    },
+  }
+}
@@ -0,0 +1,71 @@
+import { describe, expect, it } from "vitest"
+import { applyTopologyDelta, nodeIdForIP, transformApiResponse, type ApiTopologyResponse } from "@/lib/topology"
+
+const snapshot: ApiTopologyResponse = {
+  nodes: [
+    { ip: "10.0.0.1", packets: 10 },
+    { ip: "10.0.0.2", packets: 5 },
+    { ip: "10.0.0.3", packets: 1 },
+  ],
+  edges: [
+    { source: "10.0.0.1", target: "10.0.0.2", weight: 5 },
+    { source: "10.0.0.2", target: "10.0.0.3", weight: 1 },
+  ],
+  timestamp: 100,
+}
+
+describe("applyTopologyDelta", () => {
+  it("upserts and removes nodes and edges and takes the delta's timestamp", () => {
+    const next = applyTopologyDelta(snapshot, {
+      upserted_nodes: [
+        { ip: "10.0.0.2", packets: 8 },
+        { ip: "10.0.0.4", packets: 2 },
+      ],
+      removed_nodes: ["10.0.0.3"],
+      upserted_edges: [{ source: "10.0.0.1", target: "10.0.0.2", weight: 8 }],
+      removed_edges: [{ source: "10.0.0.2", target: "10.0.0.3" }],
+      timestamp: 101,
+    })
+
+    expect(next.timestamp).toBe(101)
+    expect(next.nodes).toEqual([
+      { ip: "10.0.0.1", packets: 10 },
+      { ip: "10.0.0.2", packets: 8 },
+      { ip: "10.0.0.4", packets: 2 },
+    ])
+    expect(next.edges).toEqual([{ source: "10.0.0.1", target: "10.0.0.2", weight: 8 }])
+  })
+
+  it("leaves the previous snapshot untouched", () => {
+    applyTopologyDelta(snapshot, {
+      upserted_nodes: [],
+      removed_nodes: ["10.0.0.1"],
+      upserted_edges: [],
+      removed_edges: [],
+      timestamp: 101,
+    })
+    expect(snapshot.nodes).toHaveLength(3)
+  })
+})
+
+describe("transformApiResponse", () => {
+  it("infers roles from either family's addresses", () => {
+    const ips = ["10.0.0.1", "10.0.0.250", "10.0.0.42", "2001:db8::1", "2001:db8::53", "2001:db8::a1b2:c3d4:e5f6:1234"]
+    const topology = transformApiResponse({ nodes: ips.map((ip) => ({ ip, packets: 1 })), edges: [], timestamp: 0 })
+    expect(topology.nodes.map((node) => node.role)).toEqual([
+      "Router",
+      "Server",
+      "Client",
+      "Router",
+      "Server",
+      "Client",
+    ])
+  })
+})
+
+describe("nodeIdForIP", () => {
+  it("makes ids safe for selectors", () => {
+    expect(nodeIdForIP("10.0.0.1")).toBe("node-10-0-0-1")
+    expect(nodeIdForIP("2001:db8::1")).toBe("node-2001-db8--1")
+  })
+})
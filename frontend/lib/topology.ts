@@ -0,0 +1,204 @@
+import { hashResolver, type GeoLocation, type GeoResolver } from "@/lib/geo"
+import { createInventoryLookup, EMPTY_INVENTORY, type Inventory, type InventoryDevice } from "@/lib/inventory"
+import { abbreviateIP, isIPAddress, parseIP } from "@/lib/ip"
+import { flowsFromApi, type LinkFlow } from "@/lib/protocols"
+
+export interface NetworkNode {
+  id: string
+  name: string
+  ip: string
+  role: "Router" | "Server" | "Client"
+  lat: number
+  long: number
+  status: "active" | "idle" | "warning"
+  location?: GeoLocation
+  packets?: number // cumulative packet count reported by the backend
+  firstSeen?: number
+  lastSeen?: number
+  cluster?: { key: string; memberIds: string[]; memberIPs: string[] } // set on aggregated subnet/ASN nodes
+  tags?: string[]
+  sensors?: string[] // ids of the sensors that observed it
+}
+
+export interface NetworkLink {
+  source: string
+  target: string
+  traffic: number // packets/s (smoothed) - packets only flow while the link is active
+  packets: number // cumulative packet count reported by the backend
+  static?: boolean // declared in the inventory rather than observed
+  sensors?: string[] // ids of the sensors that observed the flow
+  flows?: LinkFlow[] // by protocol and destination port, busiest first; absent when the source doesn't report them
+}
+
+export interface TopologyData {
+  nodes: NetworkNode[]
+  links: NetworkLink[]
+}
+
+export interface ApiNode {
+  ip: string
+  packets: number
+  first_seen?: number
+  last_seen?: number
+  sensors?: string[] // added client-side when snapshots from several sensors are merged
+}
+
+export interface ApiFlow {
+  protocol: string // "tcp", "udp", "icmp" or another IP protocol name
+  port?: number | null // destination port; null for portless protocols and ephemeral ports
+  service?: string | null // well-known name for the port, e.g. "https"
+  weight: number
+}
+
+export interface ApiEdge {
+  source: string
+  target: string
+  weight: number
+  flows?: ApiFlow[]
+  sensors?: string[]
+}
+
+export interface ApiTopologyResponse {
+  schema_version?: number // see API_SCHEMA_VERSION
+  nodes: ApiNode[]
+  edges: ApiEdge[]
+  timestamp: number
+}
+
+export interface ApiTopologyDelta {
+  schema_version?: number
+  upserted_nodes: ApiNode[]
+  removed_nodes: string[]
+  upserted_edges: ApiEdge[]
+  removed_edges: { source: string; target: string }[]
+  timestamp: number
+}
+
+const INTERFACE_ID_MASK = (BigInt(1) << BigInt(64)) - BigInt(1)
+// Interface IDs up to here were most likely assigned by hand rather than by SLAAC or privacy extensions
+const MAX_MANUAL_INTERFACE_ID = BigInt(0xffff)
+
+function inferRoleFromIP(ip: string): NetworkNode["role"] {
+  const address = parseIP(ip)
+  if (address?.version === 6) {
+    // Gateways conventionally take ::1 of their prefix; servers get short, memorable interface IDs
+    const interfaceId = address.value & INTERFACE_ID_MASK
+    if (interfaceId === BigInt(1)) return "Router"
+    if (interfaceId <= MAX_MANUAL_INTERFACE_ID) return "Server"
+    return "Client"
+  }
+  const parts = ip.split(".")
+  const lastOctet = parseInt(parts[3] || "0", 10)
+  if (lastOctet === 1) return "Router"
+  if (lastOctet === 0 || lastOctet > 200) return "Server"
+  return "Client"
+}
+
+export interface TransformOptions {
+  resolver?: GeoResolver
+  rates?: Map<string, { rate: number }>
+  inventory?: Inventory
+}
+
+export function transformApiResponse(apiData: ApiTopologyResponse, options: TransformOptions = {}): TopologyData {
+  const { resolver = hashResolver, rates = new Map(), inventory = EMPTY_INVENTORY } = options
+  const lookup = createInventoryLookup(inventory)
+  const nodeMap = new Map<string, NetworkNode>()
+
+  apiData.nodes.forEach((apiNode) => {
+    nodeMap.set(apiNode.ip, {
+      ...createNodeFromIP(apiNode.ip, lookup(apiNode.ip), resolver),
+      status: apiNode.packets > 0 ? "active" : "idle",
+      packets: apiNode.packets,
+      firstSeen: apiNode.first_seen,
+      lastSeen: apiNode.last_seen,
+      sensors: apiNode.sensors,
+    })
+  })
+
+  // Devices pinned in the inventory are shown even before they send anything
+  inventory.devices.forEach((device) => {
+    if (!device.static || !isIPAddress(device.match) || nodeMap.has(device.match)) return
+    nodeMap.set(device.match, { ...createNodeFromIP(device.match, device, resolver), status: "idle" })
+  })
+
+  const links: NetworkLink[] = apiData.edges
+    .filter((edge) => nodeMap.has(edge.source) && nodeMap.has(edge.target))
+    .map((edge) => ({
+      source: nodeMap.get(edge.source)!.id,
+      target: nodeMap.get(edge.target)!.id,
+      traffic: rates.get(edgeKey(edge.source, edge.target))?.rate ?? 0,
+      packets: edge.weight,
+      sensors: edge.sensors,
+      flows: flowsFromApi(edge.flows),
+    }))
+
+  const observed = new Set(apiData.edges.map((edge) => edgeKey(edge.source, edge.target)))
+  inventory.links.forEach((link) => {
+    if (observed.has(edgeKey(link.source, link.target))) return
+    if (!nodeMap.has(link.source) || !nodeMap.has(link.target)) return
+    links.push({
+      source: nodeMap.get(link.source)!.id,
+      target: nodeMap.get(link.target)!.id,
+      traffic: 0,
+      packets: 0,
+      static: true,
+    })
+  })
+
+  return {
+    nodes: Array.from(nodeMap.values()),
+    links,
+  }
+}
+
+/** Builds a node for `ip`, preferring inventory data over the address heuristics. */
+export function createNodeFromIP(
+  ip: string,
+  device: InventoryDevice | null = null,
+  resolver: GeoResolver = hashResolver,
+): NetworkNode {
+  const coords: GeoLocation = device?.location
+    ? { ...device.location, source: "inventory" }
+    : (resolver.resolve(ip) ?? hashResolver.resolve(ip)!)
+
+  return {
+    id: nodeIdForIP(ip),
+    name: device?.name || `Node ${abbreviateIP(ip)}`,
+    ip: ip,
+    role: device?.role ?? inferRoleFromIP(ip),
+    lat: coords.lat,
+    long: coords.long,
+    status: "active",
+    location: coords,
+    tags: device?.tags,
+  }
+}
+
+/**
+ * A node id that is safe in DOM ids and CSS selectors for either family. IPv4 never contains "--" and
+ * canonical IPv6 never has four decimal groups without one, so the two can't collide.
+ */
+export function nodeIdForIP(ip: string): string {
+  return `node-${ip.replace(/[.:]/g, "-")}`
+}
+
+export function edgeKey(source: string, target: string): string {
+  return `${source}>${target}`
+}
+
+export function applyTopologyDelta(snapshot: ApiTopologyResponse, delta: ApiTopologyDelta): ApiTopologyResponse {
+  const nodes = new Map(snapshot.nodes.map((n) => [n.ip, n]))
+  const edges = new Map(snapshot.edges.map((e) => [edgeKey(e.source, e.target), e]))
+
+  delta.removed_nodes.forEach((ip) => nodes.delete(ip))
+  delta.removed_edges.forEach((e) => edges.delete(edgeKey(e.source, e.target)))
+  delta.upserted_nodes.forEach((n) => nodes.set(n.ip, n))
+  delta.upserted_edges.forEach((e) => edges.set(edgeKey(e.source, e.target), e))
+
+  return {
+    nodes: Array.from(nodes.values()),
+    edges: Array.from(edges.values()),
+    timestamp: delta.timestamp,
+  }
+}
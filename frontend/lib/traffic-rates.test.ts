@@ -0,0 +1,85 @@
+import { describe, expect, it } from "vitest"
+import type { ApiTopologyResponse } from "@/lib/topology"
+import { decayEdgeRates, formatRate, isRateActive, updateEdgeRates, type RateTable } from "@/lib/traffic-rates"
+
+function snapshot(timestamp: number, weight: number): ApiTopologyResponse {
+  return {
+    nodes: [
+      { ip: "10.0.0.1", packets: weight },
+      { ip: "10.0.0.2", packets: weight },
+    ],
+    edges: [{ source: "10.0.0.1", target: "10.0.0.2", weight }],
+    timestamp,
+  }
+}
+
+const KEY = "10.0.0.1>10.0.0.2"
+
+describe("updateEdgeRates", () => {
+  it("starts a new edge at zero", () => {
+    expect(updateEdgeRates(new Map(), snapshot(100, 500)).get(KEY)).toEqual({ count: 500, timestamp: 100, rate: 0 })
+  })
+
+  it("moves towards the instantaneous rate by the EWMA weight for the elapsed time", () => {
+    const first = updateEdgeRates(new Map(), snapshot(100, 500))
+    const second = updateEdgeRates(first, snapshot(105, 1000)).get(KEY)!
+    // 100 packets/s over 5 s, one time constant: 1 - 1/e of the way there
+    expect(second.rate).toBeCloseTo(100 * (1 - Math.exp(-1)))
+    expect(second).toMatchObject({ count: 1000, timestamp: 105 })
+  })
+
+  it("converges on a steady rate", () => {
+    let table: RateTable = new Map()
+    for (let t = 0; t <= 60; t++) table = updateEdgeRates(table, snapshot(t, t * 20))
+    expect(table.get(KEY)!.rate).toBeCloseTo(20, 1)
+  })
+
+  it("treats a count going backwards as a new baseline", () => {
+    const before = updateEdgeRates(updateEdgeRates(new Map(), snapshot(100, 500)), snapshot(101, 600))
+    expect(updateEdgeRates(before, snapshot(102, 10)).get(KEY)).toEqual({ count: 10, timestamp: 102, rate: 0 })
+  })
+
+  it("keeps the previous rate when the timestamp hasn't advanced", () => {
+    const before = updateEdgeRates(updateEdgeRates(new Map(), snapshot(100, 500)), snapshot(101, 600))
+    expect(updateEdgeRates(before, snapshot(101, 700)).get(KEY)).toBe(before.get(KEY))
+  })
+
+  it("drops edges missing from the snapshot", () => {
+    const before = updateEdgeRates(new Map(), snapshot(100, 500))
+    expect(updateEdgeRates(before, { nodes: [], edges: [], timestamp: 101 }).size).toBe(0)
+  })
+})
+
+describe("decayEdgeRates", () => {
+  const table: RateTable = new Map([[KEY, { count: 1000, timestamp: 105, rate: 100 }]])
+
+  it("decays like a snapshot with an unchanged count would", () => {
+    const decayed = decayEdgeRates(table, 5).get(KEY)!
+    expect(decayed.rate).toBeCloseTo(updateEdgeRates(table, snapshot(110, 1000)).get(KEY)!.rate)
+    expect(decayed).toMatchObject({ count: 1000, timestamp: 105 })
+    expect(table.get(KEY)!.rate).toBe(100)
+  })
+
+  it("drops rates too small to draw to zero", () => {
+    expect(decayEdgeRates(table, 60).get(KEY)!.rate).toBe(0)
+  })
+
+  it("leaves the table alone before it has been idle", () => {
+    expect(decayEdgeRates(table, -1)).toBe(table)
+  })
+})
+
+describe("isRateActive", () => {
+  it("ignores rates too small to draw", () => {
+    expect(isRateActive(0.01)).toBe(false)
+    expect(isRateActive(0.05)).toBe(true)
+  })
+})
+
+describe("formatRate", () => {
+  it("keeps a decimal for small rates and abbreviates thousands", () => {
+    expect(formatRate(2.345)).toBe("2.3 pkts/s")
+    expect(formatRate(42.4)).toBe("42 pkts/s")
+    expect(formatRate(1530)).toBe("1.5k pkts/s")
+  })
+})
@@ -0,0 +1,89 @@
+import { edgeKey, type ApiTopologyResponse } from "@/lib/topology"
+
+export interface EdgeRate {
+  count: number
+  timestamp: number
+  rate: number // packets/s, EWMA-smoothed
+}
+
+/** Smoothed rates keyed by {@link edgeKey} of the edge's source and target IPs. */
+export type RateTable = Map<string, EdgeRate>
+
+// EWMA time constant in seconds: a burst decays to ~37% of its height after this long
+const RATE_TIME_CONSTANT = 5
+// Below this a link is drawn as idle
+const ACTIVE_RATE_THRESHOLD = 0.05
+
+/**
+ * Diffs the cumulative edge counts in `snapshot` against the previous table into packets/s.
+ * An edge seen for the first time starts at 0 since its count has no baseline yet, and a
+ * count that goes backwards (backend restart) is treated as a fresh baseline.
+ */
+export function updateEdgeRates(previous: RateTable, snapshot: ApiTopologyResponse): RateTable {
+  const next: RateTable = new Map()
+
+  snapshot.edges.forEach((edge) => {
+    const key = edgeKey(edge.source, edge.target)
+    const prior = previous.get(key)
+    if (!prior || edge.weight < prior.count) {
+      next.set(key, { count: edge.weight, timestamp: snapshot.timestamp, rate: 0 })
+      return
+    }
+
+    const dt = snapshot.timestamp - prior.timestamp
+    if (dt <= 0) {
+      next.set(key, prior)
+      return
+    }
+
+    const instantaneous = (edge.weight - prior.count) / dt
+    const alpha = 1 - Math.exp(-dt / RATE_TIME_CONSTANT)
+    next.set(key, {
+      count: edge.weight,
+      timestamp: snapshot.timestamp,
+      rate: prior.rate + alpha * (instantaneous - prior.rate),
+    })
+  })
+
+  return next
+}
+
+/**
+ * Decays every rate as if its edge had carried nothing for `idle` more seconds, which is what
+ * {@link updateEdgeRates} works out once a later snapshot shows the count unchanged. Rates too
+ * small to draw drop to 0 so idle links settle. The table itself is left for the next diff.
+ */
+export function decayEdgeRates(table: RateTable, idle: number): RateTable {
+  if (idle <= 0) return table
+  const factor = Math.exp(-idle / RATE_TIME_CONSTANT)
+  const next: RateTable = new Map()
+  table.forEach((edge, key) => {
+    const rate = edge.rate * factor
+    next.set(key, { ...edge, rate: isRateActive(rate) ? rate : 0 })
+  })
+  return next
+}
+
+export function isRateActive(rate: number): boolean {
+  return rate >= ACTIVE_RATE_THRESHOLD
+}
+
+// Visual encodings are logarithmic and capped so a single heavy flow can't swamp the view
+
+export function rateToStrokeWidth(rate: number): number {
+  return Math.min(6, 1.5 + 1.5 * Math.log10(1 + rate))
+}
+
+export function rateToPacketCount(rate: number): number {
+  return Math.min(6, 1 + Math.floor(Math.log2(1 + rate)))
+}
+
+/** Packet speed in percent of the arc per second. */
+export function rateToPacketSpeed(rate: number): number {
+  return Math.min(60, 15 + 15 * Math.log10(1 + rate))
+}
+
+export function formatRate(rate: number): string {
+  if (rate >= 1000) return `${(rate / 1000).toFixed(1)}k pkts/s`
+  return `${rate.toFixed(rate < 10 ? 1 : 0)} pkts/s`
+}
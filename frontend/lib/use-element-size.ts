@@ -0,0 +1,29 @@
+import { useEffect, useState, type RefObject } from "react"
+
+export interface ElementSize {
+  width: number
+  height: number
+}
+
+/**
+ * Tracks the content size of `ref`'s element with a ResizeObserver. `initial` is used until the first
+ * measurement, so server and client render the same markup; zero sizes (a hidden element) are ignored.
+ */
+export function useElementSize(ref: RefObject<Element | null>, initial: ElementSize): ElementSize {
+  const [size, setSize] = useState(initial)
+
+  useEffect(() => {
+    const element = ref.current
+    if (!element) return
+    const observer = new ResizeObserver(([entry]) => {
+      const width = Math.round(entry.contentRect.width)
+      const height = Math.round(entry.contentRect.height)
+      if (width === 0 || height === 0) return
+      setSize((prev) => (prev.width === width && prev.height === height ? prev : { width, height }))
+    })
+    observer.observe(element)
+    return () => observer.disconnect()
+  }, [ref])
+
+  return size
+}
@@ -0,0 +1,18 @@
+import { useEffect, useState } from "react"
+
+const QUERY = "(prefers-reduced-motion: reduce)"
+
+/** Tracks the user's `prefers-reduced-motion` setting, including changes made while the page is open. */
+export function usePrefersReducedMotion(): boolean {
+  const [reduced, setReduced] = useState(false)
+
+  useEffect(() => {
+    const media = window.matchMedia(QUERY)
+    setReduced(media.matches)
+    const handleChange = (event: MediaQueryListEvent) => setReduced(event.matches)
+    media.addEventListener("change", handleChange)
+    return () => media.removeEventListener("change", handleChange)
+  }, [])
+
+  return reduced
+}